@@ -1,65 +1,75 @@
-import React, { useState, useEffect } from 'react';
-import { ChefHat, FileText, PenTool, MessageSquare, Menu } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { ChefHat, Loader2, FileText, PenTool, MessageSquare, Menu, Settings, BarChart3, Briefcase, Kanban, ScrollText } from 'lucide-react';
 import { Pantry } from './components/Pantry.tsx';
 import { RecipeBook } from './components/RecipeBook.tsx';
+import { ResumeStation } from './components/ResumeStation.tsx';
 import { CoverLetterStation } from './components/CoverLetterStation.tsx';
 import { TasteTest } from './components/TasteTest.tsx';
-import { CookMode, ChefState, ToastMessage, ToastType } from './types.ts';
+import { KitchenSettings } from './components/KitchenSettings.tsx';
+import { UsagePanel } from './components/UsagePanel.tsx';
+import { ApplicationList } from './components/ApplicationList.tsx';
+import { PipelineBoard } from './components/PipelineBoard.tsx';
+import { CookMode, ChefState, ToastMessage, ToastType, ToastAction } from './types.ts';
+import { getActiveApplication, getApplicationTitle } from './services/applications.ts';
+import { PERSISTED_KEYS, createEmptyState, loadChefState, saveChefState } from './services/statePersistence.ts';
+
+const SAVE_DEBOUNCE_MS = 400;
 
 const App: React.FC = () => {
   const [activeMode, setActiveMode] = useState<CookMode>(CookMode.PANTRY);
   const [toasts, setToasts] = useState<ToastMessage[]>([]);
   const [isSidebarOpen, setSidebarOpen] = useState(true);
+  const [isSettingsOpen, setSettingsOpen] = useState(false);
+  const [isUsageOpen, setUsageOpen] = useState(false);
   
-  // Initialize state with persistence check
-  const [chefState, setChefState] = useState<ChefState>(() => {
-    try {
-      const savedIngredients = localStorage.getItem('jobcook_ingredients');
-      return {
-        ingredients: savedIngredients ? JSON.parse(savedIngredients) : [],
-        currentRecipe: '',
-        companyName: '',
-        analysis: null,
-        companyResearch: null,
-        generatedCoverLetter: null,
-        interviewHistory: [],
-        isCooking: false,
-      };
-    } catch (e) {
-      console.error("Failed to load ingredients from storage", e);
-      return {
-        ingredients: [],
-        currentRecipe: '',
-        companyName: '',
-        analysis: null,
-        companyResearch: null,
-        generatedCoverLetter: null,
-        interviewHistory: [],
-        isCooking: false,
-      };
-    }
-  });
-
-  // Persist ingredients whenever they change
+  // Start empty and hydrate from IndexedDB; nothing is saved until that finishes
+  const [chefState, setChefState] = useState<ChefState>(() => ({ ...createEmptyState(), isCooking: false }));
+  const [isLoaded, setLoaded] = useState(false);
+  const latestState = useRef(chefState);
+  latestState.current = chefState;
+
   useEffect(() => {
-    try {
-      localStorage.setItem('jobcook_ingredients', JSON.stringify(chefState.ingredients));
-    } catch (e) {
-      console.error("Failed to save ingredients to storage", e);
-    }
-  }, [chefState.ingredients]);
+    loadChefState().then(saved => {
+      setChefState(prev => ({ ...prev, ...saved }));
+      setLoaded(true);
+    });
+  }, []);
+
+  // Persist everything except transient flags, debounced so streaming output doesn't write on every chunk.
+  // Depending on each persisted field keeps this in step with what saveChefState writes.
+  const persistedValues = PERSISTED_KEYS.map(key => chefState[key]);
+  useEffect(() => {
+    if (!isLoaded) return;
+    const timer = setTimeout(() => {
+      saveChefState(chefState).catch(e => console.error("Failed to save state", e));
+    }, SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [isLoaded, ...persistedValues]);
+
+  // Flush a pending save when the tab is hidden or closed
+  useEffect(() => {
+    if (!isLoaded) return;
+    const flush = () => {
+      if (document.visibilityState === 'hidden') saveChefState(latestState.current).catch(() => {});
+    };
+    document.addEventListener('visibilitychange', flush);
+    return () => document.removeEventListener('visibilitychange', flush);
+  }, [isLoaded]);
 
   // Toast Handler
-  const showToast = (message: string, type: ToastType = 'info') => {
+  const showToast = (message: string, type: ToastType = 'info', action?: ToastAction) => {
     const id = Date.now().toString();
-    setToasts(prev => [...prev, { id, message, type }]);
-    setTimeout(() => removeToast(id), 5000);
+    setToasts(prev => [...prev, { id, message, type, action }]);
+    // Leave actionable toasts up a little longer so there's time to click
+    setTimeout(() => removeToast(id), action ? 10000 : 5000);
   };
 
   const removeToast = (id: string) => {
     setToasts(prev => prev.filter(t => t.id !== id));
   };
 
+  const activeApplication = getActiveApplication(chefState);
+
   return (
     <div className="flex h-screen w-full bg-[#F8F9FA] font-sans text-slate-800">
       {/* Toast Container */}
@@ -78,7 +88,18 @@ const App: React.FC = () => {
                 toast.type === 'success' ? 'bg-emerald-500' :
                 'bg-blue-500'
              }`} />
-             <p className="text-sm font-medium text-slate-700">{toast.message}</p>
+             <p className="text-sm font-medium text-slate-700 flex-1">{toast.message}</p>
+             {toast.action && (
+               <button
+                 onClick={() => {
+                   removeToast(toast.id);
+                   toast.action!.onClick();
+                 }}
+                 className="text-xs font-bold text-slate-700 bg-slate-100 hover:bg-slate-200 px-3 py-1.5 rounded-lg transition-colors shrink-0"
+               >
+                 {toast.action.label}
+               </button>
+             )}
           </div>
         ))}
       </div>
@@ -96,6 +117,20 @@ const App: React.FC = () => {
         </div>
 
         <div className="p-4 space-y-1 flex-1">
+          <NavButton 
+            active={activeMode === CookMode.APPLICATIONS} 
+            onClick={() => setActiveMode(CookMode.APPLICATIONS)}
+            icon={<Briefcase size={20} />}
+            label="Applications"
+            expanded={isSidebarOpen}
+          />
+          <NavButton 
+            active={activeMode === CookMode.PIPELINE} 
+            onClick={() => setActiveMode(CookMode.PIPELINE)}
+            icon={<Kanban size={20} />}
+            label="Pipeline"
+            expanded={isSidebarOpen}
+          />
           <NavButton 
             active={activeMode === CookMode.PANTRY} 
             onClick={() => setActiveMode(CookMode.PANTRY)}
@@ -110,6 +145,13 @@ const App: React.FC = () => {
             label="Job Analysis"
             expanded={isSidebarOpen}
           />
+          <NavButton 
+            active={activeMode === CookMode.RESUME} 
+            onClick={() => setActiveMode(CookMode.RESUME)}
+            icon={<ScrollText size={20} />}
+            label="Tailored Resume"
+            expanded={isSidebarOpen}
+          />
           <NavButton 
             active={activeMode === CookMode.COVER_LETTER} 
             onClick={() => setActiveMode(CookMode.COVER_LETTER)}
@@ -124,6 +166,40 @@ const App: React.FC = () => {
             label="Mock Interview"
             expanded={isSidebarOpen}
           />
+
+          {isSidebarOpen && (
+            <div className="pt-4">
+              <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2 px-1">Working On</label>
+              <select
+                value={activeApplication.id}
+                onChange={(e) => setChefState(prev => ({ ...prev, activeApplicationId: e.target.value }))}
+                className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm text-slate-700 outline-none focus:ring-2 focus:ring-slate-900/10"
+              >
+                {chefState.applications
+                  .filter(a => !a.archived || a.id === activeApplication.id)
+                  .map(a => (
+                    <option key={a.id} value={a.id}>{getApplicationTitle(a)}</option>
+                  ))}
+              </select>
+            </div>
+          )}
+        </div>
+
+        <div className="px-4 pb-2 space-y-1">
+          <NavButton 
+            active={isUsageOpen} 
+            onClick={() => setUsageOpen(true)}
+            icon={<BarChart3 size={20} />}
+            label="AI Usage"
+            expanded={isSidebarOpen}
+          />
+          <NavButton 
+            active={isSettingsOpen} 
+            onClick={() => setSettingsOpen(true)}
+            icon={<Settings size={20} />}
+            label="Kitchen Settings"
+            expanded={isSidebarOpen}
+          />
         </div>
         
         {isSidebarOpen && (
@@ -143,7 +219,28 @@ const App: React.FC = () => {
       <main className="flex-1 h-full overflow-hidden relative bg-[#F8F9FA]">
         <div className="h-full w-full overflow-y-auto">
           <div className="max-w-7xl mx-auto p-6 md:p-12 min-h-full">
-            {activeMode === CookMode.PANTRY && (
+            {!isLoaded && (
+              <div className="h-full flex items-center justify-center py-32 text-slate-400">
+                <Loader2 size={24} className="animate-spin" />
+              </div>
+            )}
+            {isLoaded && activeMode === CookMode.APPLICATIONS && (
+              <ApplicationList
+                state={chefState}
+                setState={setChefState}
+                onShowToast={showToast}
+                onOpen={() => setActiveMode(CookMode.RECIPE)}
+              />
+            )}
+            {isLoaded && activeMode === CookMode.PIPELINE && (
+              <PipelineBoard
+                state={chefState}
+                setState={setChefState}
+                onShowToast={showToast}
+                onOpen={() => setActiveMode(CookMode.RECIPE)}
+              />
+            )}
+            {isLoaded && activeMode === CookMode.PANTRY && (
               <Pantry 
                 ingredients={chefState.ingredients} 
                 setIngredients={(newIngredients) => {
@@ -156,18 +253,28 @@ const App: React.FC = () => {
                 onShowToast={showToast}
               />
             )}
-            {activeMode === CookMode.RECIPE && (
+            {isLoaded && activeMode === CookMode.RECIPE && (
               <RecipeBook state={chefState} setState={setChefState} onShowToast={showToast} />
             )}
-            {activeMode === CookMode.COVER_LETTER && (
+            {isLoaded && activeMode === CookMode.RESUME && (
+              <ResumeStation state={chefState} setState={setChefState} onShowToast={showToast} />
+            )}
+            {isLoaded && activeMode === CookMode.COVER_LETTER && (
               <CoverLetterStation state={chefState} setState={setChefState} onShowToast={showToast} />
             )}
-            {activeMode === CookMode.TASTE_TEST && (
+            {isLoaded && activeMode === CookMode.TASTE_TEST && (
               <TasteTest state={chefState} setState={setChefState} onShowToast={showToast} />
             )}
           </div>
         </div>
       </main>
+
+      {isSettingsOpen && (
+        <KitchenSettings onClose={() => setSettingsOpen(false)} onShowToast={showToast} />
+      )}
+      {isUsageOpen && (
+        <UsagePanel onClose={() => setUsageOpen(false)} onShowToast={showToast} />
+      )}
     </div>
   );
 };
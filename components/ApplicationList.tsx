@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { ChefState, ToastType, ToastAction } from '../types.ts';
+import {
+  createApplication,
+  duplicateApplication,
+  getApplicationTitle,
+  patchApplication,
+  setArchived,
+} from '../services/applications.ts';
+import { Plus, Copy, Archive, ArchiveRestore, ArrowRight, PenTool, MessageSquare, Clock } from 'lucide-react';
+
+interface ApplicationListProps {
+  state: ChefState;
+  setState: React.Dispatch<React.SetStateAction<ChefState>>;
+  onShowToast: (msg: string, type: ToastType, action?: ToastAction) => void;
+  onOpen: () => void;
+}
+
+export const ApplicationList: React.FC<ApplicationListProps> = ({ state, setState, onShowToast, onOpen }) => {
+  const [activeTab, setActiveTab] = useState<'open' | 'archived'>('open');
+
+  const openCount = state.applications.filter(a => !a.archived).length;
+  const archivedCount = state.applications.length - openCount;
+  const visible = state.applications
+    .filter(a => a.archived === (activeTab === 'archived'))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+  const handleOpen = (id: string) => {
+    setState(prev => ({ ...prev, activeApplicationId: id }));
+    onOpen();
+  };
+
+  const handleCreate = () => {
+    const application = createApplication();
+    setState(prev => ({
+      ...prev,
+      applications: [...prev.applications, application],
+      activeApplicationId: application.id,
+    }));
+    onOpen();
+  };
+
+  const handleDuplicate = (id: string) => {
+    setState(prev => {
+      const source = prev.applications.find(a => a.id === id);
+      if (!source) return prev;
+      const copy = duplicateApplication(source);
+      return { ...prev, applications: [...prev.applications, copy], activeApplicationId: copy.id };
+    });
+    onShowToast("Application duplicated.", "success");
+  };
+
+  const handleArchive = (id: string, archived: boolean) => {
+    setState(prev => setArchived(prev, id, archived));
+    if (archived) {
+      onShowToast("Application archived.", "info", {
+        label: 'Undo',
+        onClick: () => setState(prev => setArchived(prev, id, false)),
+      });
+    } else {
+      onShowToast("Application restored.", "success");
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full animate-fadeIn">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-display font-bold text-slate-800">Applications</h1>
+        <p className="text-slate-500 mt-1">Keep each job you're applying for on its own station: description, analysis, letters and interview practice.</p>
+
+        <div className="mt-6 flex items-center justify-between border-b border-slate-200 pb-4">
+          <div className="flex items-baseline gap-2">
+            <span className="text-3xl font-bold text-slate-800">{openCount}</span>
+            <span className="text-sm font-medium text-slate-500">Open Applications</span>
+          </div>
+          <button
+            onClick={handleCreate}
+            className="flex items-center gap-2 text-sm font-bold text-white bg-slate-900 hover:bg-slate-800 px-4 py-2 rounded-lg transition-all shadow-sm"
+          >
+            <Plus size={16} /> New Application
+          </button>
+        </div>
+      </div>
+
+      {/* Tabs */}
+      <div className="flex items-center gap-8 mb-6">
+        {[
+          { id: 'open' as const, label: `Active (${openCount})` },
+          { id: 'archived' as const, label: `Archived (${archivedCount})` },
+        ].map(tab => (
+          <button
+            key={tab.id}
+            onClick={() => setActiveTab(tab.id)}
+            className={`pb-2 text-sm font-bold transition-all whitespace-nowrap ${
+              activeTab === tab.id
+                ? 'text-slate-800 border-b-2 border-slate-800'
+                : 'text-slate-400 hover:text-slate-600'
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="py-20 text-center text-slate-400 text-sm">
+          {activeTab === 'archived' ? 'Nothing archived yet.' : 'No open applications. Start a new one above.'}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6 pb-10">
+          {visible.map(application => {
+            const isCurrent = application.id === state.activeApplicationId;
+            return (
+              <div
+                key={application.id}
+                className={`bg-white rounded-xl border p-5 shadow-sm hover:shadow-md transition-all flex flex-col ${
+                  isCurrent ? 'border-slate-900' : 'border-slate-100 hover:border-blue-200'
+                }`}
+              >
+                <div className="flex items-start justify-between gap-3 mb-3">
+                  <input
+                    value={application.title}
+                    onChange={(e) => setState(prev => patchApplication(prev, application.id, { title: e.target.value }))}
+                    placeholder={getApplicationTitle(application)}
+                    className="flex-1 min-w-0 font-bold text-slate-800 text-lg bg-transparent outline-none border-b border-transparent focus:border-slate-200 placeholder:text-slate-800"
+                  />
+                  {isCurrent && (
+                    <span className="text-[10px] font-bold uppercase tracking-wider bg-slate-900 text-white px-2 py-1 rounded-md shrink-0">Current</span>
+                  )}
+                </div>
+
+                <div className="flex-1 mb-4 space-y-2">
+                  <p className="text-slate-500 text-sm line-clamp-2 leading-relaxed">
+                    {application.jobDescription || "No job description yet."}
+                  </p>
+                  <div className="flex flex-wrap items-center gap-3 text-xs text-slate-400 font-medium">
+                    {application.analysis && (
+                      <span className="text-emerald-600 font-bold">{application.analysis.matchScore}% match</span>
+                    )}
+                    <span className="flex items-center gap-1"><PenTool size={12} /> {application.coverLetters.length}</span>
+                    <span className="flex items-center gap-1"><MessageSquare size={12} /> {application.interviewSessions.length}</span>
+                    <span className="flex items-center gap-1"><Clock size={12} /> {new Date(application.updatedAt).toLocaleDateString()}</span>
+                  </div>
+                </div>
+
+                <div className="flex items-center justify-between border-t border-slate-50 pt-3 mt-auto">
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => handleDuplicate(application.id)}
+                      className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-50 rounded-lg transition-colors"
+                      title="Duplicate"
+                    >
+                      <Copy size={16} />
+                    </button>
+                    <button
+                      onClick={() => handleArchive(application.id, !application.archived)}
+                      className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-50 rounded-lg transition-colors"
+                      title={application.archived ? 'Restore' : 'Archive'}
+                    >
+                      {application.archived ? <ArchiveRestore size={16} /> : <Archive size={16} />}
+                    </button>
+                  </div>
+                  <button
+                    onClick={() => handleOpen(application.id)}
+                    className="flex items-center gap-1 text-sm font-bold text-slate-600 hover:text-slate-900 transition-colors"
+                  >
+                    Open <ArrowRight size={14} />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
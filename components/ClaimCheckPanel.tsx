@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { ClaimCheck, ClaimVerdict, Ingredient, LetterClaim } from '../types.ts';
+import { claimSentences, claimsBySentence, isCheckCurrent, openClaimIssues, paragraphSentences } from '../services/claimCheck.ts';
+import { splitDraftParagraphs } from '../services/letterBuilder.ts';
+import { ShieldCheck, ShieldAlert, Loader2, Square, RefreshCw, ChevronDown, ChevronUp, Check, Undo2 } from 'lucide-react';
+
+const VERDICTS: Record<ClaimVerdict, { label: string; badge: string; highlight: string }> = {
+  supported: { label: 'Backed', badge: 'bg-emerald-50 text-emerald-700 border-emerald-200', highlight: 'underline decoration-emerald-300 decoration-2 underline-offset-4' },
+  exaggerated: { label: 'Overstated', badge: 'bg-amber-50 text-amber-700 border-amber-200', highlight: 'bg-amber-100 rounded-sm' },
+  unsupported: { label: 'Unsupported', badge: 'bg-red-50 text-red-700 border-red-200', highlight: 'bg-red-100 rounded-sm' },
+};
+
+const ingredientNames = (claim: LetterClaim, ingredients: Ingredient[]) =>
+  claim.ingredientIds.map(id => ingredients.find(i => i.id === id)?.name).filter((name): name is string => !!name);
+
+interface ClaimCheckPanelProps {
+  check: ClaimCheck | undefined;
+  letterText: string; // The letter as it will be sent, placeholders filled
+  ingredients: Ingredient[];
+  isChecking: boolean;
+  expanded: boolean;
+  onToggleExpanded: () => void;
+  onCheck: () => void;
+  onStop: () => void;
+  onConfirm: (sentence: string, confirmed: boolean) => void;
+}
+
+/**
+ * Summary of the last claim check above the letter, with the flagged claims
+ * listed so each one can be fixed or vouched for before the letter goes out.
+ */
+export const ClaimCheckPanel: React.FC<ClaimCheckPanelProps> = ({
+  check, letterText, ingredients, isChecking, expanded, onToggleExpanded, onCheck, onStop, onConfirm,
+}) => {
+  const [showSupported, setShowSupported] = useState(false);
+
+  if (isChecking) {
+    return (
+      <div className="flex items-center justify-between gap-2 px-4 py-2 bg-white border-b border-slate-200 text-xs font-bold text-slate-500">
+        <span className="flex items-center gap-2"><Loader2 size={14} className="animate-spin" /> Checking claims against your pantry...</span>
+        <button onClick={onStop} className="flex items-center gap-1 text-red-600 hover:text-red-800">
+          <Square size={12} className="fill-red-500" /> Stop
+        </button>
+      </div>
+    );
+  }
+  if (!check) return null;
+
+  const issues = openClaimIssues(check, letterText);
+  const current = isCheckCurrent(check, letterText);
+  const present = new Set(claimSentences(letterText));
+  const claims = check.claims.filter(claim => present.has(claim.sentence));
+  const flagged = claims.filter(claim => claim.verdict !== 'supported');
+  const supported = claims.filter(claim => claim.verdict === 'supported');
+
+  return (
+    <div className="bg-white border-b border-slate-200 font-sans shrink-0">
+      <div className="flex items-center justify-between gap-2 px-4 py-2">
+        <button onClick={onToggleExpanded} className="flex items-center gap-2 min-w-0 text-xs font-bold text-left">
+          {issues.length > 0
+            ? <ShieldAlert size={16} className="text-red-500 shrink-0" />
+            : <ShieldCheck size={16} className="text-emerald-500 shrink-0" />}
+          <span className={issues.length > 0 ? 'text-red-700' : 'text-emerald-700'}>
+            {issues.length > 0
+              ? `${issues.length} ${issues.length === 1 ? 'claim needs' : 'claims need'} a look`
+              : flagged.length > 0 ? 'You vouched for every flagged claim' : 'Every claim is backed by your pantry'}
+          </span>
+          <span className="text-slate-400 font-medium truncate">
+            · {supported.length} backed{flagged.length > 0 && `, ${flagged.length} flagged`}
+            {!current && ' · letter changed since the check'}
+          </span>
+          {expanded ? <ChevronUp size={14} className="text-slate-400 shrink-0" /> : <ChevronDown size={14} className="text-slate-400 shrink-0" />}
+        </button>
+        <button
+          onClick={onCheck}
+          className={`flex items-center gap-1 text-xs font-bold shrink-0 ${current ? 'text-slate-400 hover:text-slate-700' : 'text-blue-600 hover:text-blue-800'}`}
+          title="Check the letter's claims again"
+        >
+          <RefreshCw size={12} /> Re-check
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="px-4 pb-3 space-y-2 max-h-64 overflow-y-auto">
+          {flagged.map(claim => {
+            const names = ingredientNames(claim, ingredients);
+            return (
+              <div key={claim.sentence} className={`rounded-lg border border-slate-200 p-3 text-sm ${claim.confirmed ? 'opacity-60' : ''}`}>
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <span className={`inline-block text-[10px] font-bold uppercase tracking-wider border rounded px-1.5 py-0.5 mr-2 ${VERDICTS[claim.verdict].badge}`}>
+                      {claim.confirmed ? 'Vouched for' : VERDICTS[claim.verdict].label}
+                    </span>
+                    <span className="text-slate-700 font-medium">{claim.claim || claim.sentence}</span>
+                    {claim.note && <p className="text-xs text-slate-500 mt-1">{claim.note}</p>}
+                    {names.length > 0 && <p className="text-xs text-slate-400 mt-1">Closest pantry items: {names.join(', ')}</p>}
+                  </div>
+                  <button
+                    onClick={() => onConfirm(claim.sentence, !claim.confirmed)}
+                    className="flex items-center gap-1 text-xs font-bold text-slate-500 hover:text-slate-800 shrink-0"
+                    title={claim.confirmed ? 'Flag this claim again' : "It's true; I just haven't added it to my pantry"}
+                  >
+                    {claim.confirmed ? <><Undo2 size={12} /> Undo</> : <><Check size={12} /> It's accurate</>}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+          {flagged.length > 0 && (
+            <p className="text-[11px] text-slate-400">Edit the flagged sentences, or add what backs them to your pantry and re-check.</p>
+          )}
+          {supported.length > 0 && (
+            <div>
+              <button onClick={() => setShowSupported(!showSupported)} className="text-xs font-bold text-slate-400 hover:text-slate-700">
+                {showSupported ? 'Hide' : 'Show'} {supported.length} backed {supported.length === 1 ? 'claim' : 'claims'}
+              </button>
+              {showSupported && (
+                <ul className="mt-2 space-y-1.5">
+                  {supported.map(claim => (
+                    <li key={claim.sentence} className="text-xs text-slate-600">
+                      <span className="font-medium">{claim.claim || claim.sentence}</span>
+                      <span className="text-slate-400"> ← {ingredientNames(claim, ingredients).join(', ') || 'pantry item removed'}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * The letter as plain text with each checked sentence highlighted by its
+ * verdict. Hovering a sentence shows why it was flagged or what backs it.
+ */
+export const ClaimHighlights: React.FC<{ check: ClaimCheck; letterText: string; ingredients: Ingredient[] }> = ({ check, letterText, ingredients }) => {
+  const claims = claimsBySentence(check);
+  return (
+    <div className="space-y-4 text-slate-800 text-base leading-loose">
+      {splitDraftParagraphs(letterText).map((paragraph, pIndex) => (
+        <p key={pIndex}>
+          {paragraphSentences(paragraph).map((line, lIndex) => (
+            <React.Fragment key={lIndex}>
+              {lIndex > 0 && <br />}
+              {line.map((sentence, sIndex) => {
+                const claim = claims.get(sentence);
+                const names = claim ? ingredientNames(claim, ingredients) : [];
+                return (
+                  <React.Fragment key={sIndex}>
+                    {sIndex > 0 && ' '}
+                    {claim ? (
+                      <span
+                        className={claim.confirmed ? 'underline decoration-slate-300 decoration-dotted underline-offset-4' : VERDICTS[claim.verdict].highlight}
+                        title={[claim.confirmed ? 'Vouched for' : VERDICTS[claim.verdict].label, claim.note, names.length ? `Backed by: ${names.join(', ')}` : '']
+                          .filter(Boolean).join('\n')}
+                      >
+                        {sentence}
+                      </span>
+                    ) : sentence}
+                  </React.Fragment>
+                );
+              })}
+            </React.Fragment>
+          ))}
+        </p>
+      ))}
+    </div>
+  );
+};
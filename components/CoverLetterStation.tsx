@@ -1,13 +1,28 @@
-import React, { useState, useRef } from 'react';
-import { ChefState, ToastType } from '../types.ts';
-import { cookCoverLetter, extractJobDescriptionFromImage } from '../services/geminiService.ts';
-import { Flame, PenTool, Copy, Check, Sparkles, Pencil, Eye, RefreshCw, Trash2, ImagePlus, Loader2, UploadCloud, UtensilsCrossed, FileText } from 'lucide-react';
+import React, { useState, useRef, useMemo } from 'react';
+import { ChefState, CoverLetterDraft, CoverLetterOptions, ToastType, ToastAction } from '../types.ts';
+import { checkLetterClaims, cookCoverLetterStream, extractJobDescriptionFromImage, isAbortError } from '../services/geminiService.ts';
+import { canRetry } from '../services/aiErrors.ts';
+import { createId, getActiveApplication, getActiveCoverLetter, patchApplication } from '../services/applications.ts';
+import { getProfileIngredients } from '../services/profiles.ts';
+import { buildLetterDocument, fillPlaceholders, formatLetterDate, getLetterRecipient, splitDraftParagraphs, stripSenderBlock } from '../services/letterBuilder.ts';
+import {
+  LETTER_LANGUAGES, LETTER_TONES, MAX_DRAFTS, WORD_COUNTS, describeStyle, getCoverLetterOptions, styleForDraft,
+} from '../services/coverLetterOptions.ts';
+import { jobRequirements } from '../services/letterEdits.ts';
+import { claimSentences, createClaimCheck, isCheckCurrent, openClaimIssues } from '../services/claimCheck.ts';
+import { DOCX_MIME, renderLetterDocx, renderLetterHtml } from '../services/letterRender.ts';
+import { downloadFile, printHtml } from '../services/documentExport.ts';
+import { ProfilePicker } from './ProfilePicker.tsx';
+import { LetterDetailsEditor } from './LetterDetailsEditor.tsx';
+import { LetterPassageEditor } from './LetterPassageEditor.tsx';
+import { ClaimCheckPanel, ClaimHighlights } from './ClaimCheckPanel.tsx';
+import { Flame, PenTool, Copy, Check, Sparkles, Pencil, Eye, RefreshCw, Trash2, ImagePlus, Loader2, UploadCloud, UtensilsCrossed, FileText, Square, Stamp, FileDown, Printer, Columns3, Combine, X, ShieldCheck, ShieldAlert } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 
 interface CoverLetterStationProps {
   state: ChefState;
   setState: React.Dispatch<React.SetStateAction<ChefState>>;
-  onShowToast: (msg: string, type: ToastType) => void;
+  onShowToast: (msg: string, type: ToastType, action?: ToastAction) => void;
 }
 
 export const CoverLetterStation: React.FC<CoverLetterStationProps> = ({ state, setState, onShowToast }) => {
@@ -15,38 +30,290 @@ export const CoverLetterStation: React.FC<CoverLetterStationProps> = ({ state, s
   const [isEditing, setIsEditing] = useState(false);
   const [isExtracting, setIsExtracting] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [isDetailsOpen, setDetailsOpen] = useState(false);
+  const [isComparing, setIsComparing] = useState(false);
+  const [mergePicks, setMergePicks] = useState<{ draftId: string; index: number }[]>([]);
+  const checkAbortRef = useRef<AbortController | null>(null);
+  const [checkingIds, setCheckingIds] = useState<string[]>([]);
+  const [showClaims, setShowClaims] = useState(true);
+  const application = getActiveApplication(state);
+  const activeDraft = getActiveCoverLetter(application);
+  const ingredients = getProfileIngredients(state, application);
+  const options = getCoverLetterOptions(application);
+  const emphasized = ingredients.filter(i => options.emphasisIds.includes(i.id));
+  // Requirements to target with inline rewrites; prose job descriptions fall back to the analysis gaps
+  const requirements = useMemo(() => {
+    const listed = jobRequirements(application.jobDescription);
+    return listed.length ? listed : application.analysis?.missingIngredients ?? [];
+  }, [application.jobDescription, application.analysis]);
+  // Alternatives written in the same run as the active draft
+  const batchDrafts = activeDraft?.batchId ? application.coverLetters.filter(d => d.batchId === activeDraft.batchId) : [];
+  const recipient = getLetterRecipient(application);
+  const letter = useMemo(
+    () => activeDraft && buildLetterDocument(activeDraft.content, state.letterhead, recipient),
+    // recipient is rebuilt each render while it still defaults to the company name
+    [activeDraft, state.letterhead, application.letterRecipient, application.companyName]
+  );
+  // The letter as it goes out, but with [Date] left in place: claims are checked
+  // against this text, and filling in today's date would make every check stale tomorrow
+  const bodyTextOf = (content: string) => fillPlaceholders(stripSenderBlock(content), state.letterhead, recipient);
+  const bodyText = activeDraft ? bodyTextOf(activeDraft.content) : '';
+  // What copy and preview show: the checked text with today's date filled in
+  const sentText = fillPlaceholders(bodyText, state.letterhead, recipient, formatLetterDate(new Date(), state.letterhead?.dateFormat ?? 'long'));
+  const claimIssues = activeDraft ? openClaimIssues(activeDraft.claimCheck, bodyText) : [];
+  const isCheckingActive = !!activeDraft && checkingIds.includes(activeDraft.id);
+
+  const updateDraft = (applicationId: string, draftId: string, changes: Partial<CoverLetterDraft>) =>
+    setState(prev => patchApplication(prev, applicationId, app => ({
+      coverLetters: app.coverLetters.map(d => d.id === draftId ? { ...d, ...changes } : d),
+    })));
+
+  const updateOptions = (changes: Partial<CoverLetterOptions>) =>
+    setState(prev => patchApplication(prev, application.id, app => ({
+      coverLetterOptions: { ...getCoverLetterOptions(app), ...changes },
+    })));
 
   const handleCookLetter = async () => {
-    if (!state.currentRecipe) return;
-    setState(prev => ({ ...prev, isCooking: true }));
-    onShowToast("Writing cover letter...", "info");
+    if (!application.jobDescription) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const applicationId = application.id;
+    const previousDraftId = activeDraft?.id ?? null;
+    const count = Math.min(Math.max(options.draftCount, 1), MAX_DRAFTS);
+    const styles = Array.from({ length: count }, (_, index) => styleForDraft(options, index));
+    // Every generation adds new drafts; earlier ones stay selectable
+    const batchId = createId();
+    const drafts: CoverLetterDraft[] = styles.map(style => ({
+      id: createId(),
+      content: '',
+      promptVersion: null,
+      createdAt: new Date().toISOString(),
+      batchId,
+      label: describeStyle(style, count > 1),
+    }));
+    const streamed = new Map<string, string>();
 
-    try {
-      const letter = await cookCoverLetter(state.ingredients, state.currentRecipe);
-      setState(prev => ({ ...prev, generatedCoverLetter: letter, isCooking: false }));
+    setState(prev => ({
+      ...patchApplication(prev, applicationId, app => ({
+        coverLetters: [...app.coverLetters, ...drafts],
+        activeCoverLetterId: drafts[0].id,
+      })),
+      isCooking: true,
+    }));
+    setIsStreaming(true);
+    setIsEditing(false);
+    setIsComparing(count > 1);
+    setMergePicks([]);
+    onShowToast(count > 1 ? `Writing ${count} drafts...` : "Writing cover letter...", "info");
+
+    // Alternatives stream side by side; one failing doesn't stop the others
+    const results = await Promise.allSettled(drafts.map((draft, index) =>
+      cookCoverLetterStream(
+        ingredients,
+        application.jobDescription,
+        styles[index],
+        (partial) => {
+          streamed.set(draft.id, partial);
+          updateDraft(applicationId, draft.id, { content: partial });
+        },
+        controller.signal
+      ).then(({ text, promptVersion }) => {
+        streamed.set(draft.id, text);
+        updateDraft(applicationId, draft.id, { content: text, promptVersion });
+      })
+    ));
+
+    // Keep whatever was written before a stop or failure; fall back to the previous draft if nothing arrived
+    const empty = new Set(drafts.filter(d => !streamed.get(d.id)).map(d => d.id));
+    const kept = drafts.filter(d => !empty.has(d.id));
+    setState(prev => ({
+      ...(empty.size ? patchApplication(prev, applicationId, app => ({
+        coverLetters: app.coverLetters.filter(d => !empty.has(d.id)),
+        activeCoverLetterId: kept[0]?.id ?? previousDraftId,
+      })) : prev),
+      isCooking: false,
+    }));
+    abortRef.current = null;
+    setIsStreaming(false);
+    if (kept.length < 2) setIsComparing(false);
+
+    const failures = results
+      .filter((r): r is PromiseRejectedResult => r.status === 'rejected' && !isAbortError(r.reason))
+      .map(r => r.reason);
+    if (controller.signal.aborted) {
+      onShowToast(kept.length ? `Stopped. Partial ${kept.length > 1 ? 'letters' : 'letter'} kept.` : "Generation stopped.", "info");
+    } else if (failures.length > 0) {
+      console.error(failures[0]);
+      const message = failures[0]?.message || "Generation failed.";
+      onShowToast(
+        kept.length && count > 1 ? `${failures.length} of ${count} drafts failed: ${message}` : message,
+        "error",
+        canRetry(failures[0]) ? { label: 'Retry', onClick: handleCookLetter } : undefined
+      );
+    } else {
+      onShowToast(count > 1 ? `${count} drafts ready. Checking their claims...` : "Cover letter ready! Checking its claims...", "success");
+    }
+
+    // Every finished draft gets a claim check before anyone copies it
+    const finished = drafts.filter((_, index) => results[index].status === 'fulfilled');
+    if (!controller.signal.aborted && finished.length > 0) {
+      checkClaims(applicationId, finished.map(d => ({ id: d.id, text: bodyTextOf(streamed.get(d.id)!) })));
+    }
+  };
+
+  /** Checks the drafts' claims against the pantry and stores the result on each draft. */
+  const checkClaims = async (applicationId: string, targets: { id: string; text: string }[]) => {
+    const checkable = targets.filter(t => claimSentences(t.text).length > 0);
+    if (checkable.length === 0) {
+      onShowToast("There are no claims to check yet.", "info");
+      return;
+    }
+    checkAbortRef.current?.abort();
+    const controller = new AbortController();
+    checkAbortRef.current = controller;
+    setCheckingIds(checkable.map(t => t.id));
+
+    const results = await Promise.allSettled(checkable.map(async target => {
+      const { claims, promptVersion } = await checkLetterClaims(claimSentences(target.text), ingredients, controller.signal);
+      const check = createClaimCheck(target.text, claims, promptVersion);
+      updateDraft(applicationId, target.id, { claimCheck: check });
+      return openClaimIssues(check, target.text).length;
+    }));
+
+    if (checkAbortRef.current === controller) {
+      checkAbortRef.current = null;
+      setCheckingIds([]);
+    }
+    setShowClaims(true);
+
+    const failures = results
+      .filter((r): r is PromiseRejectedResult => r.status === 'rejected' && !isAbortError(r.reason))
+      .map(r => r.reason);
+    const flagged = results.reduce((sum, r) => sum + (r.status === 'fulfilled' ? r.value : 0), 0);
+    if (controller.signal.aborted) {
+      onShowToast("Claim check stopped.", "info");
+    } else if (failures.length > 0) {
+      console.error(failures[0]);
+      onShowToast(
+        failures[0]?.message || "Claim check failed.",
+        "error",
+        canRetry(failures[0]) ? { label: 'Retry', onClick: () => checkClaims(applicationId, targets) } : undefined
+      );
+    } else if (flagged > 0) {
+      onShowToast(`${flagged} ${flagged === 1 ? "claim isn't" : "claims aren't"} backed by your pantry. Review the highlights before sending.`, "error");
+    } else {
+      onShowToast(checkable.length > 1 ? "Every claim in these drafts is backed by your pantry." : "Every claim is backed by your pantry.", "success");
+    }
+  };
+
+  const handleCheckClaims = () => {
+    if (!activeDraft) return;
+    setIsEditing(false);
+    checkClaims(application.id, [{ id: activeDraft.id, text: bodyText }]);
+  };
+
+  const handleConfirmClaim = (sentence: string, confirmed: boolean) => {
+    const check = activeDraft?.claimCheck;
+    if (!check) return;
+    updateDraft(application.id, activeDraft.id, {
+      claimCheck: { ...check, claims: check.claims.map(c => c.sentence === sentence ? { ...c, confirmed } : c) },
+    });
+  };
+
+  const toggleMergePick = (draftId: string, index: number) =>
+    setMergePicks(prev => prev.some(p => p.draftId === draftId && p.index === index)
+      ? prev.filter(p => !(p.draftId === draftId && p.index === index))
+      : [...prev, { draftId, index }]);
+
+  /** Builds a new draft from the picked paragraphs, in the order they were picked. */
+  const handleMerge = () => {
+    const picked = mergePicks.map(pick => ({ pick, draft: batchDrafts.find(d => d.id === pick.draftId) })).filter(p => p.draft);
+    const content = picked.map(({ pick, draft }) => splitDraftParagraphs(draft!.content)[pick.index]).filter(Boolean).join('\n\n');
+    if (!content) return;
+    const versions = new Set(picked.map(p => p.draft!.promptVersion));
+    const merged: CoverLetterDraft = {
+      id: createId(),
+      content,
+      promptVersion: versions.size === 1 ? [...versions][0] : null,
+      createdAt: new Date().toISOString(),
+      label: `Merged from ${new Set(picked.map(p => p.pick.draftId)).size} drafts`,
+    };
+    setState(prev => patchApplication(prev, application.id, app => ({
+      coverLetters: [...app.coverLetters, merged],
+      activeCoverLetterId: merged.id,
+    })));
+    setIsComparing(false);
+    setMergePicks([]);
+    onShowToast("Merged draft created. Edit it to smooth the joins.", "success");
+  };
+
+  const handlePickDraft = (draftId: string) => {
+    setState(prev => patchApplication(prev, application.id, { activeCoverLetterId: draftId }));
+    setIsComparing(false);
+    setMergePicks([]);
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  /**
+   * Copy and export stop at flagged claims still in the letter, offering to go
+   * ahead anyway; text that was never checked goes out with a reminder.
+   */
+  const guardClaims = (action: string, proceed: () => void) => {
+    if (claimIssues.length > 0) {
+      setShowClaims(true);
       setIsEditing(false);
-      onShowToast("Cover letter ready!", "success");
-    } catch (e: any) {
-      console.error(e);
-      onShowToast(e.message || "Generation failed.", "error");
-      setState(prev => ({ ...prev, isCooking: false }));
+      onShowToast(
+        `${claimIssues.length} flagged ${claimIssues.length === 1 ? 'claim is' : 'claims are'} still in this letter.`,
+        "error",
+        { label: `${action} anyway`, onClick: proceed }
+      );
+      return;
     }
+    proceed();
   };
 
-  const handleCopy = () => {
-    if (state.generatedCoverLetter) {
-      navigator.clipboard.writeText(state.generatedCoverLetter);
+  const announceExport = (message: string, type: ToastType) => {
+    if (!activeDraft || isCheckCurrent(activeDraft.claimCheck, bodyText)) {
+      onShowToast(message, type);
+    } else {
+      onShowToast(`${message} This version hasn't been checked for unsupported claims.`, "info", { label: 'Check now', onClick: handleCheckClaims });
+    }
+  };
+
+  const handleCopy = () => guardClaims('Copy', () => {
+    if (activeDraft?.content) {
+      navigator.clipboard.writeText(sentText);
       setCopied(true);
-      onShowToast("Copied to clipboard", "success");
+      announceExport("Copied to clipboard.", "success");
       setTimeout(() => setCopied(false), 2000);
     }
-  };
+  });
   
+  const exportName = () =>
+    [state.letterhead?.name.trim() || 'Cover Letter', recipient.company.trim()].filter(Boolean).join(' - ');
+
+  const handleExportDocx = () => guardClaims('Download', () => {
+    if (!letter) return;
+    downloadFile(`${exportName()}.docx`, renderLetterDocx(letter), DOCX_MIME);
+    announceExport("Word document downloaded.", "success");
+  });
+
+  const handleExportPdf = () => guardClaims('Print', () => {
+    if (!letter) return;
+    printHtml(renderLetterHtml(letter), exportName());
+    announceExport('Choose "Save as PDF" in the print dialog.', "info");
+  });
+
   const handleClear = () => {
-    setState(prev => ({
-      ...prev,
-      currentRecipe: '',
-      generatedCoverLetter: null
+    setState(prev => patchApplication(prev, application.id, {
+      jobDescription: '',
+      coverLetters: [],
+      activeCoverLetterId: null
     }));
     setCopied(false);
     setIsEditing(false);
@@ -63,6 +330,7 @@ export const CoverLetterStation: React.FC<CoverLetterStationProps> = ({ state, s
       return;
     }
 
+    const applicationId = application.id;
     setIsExtracting(true);
     onShowToast("Reading text...", "info");
 
@@ -75,7 +343,7 @@ export const CoverLetterStation: React.FC<CoverLetterStationProps> = ({ state, s
             const text = await extractJobDescriptionFromImage(base64Data, file.type);
             if (!text) throw new Error("Could not extract text.");
 
-            setState(prev => ({ ...prev, currentRecipe: text }));
+            setState(prev => patchApplication(prev, applicationId, { jobDescription: text }));
             onShowToast("Job description captured.", "success");
         } catch (innerErr: any) {
             onShowToast(innerErr.message || "Failed to parse image.", "error");
@@ -99,9 +367,12 @@ export const CoverLetterStation: React.FC<CoverLetterStationProps> = ({ state, s
   return (
     <div className="flex flex-col h-full animate-fadeIn pb-10">
       {/* Header */}
-      <div className="mb-10">
-        <h1 className="text-3xl font-display font-bold text-slate-800">Cover Letter</h1>
-        <p className="text-slate-500 mt-1">Generate a professional, personalized cover letter based on your experience.</p>
+      <div className="mb-10 flex justify-between items-start gap-4">
+        <div>
+          <h1 className="text-3xl font-display font-bold text-slate-800">Cover Letter</h1>
+          <p className="text-slate-500 mt-1">Generate a professional, personalized cover letter based on your experience.</p>
+        </div>
+        <ProfilePicker state={state} setState={setState} onShowToast={onShowToast} disabled={state.isCooking} />
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 h-full">
@@ -114,7 +385,7 @@ export const CoverLetterStation: React.FC<CoverLetterStationProps> = ({ state, s
                         Job Description
                     </label>
                     <div className="flex gap-2">
-                       {!state.currentRecipe ? (
+                       {!application.jobDescription ? (
                            <>
                             <input 
                                 type="file" 
@@ -145,7 +416,7 @@ export const CoverLetterStation: React.FC<CoverLetterStationProps> = ({ state, s
                 </div>
 
                 <div className="relative flex-1 mb-4">
-                     {!state.currentRecipe && !isExtracting && (
+                     {!application.jobDescription && !isExtracting && (
                        <div 
                           onClick={() => fileInputRef.current?.click()}
                           className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none bg-slate-50/50 rounded-xl z-10 border-2 border-dashed border-slate-200"
@@ -160,33 +431,164 @@ export const CoverLetterStation: React.FC<CoverLetterStationProps> = ({ state, s
                   <textarea
                     className="w-full h-full p-4 bg-slate-50 border border-slate-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-slate-300 focus:bg-white transition-all resize-none text-slate-700 font-medium text-sm leading-relaxed"
                     placeholder="Paste job description here..."
-                    value={state.currentRecipe}
-                    onChange={(e) => setState({ ...state, currentRecipe: e.target.value })}
+                    value={application.jobDescription}
+                    onChange={(e) => setState(prev => patchApplication(prev, application.id, { jobDescription: e.target.value }))}
                   />
                 </div>
 
-                <button
+                {/* Letter options */}
+                <div className="mb-4 space-y-3">
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <span className="block text-xs font-bold text-slate-500 mb-1">Tone</span>
+                      <div className="flex bg-slate-50 border border-slate-200 rounded-lg p-0.5">
+                        {LETTER_TONES.map(tone => (
+                          <button
+                            key={tone.id}
+                            onClick={() => updateOptions({ tone: tone.id })}
+                            disabled={state.isCooking}
+                            className={`flex-1 py-1.5 rounded-md text-xs font-bold transition-all ${options.tone === tone.id ? 'bg-white shadow-sm text-slate-800' : 'text-slate-400 hover:text-slate-600'}`}
+                          >
+                            {tone.label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <div>
+                      <span className="block text-xs font-bold text-slate-500 mb-1">Drafts</span>
+                      <div className="flex bg-slate-50 border border-slate-200 rounded-lg p-0.5">
+                        {Array.from({ length: MAX_DRAFTS }, (_, i) => i + 1).map(count => (
+                          <button
+                            key={count}
+                            onClick={() => updateOptions({ draftCount: count })}
+                            disabled={state.isCooking}
+                            className={`flex-1 py-1.5 rounded-md text-xs font-bold transition-all ${options.draftCount === count ? 'bg-white shadow-sm text-slate-800' : 'text-slate-400 hover:text-slate-600'}`}
+                            title={count > 1 ? `${count} alternatives with different openings` : 'One draft'}
+                          >
+                            {count}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <label className="block">
+                      <span className="block text-xs font-bold text-slate-500 mb-1">Length</span>
+                      <select
+                        className="w-full p-2 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-slate-300"
+                        value={options.wordCount}
+                        disabled={state.isCooking}
+                        onChange={(e) => updateOptions({ wordCount: Number(e.target.value) })}
+                      >
+                        {[...new Set([...WORD_COUNTS, options.wordCount])].sort((a, b) => a - b).map(count => (
+                          <option key={count} value={count}>About {count} words</option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="block">
+                      <span className="block text-xs font-bold text-slate-500 mb-1">Language</span>
+                      <input
+                        list="cover-letter-languages"
+                        className="w-full p-2 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-slate-300"
+                        value={options.language}
+                        maxLength={40}
+                        disabled={state.isCooking}
+                        onChange={(e) => updateOptions({ language: e.target.value })}
+                        onBlur={() => !options.language.trim() && updateOptions({ language: 'English' })}
+                      />
+                      <datalist id="cover-letter-languages">
+                        {LETTER_LANGUAGES.map(language => <option key={language} value={language} />)}
+                      </datalist>
+                    </label>
+                  </div>
+                  {ingredients.length > 0 && (
+                    <div>
+                      <span className="block text-xs font-bold text-slate-500 mb-1">
+                        Emphasize {emphasized.length > 0 && <span className="text-slate-400 font-medium">· {emphasized.length} selected</span>}
+                      </span>
+                      <div className="flex flex-wrap gap-1.5 max-h-24 overflow-y-auto">
+                        {ingredients.map(ingredient => {
+                          const isOn = options.emphasisIds.includes(ingredient.id);
+                          return (
+                            <button
+                              key={ingredient.id}
+                              onClick={() => updateOptions({
+                                emphasisIds: isOn ? options.emphasisIds.filter(id => id !== ingredient.id) : [...options.emphasisIds, ingredient.id],
+                              })}
+                              disabled={state.isCooking}
+                              className={`text-xs px-2.5 py-1 rounded-full border transition-colors max-w-[14rem] truncate ${
+                                isOn ? 'bg-slate-900 border-slate-900 text-white' : 'bg-white border-slate-200 text-slate-500 hover:border-slate-300'
+                              }`}
+                            >
+                              {ingredient.name}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                {isStreaming ? (
+                  <button
+                    onClick={handleStop}
+                    className="w-full bg-white hover:bg-red-50 text-red-600 border border-red-200 font-bold py-3 px-6 rounded-xl flex items-center justify-center gap-2 transition-all shadow-sm"
+                  >
+                    <Square size={16} className="fill-red-500" />
+                    <span className="text-lg">Stop Writing</span>
+                  </button>
+                ) : (
+                  <button
                     onClick={handleCookLetter}
-                    disabled={state.isCooking || !state.currentRecipe || state.ingredients.length === 0 || isExtracting}
+                    disabled={state.isCooking || !application.jobDescription || ingredients.length === 0 || isExtracting}
                     className="w-full bg-slate-900 hover:bg-slate-800 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold py-3 px-6 rounded-xl flex items-center justify-center gap-2 transition-all shadow-md shadow-slate-200"
                   >
                     {state.isCooking ? <Loader2 className="animate-spin" /> : <PenTool size={18} />}
-                    <span className="text-lg">{state.isCooking ? 'Generating...' : 'Generate Letter'}</span>
+                    <span className="text-lg">{state.isCooking ? 'Generating...' : options.draftCount > 1 ? `Generate ${options.draftCount} Drafts` : 'Generate Letter'}</span>
                   </button>
+                )}
              </div>
         </div>
 
         {/* Right Column: Result */}
         <div className="flex flex-col h-full min-h-[500px]">
-           {state.generatedCoverLetter ? (
+           {activeDraft ? (
              <div className="bg-white rounded-xl border border-slate-200 shadow-sm flex flex-col h-full overflow-hidden animate-slideUp">
                  {/* Toolbar */}
                  <div className="bg-slate-50 border-b border-slate-200 p-3 flex items-center justify-between shrink-0">
                      <div className="flex items-center gap-2 px-2">
                         <FileText size={16} className="text-slate-500" />
-                        <span className="text-sm font-bold text-slate-700">Draft.md</span>
+                        {application.coverLetters.length > 1 ? (
+                          <select
+                            className="text-sm font-bold text-slate-700 bg-transparent focus:outline-none cursor-pointer"
+                            value={activeDraft.id}
+                            disabled={isStreaming}
+                            onChange={(e) => setState(prev => patchApplication(prev, application.id, { activeCoverLetterId: e.target.value }))}
+                          >
+                            {application.coverLetters.map((d, idx) => (
+                              <option key={d.id} value={d.id}>
+                                Draft {idx + 1} · {d.label ?? new Date(d.createdAt).toLocaleDateString()}
+                              </option>
+                            ))}
+                          </select>
+                        ) : (
+                          <span className="text-sm font-bold text-slate-700">Draft.md</span>
+                        )}
+                        {isStreaming && <Loader2 size={14} className="animate-spin text-slate-400" />}
+                        {!isStreaming && activeDraft.promptVersion && (
+                          <span className="text-[10px] font-mono text-slate-400" title="Prompt template used for this draft">
+                            {activeDraft.promptVersion}
+                          </span>
+                        )}
                      </div>
                      <div className="flex gap-1">
+                      {batchDrafts.length > 1 && (
+                        <button 
+                          onClick={() => { setIsComparing(!isComparing); setMergePicks([]); }}
+                          className={`p-2 rounded-lg hover:bg-white hover:shadow-sm transition-all ${isComparing ? 'text-blue-600 bg-white shadow-sm' : 'text-slate-500 hover:text-slate-800'}`}
+                          title="Compare drafts side by side"
+                        >
+                          <Columns3 size={16} />
+                        </button>
+                      )}
                       <button 
                         onClick={handleCookLetter}
                         disabled={state.isCooking}
@@ -197,11 +599,27 @@ export const CoverLetterStation: React.FC<CoverLetterStationProps> = ({ state, s
                       </button>
                       <button 
                         onClick={() => setIsEditing(!isEditing)}
+                        disabled={isStreaming}
                         className={`p-2 rounded-lg hover:bg-white hover:shadow-sm transition-all ${isEditing ? 'text-blue-600 bg-white shadow-sm' : 'text-slate-500 hover:text-slate-800'}`}
                         title="Toggle Edit"
                       >
                         {isEditing ? <Eye size={16} /> : <Pencil size={16} />}
                       </button>
+                      <button 
+                        onClick={() => activeDraft.claimCheck && !isCheckingActive ? setShowClaims(!showClaims) : handleCheckClaims()}
+                        disabled={isStreaming || isCheckingActive}
+                        className={`relative p-2 rounded-lg hover:bg-white hover:shadow-sm transition-all ${
+                          claimIssues.length > 0 ? 'text-red-500 hover:text-red-700' : showClaims && activeDraft.claimCheck ? 'text-blue-600 bg-white shadow-sm' : 'text-slate-500 hover:text-slate-800'
+                        }`}
+                        title={activeDraft.claimCheck ? 'Toggle claim highlights' : 'Check claims against your pantry'}
+                      >
+                        {claimIssues.length > 0 ? <ShieldAlert size={16} /> : <ShieldCheck size={16} />}
+                        {claimIssues.length > 0 && (
+                          <span className="absolute -top-0.5 -right-0.5 min-w-[16px] h-4 px-1 rounded-full bg-red-500 text-white text-[10px] font-bold flex items-center justify-center">
+                            {claimIssues.length}
+                          </span>
+                        )}
+                      </button>
                       <button 
                         onClick={handleCopy}
                         className="p-2 rounded-lg hover:bg-white hover:shadow-sm text-slate-500 hover:text-emerald-600 transition-all"
@@ -209,22 +627,87 @@ export const CoverLetterStation: React.FC<CoverLetterStationProps> = ({ state, s
                       >
                         {copied ? <Check size={16} className="text-emerald-500" /> : <Copy size={16} />}
                       </button>
+                      <div className="w-px bg-slate-200 mx-1 my-1.5" />
+                      <button 
+                        onClick={() => setDetailsOpen(true)}
+                        className="p-2 rounded-lg hover:bg-white hover:shadow-sm text-slate-500 hover:text-slate-800 transition-all"
+                        title="Letterhead & recipient"
+                      >
+                        <Stamp size={16} />
+                      </button>
+                      <button 
+                        onClick={handleExportDocx}
+                        disabled={isStreaming}
+                        className="p-2 rounded-lg hover:bg-white hover:shadow-sm text-slate-500 hover:text-slate-800 transition-all"
+                        title="Download as Word (.docx)"
+                      >
+                        <FileDown size={16} />
+                      </button>
+                      <button 
+                        onClick={handleExportPdf}
+                        disabled={isStreaming}
+                        className="p-2 rounded-lg hover:bg-white hover:shadow-sm text-slate-500 hover:text-slate-800 transition-all"
+                        title="Save as PDF"
+                      >
+                        <Printer size={16} />
+                      </button>
                     </div>
                  </div>
                  
+                 {!isStreaming && (
+                   <ClaimCheckPanel
+                     check={activeDraft.claimCheck}
+                     letterText={bodyText}
+                     ingredients={ingredients}
+                     isChecking={isCheckingActive}
+                     expanded={showClaims}
+                     onToggleExpanded={() => setShowClaims(!showClaims)}
+                     onCheck={handleCheckClaims}
+                     onStop={() => checkAbortRef.current?.abort()}
+                     onConfirm={handleConfirmClaim}
+                   />
+                 )}
+
                  {/* Document View */}
                  <div className="flex-1 overflow-y-auto bg-slate-50/50 p-6">
                     <div className="bg-white shadow-sm border border-slate-100 min-h-full p-8 md:p-10 mx-auto max-w-[650px]">
                        {isEditing ? (
-                          <textarea
-                            className="w-full h-full text-slate-800 font-serif text-base leading-relaxed resize-none focus:outline-none bg-transparent"
-                            value={state.generatedCoverLetter}
-                            onChange={(e) => setState(prev => ({ ...prev, generatedCoverLetter: e.target.value }))}
-                            spellCheck={false}
+                          <LetterPassageEditor
+                            key={activeDraft.id}
+                            content={activeDraft.content}
+                            onChange={(content) => updateDraft(application.id, activeDraft.id, { content })}
+                            ingredients={ingredients}
+                            jobDescription={application.jobDescription}
+                            requirements={requirements}
+                            isCooking={state.isCooking}
+                            onCookingChange={(isCooking) => setState(prev => ({ ...prev, isCooking }))}
+                            onShowToast={onShowToast}
                           />
                        ) : (
-                          <div className="prose prose-slate max-w-none font-serif prose-p:leading-loose">
-                            <ReactMarkdown>{state.generatedCoverLetter}</ReactMarkdown>
+                          <div className="font-serif">
+                            {/* Letterhead, date and recipient as they'll appear in the export */}
+                            {letter && (letter.sender.name || letter.sender.lines.length > 0) && (
+                              <div className="text-center border-b border-slate-800 pb-2 mb-6">
+                                {letter.sender.name && <p className="text-2xl tracking-wide text-slate-800">{letter.sender.name}</p>}
+                                {letter.sender.lines.map(line => <p key={line} className="text-xs text-slate-500">{line}</p>)}
+                              </div>
+                            )}
+                            {letter && (
+                              <div className="text-slate-700 space-y-4 mb-4 text-base">
+                                <p>{letter.date}</p>
+                                {letter.recipient.length > 0 && (
+                                  <p>{letter.recipient.map((line, idx) => <React.Fragment key={idx}>{idx > 0 && <br />}{line}</React.Fragment>)}</p>
+                                )}
+                              </div>
+                            )}
+                            {/* While the claim panel is open, the body shows as plain text with claims highlighted */}
+                            {showClaims && activeDraft.claimCheck && !isStreaming ? (
+                              <ClaimHighlights check={activeDraft.claimCheck} letterText={bodyText} ingredients={ingredients} />
+                            ) : (
+                              <div className="prose prose-slate max-w-none prose-p:leading-loose">
+                                <ReactMarkdown>{sentText}</ReactMarkdown>
+                              </div>
+                            )}
                           </div>
                        )}
                     </div>
@@ -241,6 +724,82 @@ export const CoverLetterStation: React.FC<CoverLetterStationProps> = ({ state, s
            )}
         </div>
       </div>
+
+      {/* Side-by-side alternatives: pick one, or click paragraphs to merge them */}
+      {isComparing && batchDrafts.length > 1 && (
+        <div className="mt-8 bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden animate-slideUp">
+          <div className="bg-slate-50 border-b border-slate-200 p-4 flex items-center justify-between gap-4">
+            <div>
+              <h3 className="font-bold text-slate-700">Compare Drafts</h3>
+              <p className="text-xs text-slate-400">Use a draft as is, or click paragraphs in the order you want them to build a merged draft.</p>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              {mergePicks.length > 0 && (
+                <button onClick={() => setMergePicks([])} className="text-xs font-bold text-slate-400 hover:text-slate-700 px-2">
+                  Clear
+                </button>
+              )}
+              <button
+                onClick={handleMerge}
+                disabled={mergePicks.length === 0 || isStreaming}
+                className="flex items-center gap-2 text-sm font-bold bg-slate-900 hover:bg-slate-800 disabled:opacity-50 text-white px-4 py-2 rounded-lg transition-all"
+              >
+                <Combine size={16} />
+                Merge {mergePicks.length || ''} {mergePicks.length === 1 ? 'paragraph' : 'paragraphs'}
+              </button>
+              <button onClick={() => setIsComparing(false)} className="p-2 text-slate-400 hover:text-slate-600" title="Close">
+                <X size={18} />
+              </button>
+            </div>
+          </div>
+          <div className={`grid grid-cols-1 ${batchDrafts.length > 2 ? 'md:grid-cols-3' : 'md:grid-cols-2'} divide-y md:divide-y-0 md:divide-x divide-slate-100`}>
+            {batchDrafts.map(draft => (
+              <div key={draft.id} className="p-4 flex flex-col min-w-0">
+                <div className="flex items-center justify-between gap-2 mb-3">
+                  <span className="text-xs font-bold text-slate-500 truncate">{draft.label}</span>
+                  <button
+                    onClick={() => handlePickDraft(draft.id)}
+                    disabled={isStreaming}
+                    className="text-xs font-bold text-emerald-600 hover:text-emerald-800 shrink-0 disabled:opacity-50"
+                  >
+                    Use this draft
+                  </button>
+                </div>
+                <div className="space-y-2 font-serif text-sm text-slate-700 leading-relaxed">
+                  {splitDraftParagraphs(draft.content).map((paragraph, index) => {
+                    const order = mergePicks.findIndex(p => p.draftId === draft.id && p.index === index);
+                    return (
+                      // A div, since the Markdown renders block elements that a button can't contain
+                      <div
+                        key={index}
+                        role="button"
+                        tabIndex={0}
+                        onClick={() => !isStreaming && toggleMergePick(draft.id, index)}
+                        onKeyDown={(e) => (e.key === 'Enter' || e.key === ' ') && !isStreaming && (e.preventDefault(), toggleMergePick(draft.id, index))}
+                        className={`relative rounded-lg border p-3 transition-colors ${isStreaming ? '' : 'cursor-pointer'} ${
+                          order >= 0 ? 'border-blue-300 bg-blue-50/50' : 'border-transparent hover:border-slate-200 hover:bg-slate-50'
+                        }`}
+                      >
+                        {order >= 0 && (
+                          <span className="absolute -top-2 -left-2 w-5 h-5 rounded-full bg-blue-600 text-white text-[10px] font-sans font-bold flex items-center justify-center">
+                            {order + 1}
+                          </span>
+                        )}
+                        <div className="prose prose-sm prose-slate max-w-none"><ReactMarkdown>{paragraph}</ReactMarkdown></div>
+                      </div>
+                    );
+                  })}
+                  {!draft.content && <Loader2 size={16} className="animate-spin text-slate-300" />}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {isDetailsOpen && (
+        <LetterDetailsEditor state={state} setState={setState} onClose={() => setDetailsOpen(false)} />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,17 @@
+import React from 'react';
+import { DiffOp } from '../services/textDiff.ts';
+
+/**
+ * Renders diff ops. With a side, shows only the old text with deletions
+ * marked or the new text with insertions marked; without one, both inline.
+ */
+export const DiffText: React.FC<{ ops: DiffOp[]; side?: 'before' | 'after' }> = ({ ops, side }) => (
+  <>
+    {ops.map((op, index) => {
+      if (op.type === 'equal') return <span key={index}>{op.text}</span>;
+      if (side !== 'after' && op.type === 'delete') return <span key={index} className="bg-red-100 text-red-700 line-through">{op.text}</span>;
+      if (side !== 'before' && op.type === 'insert') return <span key={index} className="bg-emerald-100 text-emerald-700">{op.text}</span>;
+      return null;
+    })}
+  </>
+);
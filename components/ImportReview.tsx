@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { ImportAction, ImportCandidate, ImportKind, defaultAction } from '../services/importReview.ts';
+import { diffWords } from '../services/textDiff.ts';
+import { formatIngredientLines } from '../services/ingredientFields.ts';
+import { DiffText } from './DiffText.tsx';
+import { X } from 'lucide-react';
+
+interface ImportReviewProps {
+  candidates: ImportCandidate[];
+  onConfirm: (actions: ImportAction[]) => void;
+  onCancel: () => void;
+}
+
+const KIND_STYLES: Record<ImportKind, { label: string; className: string }> = {
+  new: { label: 'New', className: 'bg-emerald-50 text-emerald-600' },
+  duplicate: { label: 'Duplicate', className: 'bg-slate-100 text-slate-500' },
+  update: { label: 'Update', className: 'bg-blue-50 text-blue-600' },
+};
+
+const ACTION_LABELS: Record<ImportAction, string> = { accept: 'Accept', merge: 'Merge', skip: 'Skip' };
+
+export const ImportReview: React.FC<ImportReviewProps> = ({ candidates, onConfirm, onCancel }) => {
+  const [actions, setActions] = useState<ImportAction[]>(() => candidates.map(defaultAction));
+
+  const counts = actions.reduce(
+    (acc, action) => ({ ...acc, [action]: acc[action] + 1 }),
+    { accept: 0, merge: 0, skip: 0 } as Record<ImportAction, number>
+  );
+  const changeCount = counts.accept + counts.merge;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm p-4 animate-fadeIn">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-4xl overflow-hidden animate-slideUp flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h3 className="font-bold text-lg text-slate-800">Review Import</h3>
+            <p className="text-xs text-slate-500 mt-0.5">
+              {candidates.length} items found · {candidates.filter(c => c.kind !== 'new').length} already in your pantry
+            </p>
+          </div>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-3 overflow-y-auto">
+          {candidates.map((candidate, index) => {
+            const kind = KIND_STYLES[candidate.kind];
+            const options: ImportAction[] = candidate.match ? ['accept', 'merge', 'skip'] : ['accept', 'skip'];
+            const isSkipped = actions[index] === 'skip';
+            return (
+              <div key={candidate.incoming.id} className={`border rounded-xl p-4 transition-opacity ${isSkipped ? 'border-slate-100 opacity-60' : 'border-slate-200'}`}>
+                <div className="flex items-center justify-between gap-3 mb-3">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded-md shrink-0 ${kind.className}`}>{kind.label}</span>
+                    <span className="font-bold text-slate-800 truncate">{candidate.incoming.name}</span>
+                  </div>
+                  <div className="flex bg-slate-100 rounded-lg p-0.5 shrink-0">
+                    {options.map(action => (
+                      <button
+                        key={action}
+                        onClick={() => setActions(prev => prev.map((a, i) => (i === index ? action : a)))}
+                        className={`text-xs font-bold px-3 py-1 rounded-md transition-all ${
+                          actions[index] === action ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                        }`}
+                        title={
+                          action === 'accept' && candidate.match ? 'Replace the existing item with the imported one' :
+                          action === 'merge' ? 'Keep the existing item, fill its gaps and add new bullets and details' :
+                          undefined
+                        }
+                      >
+                        {ACTION_LABELS[action]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {candidate.match ? (
+                  <div className="grid grid-cols-2 gap-3 text-sm">
+                    {(['before', 'after'] as const).map(side => (
+                      <div key={side} className="bg-slate-50 rounded-lg p-3 min-w-0">
+                        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1">
+                          {side === 'before' ? 'In your pantry' : 'Imported'}
+                        </p>
+                        <p className="font-medium text-slate-700 break-words">
+                          <DiffText ops={diffWords(candidate.match!.name, candidate.incoming.name)} side={side} />
+                        </p>
+                        <p className="text-slate-500 whitespace-pre-wrap break-words mt-1">
+                          <DiffText ops={diffWords(formatIngredientLines(candidate.match!), formatIngredientLines(candidate.incoming))} side={side} />
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  formatIngredientLines(candidate.incoming) && (
+                    <p className="text-sm text-slate-500 whitespace-pre-wrap bg-slate-50 rounded-lg p-3">{formatIngredientLines(candidate.incoming)}</p>
+                  )
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex items-center justify-between bg-slate-50/50">
+          <p className="text-xs text-slate-500">
+            {counts.accept} accept · {counts.merge} merge · {counts.skip} skip
+          </p>
+          <div className="flex gap-3">
+            <button onClick={onCancel} className="px-4 py-2 text-sm font-bold text-slate-500 hover:text-slate-800">
+              Cancel
+            </button>
+            <button
+              onClick={() => onConfirm(actions)}
+              disabled={changeCount === 0}
+              className="px-5 py-2 text-sm font-bold text-white bg-slate-900 hover:bg-slate-800 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Apply {changeCount} {changeCount === 1 ? 'change' : 'changes'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
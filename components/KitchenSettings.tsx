@@ -0,0 +1,261 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ToastType } from '../types.ts';
+import { PROVIDER_OPTIONS, ProviderConfig, getProviderConfig, setProviderConfig } from '../services/aiProvider.ts';
+import { FixtureMode, getFixtureCount, exportFixtures, importFixtures, clearFixtures } from '../services/fixtureStore.ts';
+import { getCacheSize, clearResponseCache } from '../services/responseCache.ts';
+import { isProxyEnabled } from '../services/apiClient.ts';
+import { PromptTemplate, listPromptTemplates, getPromptVersion, getPromptOverride } from '../services/promptRegistry.ts';
+import { PromptTemplateEditor } from './PromptTemplateEditor.tsx';
+import { X, Server, Download, Upload, Trash2, Pencil } from 'lucide-react';
+
+const FIXTURE_MODES: { id: FixtureMode; label: string }[] = [
+  { id: 'live', label: 'Live' },
+  { id: 'record', label: 'Record' },
+  { id: 'replay', label: 'Replay' },
+];
+
+interface KitchenSettingsProps {
+  onClose: () => void;
+  onShowToast: (msg: string, type: ToastType) => void;
+}
+
+export const KitchenSettings: React.FC<KitchenSettingsProps> = ({ onClose, onShowToast }) => {
+  const [config, setConfig] = useState<ProviderConfig>(() => getProviderConfig());
+  const [fixtureCount, setFixtureCount] = useState(() => getFixtureCount());
+  const fixtureInputRef = useRef<HTMLInputElement>(null);
+  const [editingTemplate, setEditingTemplate] = useState<PromptTemplate | null>(null);
+  const [cacheSize, setCacheSize] = useState(0);
+
+  useEffect(() => {
+    getCacheSize().then(setCacheSize);
+  }, []);
+
+  const selectedOption = PROVIDER_OPTIONS.find(o => o.id === config.provider)!;
+
+  const handleSave = () => {
+    setProviderConfig(config);
+    onShowToast(`Now cooking with ${selectedOption.label}.`, "success");
+    onClose();
+  };
+
+  const handleExportFixtures = () => {
+    const blob = new Blob([JSON.stringify(exportFixtures(), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'jobcook-fixtures.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportFixtures = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      importFixtures(JSON.parse(await file.text()));
+      setFixtureCount(getFixtureCount());
+      onShowToast("Fixtures loaded.", "success");
+    } catch (err: any) {
+      onShowToast(err.message || "Could not read fixture file.", "error");
+    }
+    if (fixtureInputRef.current) fixtureInputRef.current.value = '';
+  };
+
+  const handleClearCache = async () => {
+    try {
+      await clearResponseCache();
+      setCacheSize(0);
+      onShowToast("Response cache cleared.", "info");
+    } catch (err: any) {
+      onShowToast(err.message || "Could not clear the cache.", "error");
+    }
+  };
+
+  const handleClearFixtures = () => {
+    clearFixtures();
+    setFixtureCount(0);
+    onShowToast("Recorded fixtures cleared.", "info");
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm p-4 animate-fadeIn">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg overflow-hidden animate-slideUp flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <h3 className="font-bold text-lg text-slate-800">Kitchen Settings</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          {isProxyEnabled() && (
+            <div className="bg-blue-50 border border-blue-100 text-blue-700 rounded-xl p-3 text-xs">
+              AI calls go through the JobCook API server, which holds the key, picks the provider and keeps its own cache, usage log and budget. Provider and cache settings below apply only when the app talks to a provider directly, and custom prompts must be reset before their tasks can run.
+            </div>
+          )}
+
+          {/* Provider Selection */}
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">AI Provider</label>
+            <div className="space-y-2">
+              {PROVIDER_OPTIONS.map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => setConfig({ ...config, provider: option.id, model: undefined })}
+                  className={`w-full text-left p-3 rounded-xl border transition-all flex items-start gap-3 ${
+                    config.provider === option.id
+                      ? 'bg-slate-800 text-white border-slate-800'
+                      : 'bg-white text-slate-600 border-slate-200 hover:border-slate-300'
+                  }`}
+                >
+                  <Server size={16} className="mt-0.5 shrink-0" />
+                  <div>
+                    <p className="text-sm font-bold">{option.label}</p>
+                    <p className={`text-xs ${config.provider === option.id ? 'text-slate-300' : 'text-slate-400'}`}>{option.description}</p>
+                  </div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Model */}
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Model</label>
+            <input
+              type="text"
+              className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-slate-200 focus:bg-white transition-all font-medium text-slate-800 text-sm"
+              placeholder={selectedOption.defaultModel}
+              value={config.model || ''}
+              onChange={(e) => setConfig({ ...config, model: e.target.value || undefined })}
+            />
+          </div>
+
+          {/* OpenAI-compatible endpoint */}
+          {config.provider === 'openai' && (
+            <>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Base URL</label>
+                <input
+                  type="text"
+                  className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-slate-200 focus:bg-white transition-all font-medium text-slate-800 text-sm"
+                  placeholder="http://localhost:11434/v1"
+                  value={config.baseUrl || ''}
+                  onChange={(e) => setConfig({ ...config, baseUrl: e.target.value || undefined })}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">API Key (optional)</label>
+                <input
+                  type="password"
+                  className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-slate-200 focus:bg-white transition-all font-medium text-slate-800 text-sm"
+                  placeholder="Not needed for most local servers"
+                  value={config.apiKey || ''}
+                  onChange={(e) => setConfig({ ...config, apiKey: e.target.value || undefined })}
+                />
+              </div>
+            </>
+          )}
+
+          {/* Record / Replay */}
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Record / Replay</label>
+            <div className="grid grid-cols-3 gap-2">
+              {FIXTURE_MODES.map(mode => (
+                <button
+                  key={mode.id}
+                  onClick={() => setConfig({ ...config, fixtureMode: mode.id })}
+                  className={`text-xs font-bold py-2 px-1 rounded-lg border transition-all text-center ${
+                    (config.fixtureMode || 'live') === mode.id
+                      ? 'bg-slate-800 text-white border-slate-800'
+                      : 'bg-white text-slate-600 border-slate-200 hover:border-slate-300'
+                  }`}
+                >
+                  {mode.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-400 mt-2">
+              Record saves every AI call, including failures. Replay serves them back without the network.
+            </p>
+            <div className="mt-3 flex items-center justify-between bg-slate-50 border border-slate-100 rounded-xl p-3">
+              <span className="text-sm font-medium text-slate-600">{fixtureCount} recorded calls</span>
+              <div className="flex gap-1">
+                <input
+                  type="file"
+                  ref={fixtureInputRef}
+                  className="hidden"
+                  accept="application/json"
+                  onChange={handleImportFixtures}
+                />
+                <button onClick={() => fixtureInputRef.current?.click()} className="p-2 rounded-lg hover:bg-white hover:shadow-sm text-slate-500 hover:text-slate-800 transition-all" title="Import fixtures">
+                  <Upload size={16} />
+                </button>
+                <button onClick={handleExportFixtures} disabled={fixtureCount === 0} className="p-2 rounded-lg hover:bg-white hover:shadow-sm text-slate-500 hover:text-slate-800 transition-all disabled:opacity-50" title="Export fixtures">
+                  <Download size={16} />
+                </button>
+                <button onClick={handleClearFixtures} disabled={fixtureCount === 0} className="p-2 rounded-lg hover:bg-white hover:shadow-sm text-slate-500 hover:text-red-500 transition-all disabled:opacity-50" title="Clear fixtures">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {/* Response Cache */}
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Response Cache</label>
+            <div className="flex items-center justify-between bg-slate-50 border border-slate-100 rounded-xl p-3">
+              <span className="text-sm font-medium text-slate-600">{cacheSize} cached answers</span>
+              <button onClick={handleClearCache} disabled={cacheSize === 0} className="p-2 rounded-lg hover:bg-white hover:shadow-sm text-slate-500 hover:text-red-500 transition-all disabled:opacity-50" title="Clear cache">
+                <Trash2 size={16} />
+              </button>
+            </div>
+            <p className="text-xs text-slate-400 mt-2">
+              Identical analyses, company research and scans are reused instead of calling the AI again.
+            </p>
+          </div>
+
+          {/* Prompt Templates */}
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Prompt Templates</label>
+            <div className="bg-slate-50 border border-slate-100 rounded-xl divide-y divide-slate-100">
+              {listPromptTemplates().map(template => (
+                <div key={template.task} className="flex items-center justify-between p-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-slate-700 flex items-center gap-2">
+                      {template.label}
+                      {getPromptOverride(template.task) && (
+                        <span className="text-[10px] font-bold uppercase bg-amber-100 text-amber-700 px-1.5 py-0.5 rounded">Customized</span>
+                      )}
+                    </p>
+                    <p className="text-[10px] font-mono text-slate-400 truncate">{getPromptVersion(template.task)}</p>
+                  </div>
+                  <button onClick={() => setEditingTemplate(template)} className="p-2 rounded-lg hover:bg-white hover:shadow-sm text-slate-500 hover:text-slate-800 transition-all" title="Edit prompt">
+                    <Pencil size={16} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6 pt-0 mt-auto">
+          <button
+            onClick={handleSave}
+            className="w-full py-3 bg-slate-900 hover:bg-slate-800 text-white font-bold rounded-xl transition-all shadow-lg shadow-slate-200"
+          >
+            Save Settings
+          </button>
+        </div>
+      </div>
+
+      {editingTemplate && (
+        <PromptTemplateEditor
+          template={editingTemplate}
+          onClose={() => setEditingTemplate(null)}
+          onSaved={() => setEditingTemplate(null)}
+          onShowToast={onShowToast}
+        />
+      )}
+    </div>
+  );
+};
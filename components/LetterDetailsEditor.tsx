@@ -0,0 +1,98 @@
+import React from 'react';
+import { ChefState, LetterRecipient, Letterhead } from '../types.ts';
+import { getActiveApplication, getApplicationTitle, patchApplication } from '../services/applications.ts';
+import { LETTER_DATE_FORMATS, createLetterhead, formatLetterDate, getLetterRecipient } from '../services/letterBuilder.ts';
+import { X } from 'lucide-react';
+
+interface LetterDetailsEditorProps {
+  state: ChefState;
+  setState: React.Dispatch<React.SetStateAction<ChefState>>;
+  onClose: () => void;
+}
+
+const inputClass = "w-full text-sm text-slate-700 bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 outline-none focus:ring-2 focus:ring-slate-900/10";
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="block">
+    <span className="block text-xs font-bold text-slate-500 mb-1">{label}</span>
+    {children}
+  </label>
+);
+
+/** Edits the letterhead shared by all letters and the recipient of the selected application's letters. */
+export const LetterDetailsEditor: React.FC<LetterDetailsEditorProps> = ({ state, setState, onClose }) => {
+  const application = getActiveApplication(state);
+  const letterhead = state.letterhead ?? createLetterhead();
+  const recipient = getLetterRecipient(application);
+  const today = new Date();
+
+  const updateLetterhead = (changes: Partial<Letterhead>) =>
+    setState(prev => ({ ...prev, letterhead: { ...(prev.letterhead ?? createLetterhead()), ...changes } }));
+
+  const updateRecipient = (changes: Partial<LetterRecipient>) =>
+    setState(prev => patchApplication(prev, application.id, app => ({ letterRecipient: { ...getLetterRecipient(app), ...changes } })));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm p-4 animate-fadeIn">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-3xl overflow-hidden animate-slideUp flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <h3 className="font-bold text-lg text-slate-800">Letterhead & Recipient</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto grid grid-cols-1 md:grid-cols-2 gap-8">
+          <div className="space-y-3">
+            <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Your letterhead · every letter</h4>
+            <Field label="Name">
+              <input className={inputClass} value={letterhead.name} onChange={(e) => updateLetterhead({ name: e.target.value })} placeholder="Jane Doe" />
+            </Field>
+            <div className="grid grid-cols-2 gap-3">
+              <Field label="Email">
+                <input className={inputClass} value={letterhead.email} onChange={(e) => updateLetterhead({ email: e.target.value })} />
+              </Field>
+              <Field label="Phone">
+                <input className={inputClass} value={letterhead.phone} onChange={(e) => updateLetterhead({ phone: e.target.value })} />
+              </Field>
+            </div>
+            <Field label="Website or LinkedIn">
+              <input className={inputClass} value={letterhead.website} onChange={(e) => updateLetterhead({ website: e.target.value })} />
+            </Field>
+            <Field label="Address">
+              <textarea className={`${inputClass} resize-none`} rows={2} value={letterhead.address} onChange={(e) => updateLetterhead({ address: e.target.value })} />
+            </Field>
+            <Field label="Date format">
+              <select
+                className={inputClass}
+                value={letterhead.dateFormat}
+                onChange={(e) => updateLetterhead({ dateFormat: e.target.value as Letterhead['dateFormat'] })}
+              >
+                {LETTER_DATE_FORMATS.map(format => <option key={format} value={format}>{formatLetterDate(today, format)}</option>)}
+              </select>
+            </Field>
+          </div>
+
+          <div className="space-y-3">
+            <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider truncate">Recipient · {getApplicationTitle(application)}</h4>
+            <Field label="Name">
+              <input className={inputClass} value={recipient.name} onChange={(e) => updateRecipient({ name: e.target.value })} placeholder="Hiring Manager" />
+            </Field>
+            <Field label="Title">
+              <input className={inputClass} value={recipient.title} onChange={(e) => updateRecipient({ title: e.target.value })} />
+            </Field>
+            <Field label="Company">
+              <input className={inputClass} value={recipient.company} onChange={(e) => updateRecipient({ company: e.target.value })} />
+            </Field>
+            <Field label="Address">
+              <textarea className={`${inputClass} resize-none`} rows={3} value={recipient.address} onChange={(e) => updateRecipient({ address: e.target.value })} />
+            </Field>
+            <p className="text-xs text-slate-400">
+              A name here replaces "Dear Hiring Manager" in the export. Placeholders such as [Your Name] are filled from these details.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,184 @@
+import React, { useRef, useState } from 'react';
+import { Ingredient, ToastType, ToastAction } from '../types.ts';
+import { isAbortError, rewriteLetterPassage } from '../services/geminiService.ts';
+import { canRetry } from '../services/aiErrors.ts';
+import { PASSAGE_EDITS, PassageEditKind, PassageSelection, passageInstruction, replacePassage, trimSelection } from '../services/letterEdits.ts';
+import { diffWords } from '../services/textDiff.ts';
+import { DiffText } from './DiffText.tsx';
+import { Wand2, Loader2, Square, Check, X } from 'lucide-react';
+
+interface LetterPassageEditorProps {
+  content: string;
+  onChange: (content: string) => void;
+  ingredients: Ingredient[];
+  jobDescription: string;
+  requirements: string[]; // Choices for "Match a requirement"
+  isCooking: boolean;
+  onCookingChange: (isCooking: boolean) => void;
+  onShowToast: (msg: string, type: ToastType, action?: ToastAction) => void;
+}
+
+interface Suggestions {
+  selection: PassageSelection;
+  label: string;
+  options: string[];
+}
+
+/**
+ * The cover letter textarea plus AI rewrites of the selected passage. Each
+ * suggestion is shown as a diff against the selection; accepting one swaps
+ * only that passage.
+ */
+export const LetterPassageEditor: React.FC<LetterPassageEditorProps> = ({
+  content, onChange, ingredients, jobDescription, requirements, isCooking, onCookingChange, onShowToast,
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [selection, setSelection] = useState<PassageSelection | null>(null);
+  const [requirement, setRequirement] = useState('');
+  const [pending, setPending] = useState<PassageEditKind | null>(null);
+  const [suggestions, setSuggestions] = useState<Suggestions | null>(null);
+  const chosenRequirement = requirements.includes(requirement) ? requirement : requirements[0];
+
+  const readSelection = () => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    setSelection(trimSelection(content, textarea.selectionStart, textarea.selectionEnd));
+  };
+
+  const handleRewrite = async (kind: PassageEditKind) => {
+    const target = selection;
+    if (!target) return;
+    const edit = PASSAGE_EDITS.find(e => e.id === kind)!;
+    if (kind === 'requirement' && !chosenRequirement) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setPending(kind);
+    setSuggestions(null);
+    onCookingChange(true);
+
+    try {
+      const { suggestions: options } = await rewriteLetterPassage(
+        target.text,
+        content,
+        passageInstruction(kind, chosenRequirement),
+        ingredients,
+        jobDescription,
+        controller.signal
+      );
+      setSuggestions({ selection: target, label: edit.label, options });
+    } catch (e: any) {
+      if (isAbortError(e)) {
+        onShowToast("Rewrite stopped.", "info");
+      } else {
+        console.error(e);
+        onShowToast(e.message || "Rewrite failed.", "error", canRetry(e) ? { label: 'Retry', onClick: () => handleRewrite(kind) } : undefined);
+      }
+    } finally {
+      abortRef.current = null;
+      setPending(null);
+      onCookingChange(false);
+    }
+  };
+
+  const handleAccept = (replacement: string) => {
+    if (!suggestions) return;
+    const updated = replacePassage(content, suggestions.selection, replacement);
+    if (updated === null) {
+      onShowToast("The passage was edited since. Select it again to rewrite it.", "error");
+    } else {
+      onChange(updated);
+      onShowToast("Passage replaced.", "success");
+    }
+    setSuggestions(null);
+    setSelection(null);
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* AI edit bar */}
+      <div className="sticky top-0 z-10 -mx-2 mb-4 bg-white/95 backdrop-blur border border-slate-200 rounded-lg p-2 font-sans shadow-sm">
+        {pending ? (
+          <div className="flex items-center justify-between gap-2 px-1">
+            <span className="flex items-center gap-2 text-xs font-bold text-slate-500">
+              <Loader2 size={14} className="animate-spin" />
+              {PASSAGE_EDITS.find(e => e.id === pending)?.label}...
+            </span>
+            <button onClick={() => abortRef.current?.abort()} className="flex items-center gap-1 text-xs font-bold text-red-600 hover:text-red-800">
+              <Square size={12} className="fill-red-500" /> Stop
+            </button>
+          </div>
+        ) : selection ? (
+          <div className="flex flex-wrap items-center gap-1.5">
+            <Wand2 size={14} className="text-slate-400 ml-1" />
+            {PASSAGE_EDITS.filter(e => e.id !== 'requirement').map(edit => (
+              <button
+                key={edit.id}
+                onClick={() => handleRewrite(edit.id)}
+                disabled={isCooking}
+                className="text-xs font-bold text-slate-600 hover:text-slate-900 bg-slate-50 hover:bg-slate-100 border border-slate-200 px-2.5 py-1 rounded-md transition-colors disabled:opacity-50"
+              >
+                {edit.label}
+              </button>
+            ))}
+            {requirements.length > 0 && (
+              <span className="flex items-center gap-1 min-w-0">
+                <button
+                  onClick={() => handleRewrite('requirement')}
+                  disabled={isCooking}
+                  className="text-xs font-bold text-slate-600 hover:text-slate-900 bg-slate-50 hover:bg-slate-100 border border-slate-200 px-2.5 py-1 rounded-md transition-colors disabled:opacity-50 shrink-0"
+                >
+                  Match
+                </button>
+                <select
+                  value={chosenRequirement}
+                  onChange={(e) => setRequirement(e.target.value)}
+                  className="text-xs text-slate-600 bg-transparent max-w-[12rem] focus:outline-none"
+                  title="Job requirement to match"
+                >
+                  {requirements.map(r => <option key={r} value={r}>{r}</option>)}
+                </select>
+              </span>
+            )}
+          </div>
+        ) : (
+          <p className="text-xs text-slate-400 px-1 py-1">Select a sentence or paragraph to rewrite it with AI.</p>
+        )}
+
+        {suggestions && (
+          <div className="mt-2 space-y-2 max-h-72 overflow-y-auto">
+            <div className="flex items-center justify-between px-1">
+              <span className="text-[11px] font-bold text-slate-400 uppercase tracking-wider">{suggestions.label}</span>
+              <button onClick={() => setSuggestions(null)} className="flex items-center gap-1 text-xs font-bold text-slate-400 hover:text-slate-700">
+                <X size={12} /> Reject
+              </button>
+            </div>
+            {suggestions.options.map((option, index) => (
+              <div key={index} className="rounded-lg border border-slate-200 p-3 text-sm leading-relaxed text-slate-700">
+                <p><DiffText ops={diffWords(suggestions.selection.text, option)} /></p>
+                <div className="flex justify-end mt-2">
+                  <button
+                    onClick={() => handleAccept(option)}
+                    className="flex items-center gap-1 text-xs font-bold text-emerald-600 hover:text-emerald-800 px-2 py-1 rounded-md hover:bg-emerald-50"
+                  >
+                    <Check size={14} /> Accept
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <textarea
+        ref={textareaRef}
+        className="w-full flex-1 min-h-[400px] text-slate-800 font-serif text-base leading-relaxed resize-none focus:outline-none bg-transparent"
+        value={content}
+        onChange={(e) => onChange(e.target.value)}
+        onSelect={readSelection}
+        readOnly={!!pending}
+        spellCheck={false}
+      />
+    </div>
+  );
+};
@@ -1,12 +1,79 @@
-import React, { useState, useRef, useMemo } from 'react';
-import { Ingredient, ToastType } from '../types.ts';
-import { refineDescription, parseResume } from '../services/geminiService.ts';
-import { Plus, Trash2, FileUp, Loader2, X, Calendar, Sparkles, Wand2, ArrowRight, Edit3 } from 'lucide-react';
+import React, { useState, useRef, useMemo, useEffect } from 'react';
+import { Ingredient, ToastType, ToastAction } from '../types.ts';
+import { REFINE_STYLES, refineDescription, parseResume } from '../services/geminiService.ts';
+import { canRetry } from '../services/aiErrors.ts';
+import { toJsonResume, fromJsonResume } from '../services/jsonResume.ts';
+import { downloadFile } from '../services/documentExport.ts';
+import { UndoEntry, emptyHistory, pushEntry, undoEntry, redoEntry } from '../services/undoStack.ts';
+import { ImportAction, ImportCandidate, applyImport, reviewImport } from '../services/importReview.ts';
+import { ImportReview } from './ImportReview.tsx';
+import { RevisionHistory } from './RevisionHistory.tsx';
+import { recordRevision, restoreRevision } from '../services/revisions.ts';
+import { CATEGORY_FIELDS, compareByDate, formatDateRange, parseLooseDate } from '../services/ingredientFields.ts';
+import { SKILL_LEVELS, canonicalizeIngredient, findSkill, formatSkillLevel } from '../services/skillTaxonomy.ts';
+import { Plus, Trash2, FileUp, FileDown, Undo2, Redo2, Loader2, X, Calendar, MapPin, Sparkles, Wand2, ArrowRight, Edit3, History } from 'lucide-react';
+
+// Field labels differ per category ("Company" vs "School" vs "Issuer")
+const FIELD_LABELS: Record<Ingredient['category'], Partial<Record<keyof Ingredient, string>>> = {
+  experience: { role: 'Role', organization: 'Company', startDate: 'Start', endDate: 'End' },
+  education: { role: 'Degree / Program', organization: 'School', startDate: 'Start', endDate: 'End' },
+  project: { role: 'Your Role', organization: 'Team / Organization', startDate: 'Start', endDate: 'End' },
+  certification: { organization: 'Issuer', startDate: 'Date' },
+  skill: { proficiency: 'Proficiency', yearsOfUse: 'Years of Use', tags: 'Related Keywords' },
+};
+
+const DEFAULT_LABELS: Partial<Record<keyof Ingredient, string>> = {
+  location: 'Location',
+  bullets: 'Highlights (one per line)',
+  tags: 'Tags (comma separated)',
+  url: 'Link',
+};
+
+const trimList = (items?: string[]) => {
+  const cleaned = (items ?? []).map(item => item.trim()).filter(Boolean);
+  return cleaned.length ? cleaned : undefined;
+};
+
+/** A copy without the keys whose value is undefined, so stored records stay compact. */
+const withoutEmptyFields = <T extends object>(value: T): T => {
+  const result = { ...value };
+  for (const key of Object.keys(result) as (keyof T)[]) {
+    if (result[key] === undefined) delete result[key];
+  }
+  return result;
+};
+
+/**
+ * Trims the form into a storable ingredient, dropping empty fields, deriving a
+ * name from role and organization, and using the taxonomy's skill spellings.
+ */
+const cleanForm = (form: Partial<Ingredient>): Omit<Ingredient, 'id'> => {
+  const text = (value?: string) => value?.trim() || undefined;
+  const role = text(form.role);
+  const organization = text(form.organization);
+  const cleaned: Omit<Ingredient, 'id'> = {
+    category: form.category ?? 'experience',
+    name: text(form.name) ?? [role, organization].filter(Boolean).join(' at '),
+    organization,
+    role,
+    location: text(form.location),
+    startDate: parseLooseDate(form.startDate ?? ''),
+    endDate: form.isCurrent ? undefined : parseLooseDate(form.endDate ?? ''),
+    isCurrent: form.isCurrent || undefined,
+    bullets: trimList(form.bullets),
+    tags: trimList(form.tags),
+    url: text(form.url),
+    proficiency: form.proficiency || undefined,
+    yearsOfUse: form.yearsOfUse && form.yearsOfUse > 0 ? form.yearsOfUse : undefined,
+    details: text(form.details),
+  };
+  return canonicalizeIngredient(withoutEmptyFields(cleaned));
+};
 
 interface PantryProps {
   ingredients: Ingredient[];
   setIngredients: React.Dispatch<React.SetStateAction<Ingredient[]>>;
-  onShowToast: (msg: string, type: ToastType) => void;
+  onShowToast: (msg: string, type: ToastType, action?: ToastAction) => void;
 }
 
 export const Pantry: React.FC<PantryProps> = ({ ingredients, setIngredients, onShowToast }) => {
@@ -28,6 +95,54 @@ export const Pantry: React.FC<PantryProps> = ({ ingredients, setIngredients, onS
   const [isEnhancing, setIsEnhancing] = useState(false);
   const [enhancements, setEnhancements] = useState<string[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingImport, setPendingImport] = useState<ImportCandidate[] | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+
+  // Undo/Redo. Refs keep async imports and toast actions working on the latest pantry.
+  const historyRef = useRef(emptyHistory<Ingredient[]>());
+  const [, setHistoryVersion] = useState(0);
+  const latestIngredients = useRef(ingredients);
+  latestIngredients.current = ingredients;
+
+  const setHistory = (history: typeof historyRef.current) => {
+    historyRef.current = history;
+    setHistoryVersion(v => v + 1);
+  };
+
+  /** Applies a pantry change and records it, returning a toast action that undoes it. No-op edits aren't recorded. */
+  const commit = (label: string, update: (current: Ingredient[]) => Ingredient[]): ToastAction | undefined => {
+    const entry: UndoEntry<Ingredient[]> = { label, before: latestIngredients.current, after: update(latestIngredients.current) };
+    if (JSON.stringify(entry.after) === JSON.stringify(entry.before)) return undefined;
+    latestIngredients.current = entry.after;
+    setIngredients(entry.after);
+    setHistory(pushEntry(historyRef.current, entry));
+    return { label: 'Undo', onClick: () => undoIfLatest(entry) };
+  };
+
+  const handleUndo = () => {
+    const step = undoEntry(historyRef.current);
+    if (!step) return;
+    setIngredients(step.entry.before);
+    setHistory(step.history);
+    onShowToast(`Undid: ${step.entry.label}`, "info", { label: 'Redo', onClick: handleRedo });
+  };
+
+  const handleRedo = () => {
+    const step = redoEntry(historyRef.current);
+    if (!step) return;
+    setIngredients(step.entry.after);
+    setHistory(step.history);
+    onShowToast(`Redid: ${step.entry.label}`, "info", { label: 'Undo', onClick: handleUndo });
+  };
+
+  // A toast's Undo only applies to its own change; later edits are undone in order first
+  const undoIfLatest = (entry: UndoEntry<Ingredient[]>) => {
+    if (historyRef.current.past[historyRef.current.past.length - 1] === entry) {
+      handleUndo();
+    } else {
+      onShowToast("Newer changes were made since. Use Undo (Ctrl+Z) to step back through them.", "info");
+    }
+  };
 
   // --- Actions ---
 
@@ -42,41 +157,61 @@ export const Pantry: React.FC<PantryProps> = ({ ingredients, setIngredients, onS
     setEditingId(item.id);
     setFormData({ ...item });
     setEnhancements([]);
+    setIsHistoryOpen(false);
     setIsModalOpen(true);
   };
 
   const handleSave = () => {
-    if (!formData.name) {
+    const cleaned = cleanForm(formData);
+    if (!cleaned.name) {
         onShowToast("Please give this ingredient a name.", "error");
         return;
     }
+    // "JS" and "JavaScript" are the same skill; keep one card for it
+    const skill = cleaned.category === 'skill' ? findSkill(cleaned.name) : undefined;
+    const existingSkill = skill && ingredients.find(i => i.id !== editingId && i.category === 'skill' && findSkill(i.name) === skill);
+    if (existingSkill) {
+        onShowToast(`${skill.name} is already in your pantry as "${existingSkill.name}".`, "error");
+        return;
+    }
+    const renamed = formData.name?.trim() && formData.name.trim() !== cleaned.name ? ` as ${cleaned.name}` : '';
 
     if (editingId) {
         // Update existing
-        setIngredients(prev => prev.map(i => i.id === editingId ? { ...i, ...formData } as Ingredient : i));
-        onShowToast("Experience updated successfully!", "success");
+        const undo = commit(`Edit ${cleaned.name}`, prev => prev.map(i => i.id === editingId ? recordRevision(i, { ...cleaned, id: i.id }, 'manual') : i));
+        onShowToast(`Experience updated${renamed} successfully!`, "success", undo);
     } else {
         // Add new
-        const newItem: Ingredient = {
-            id: Date.now().toString(),
-            name: formData.name!,
-            category: formData.category as any,
-            details: formData.details
-        };
-        setIngredients(prev => [...prev, newItem]);
-        onShowToast("Experience added to pantry!", "success");
+        const newItem = recordRevision(undefined, { ...cleaned, id: Date.now().toString() }, 'manual');
+        const undo = commit(`Add ${newItem.name}`, prev => [...prev, newItem]);
+        onShowToast(`Experience added to pantry${renamed}!`, "success", undo);
     }
     setIsModalOpen(false);
   };
 
+  const handleRestore = (revisionId: string) => {
+    if (!editingId) return;
+    const undo = commit(`Restore ${formData.name}`, prev => prev.map(i => i.id === editingId ? restoreRevision(i, revisionId) : i));
+    const restored = latestIngredients.current.find(i => i.id === editingId);
+    if (restored) setFormData({ ...restored });
+    setEnhancements([]);
+    setIsHistoryOpen(false);
+    onShowToast("Revision restored.", "success", undo);
+  };
+
   const handleDelete = (id: string, e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent card click
-    setIngredients(ingredients.filter(i => i.id !== id));
-    onShowToast("Removed from pantry.", "info");
+    const item = ingredients.find(i => i.id === id);
+    const undo = commit(`Delete ${item?.name ?? 'item'}`, prev => prev.filter(i => i.id !== id));
+    onShowToast("Removed from pantry.", "info", undo);
   };
 
+  // AI Enhance rewrites the highlights when there are any, otherwise the notes
+  const enhanceTarget: 'bullets' | 'details' = trimList(formData.bullets) ? 'bullets' : 'details';
+  const enhanceSource = enhanceTarget === 'bullets' ? trimList(formData.bullets)!.join('\n') : formData.details?.trim() ?? '';
+
   const handleEnhance = async () => {
-    if (!formData.details || formData.details.length < 5) {
+    if (enhanceSource.length < 5) {
         onShowToast("Please enter some details first to enhance.", "error");
         return;
     }
@@ -84,19 +219,29 @@ export const Pantry: React.FC<PantryProps> = ({ ingredients, setIngredients, onS
     setIsEnhancing(true);
     setEnhancements([]);
     try {
-        const variations = await refineDescription(formData.details, formData.category || 'experience');
+        const variations = await refineDescription(enhanceSource, formData.category || 'experience');
         setEnhancements(variations);
-    } catch (e) {
-        onShowToast("Could not enhance text right now.", "error");
+    } catch (e: any) {
+        onShowToast(e.message || "Could not enhance text right now.", "error", canRetry(e) ? { label: 'Retry', onClick: handleEnhance } : undefined);
     } finally {
         setIsEnhancing(false);
     }
   };
 
-  const applyEnhancement = (text: string) => {
-      setFormData({ ...formData, details: text });
+  const applyEnhancement = (text: string, variation: number) => {
+      const patch: Partial<Ingredient> = enhanceTarget === 'bullets'
+        ? { bullets: text.split('\n').map(line => line.replace(/^\s*[-*•]\s*/, '').trim()).filter(Boolean) }
+        : { details: text };
+      setFormData({ ...formData, ...patch });
       setEnhancements([]); 
-      onShowToast("Applied enhanced description!", "success");
+      // Saved items take the new text right away so the change is undoable on its own
+      if (editingId) {
+          const style = REFINE_STYLES[variation] ?? `Variation ${variation + 1}`;
+          const undo = commit(`AI enhancement of ${formData.name}`, prev => prev.map(i => i.id === editingId ? recordRevision(i, { ...i, ...patch }, 'ai', style) : i));
+          onShowToast("Applied enhanced description!", "success", undo);
+      } else {
+          onShowToast("Applied enhanced description!", "success");
+      }
   };
 
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -109,6 +254,22 @@ export const Pantry: React.FC<PantryProps> = ({ ingredients, setIngredients, onS
       return;
     }
 
+    // JSON Resume files map straight onto ingredients, no chef needed
+    if (file.name.toLowerCase().endsWith('.json') || file.type === 'application/json') {
+      try {
+        const imported = fromJsonResume(JSON.parse(await file.text()));
+        if (imported.length === 0) {
+          onShowToast("No entries with a name found in this JSON Resume.", "error");
+        } else {
+          setPendingImport(reviewImport(latestIngredients.current, imported.map(canonicalizeIngredient)));
+        }
+      } catch (err: any) {
+        onShowToast(err instanceof SyntaxError ? "This file isn't valid JSON." : err.message, "error");
+      }
+      if (fileInputRef.current) fileInputRef.current.value = '';
+      return;
+    }
+
     setIsUploading(true);
     onShowToast("Analyzing resume ingredients...", "info");
     
@@ -123,8 +284,7 @@ export const Pantry: React.FC<PantryProps> = ({ ingredients, setIngredients, onS
           if (extractedIngredients.length === 0) {
             onShowToast("Couldn't extract data. Is the file empty?", "error");
           } else {
-            setIngredients(prev => [...prev, ...extractedIngredients]);
-            onShowToast(`Imported ${extractedIngredients.length} items!`, "success");
+            setPendingImport(reviewImport(latestIngredients.current, extractedIngredients.map(canonicalizeIngredient)));
           }
         } catch (innerErr: any) {
           onShowToast(innerErr.message || "Failed to parse resume.", "error");
@@ -140,6 +300,43 @@ export const Pantry: React.FC<PantryProps> = ({ ingredients, setIngredients, onS
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
+  const handleConfirmImport = (actions: ImportAction[]) => {
+    if (!pendingImport) return;
+    const candidates = pendingImport;
+    const added = actions.filter((action, i) => action !== 'skip' && !candidates[i].match).length;
+    const updated = actions.filter((action, i) => action !== 'skip' && candidates[i].match).length;
+    const undo = commit(`Import ${added + updated} items`, prev => applyImport(prev, candidates, actions));
+    setPendingImport(null);
+    onShowToast(`Imported ${added} new and updated ${updated} existing items!`, "success", undo);
+  };
+
+  const handleExport = () => {
+    downloadFile('jobcook-resume.json', JSON.stringify(toJsonResume(ingredients), null, 2), 'application/json');
+    onShowToast("Pantry exported as JSON Resume.", "success");
+  };
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes. Text fields keep their own undo.
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isModalOpen || pendingImport) return;
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  const nextUndo = historyRef.current.past[historyRef.current.past.length - 1];
+  const nextRedo = historyRef.current.future[0];
+
   // --- Filtering & Styling ---
 
   // Order of categories: Education -> Experience (Intern) -> Project -> Certification -> Skill
@@ -156,11 +353,11 @@ export const Pantry: React.FC<PantryProps> = ({ ingredients, setIngredients, onS
     if (activeTab !== 'all') {
       result = ingredients.filter(i => i.category === activeTab);
     }
-    // Sort items based on the defined Category order
-    return result.sort((a, b) => {
+    // Sort by the defined Category order, then most recent first within each category
+    return [...result].sort((a, b) => {
       const orderA = sortOrder[a.category] ?? 99;
       const orderB = sortOrder[b.category] ?? 99;
-      return orderA - orderB;
+      return orderA - orderB || compareByDate(a, b);
     });
   }, [ingredients, activeTab]);
 
@@ -174,6 +371,65 @@ export const Pantry: React.FC<PantryProps> = ({ ingredients, setIngredients, onS
     }
   };
 
+  // --- Modal Fields ---
+
+  const formFields = CATEGORY_FIELDS[formData.category ?? 'experience'];
+  const editingItem = editingId ? ingredients.find(i => i.id === editingId) : undefined;
+  const skillMatch = formData.category === 'skill' && formData.name ? findSkill(formData.name) : undefined;
+  const inputClass = "w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-slate-200 focus:bg-white transition-all text-slate-800";
+  const fieldLabel = (field: keyof Ingredient) =>
+    FIELD_LABELS[formData.category ?? 'experience'][field] ?? DEFAULT_LABELS[field] ?? field;
+
+  const renderTextField = (field: 'role' | 'organization' | 'location' | 'startDate' | 'endDate' | 'url', placeholder: string) => (
+    <div>
+      <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">{fieldLabel(field)}</label>
+      <input
+        type="text"
+        className={`${inputClass} text-sm`}
+        placeholder={placeholder}
+        value={formData[field] ?? ''}
+        onChange={(e) => setFormData({...formData, [field]: e.target.value})}
+        // Dates are stored as "YYYY-MM" or "YYYY"; tidy what was typed when leaving the field
+        onBlur={field === 'startDate' || field === 'endDate'
+          ? (e) => setFormData(prev => ({...prev, [field]: parseLooseDate(e.target.value) ?? e.target.value}))
+          : undefined}
+      />
+    </div>
+  );
+
+  const enhanceButton = (
+    <button 
+        onClick={handleEnhance}
+        disabled={isEnhancing || !enhanceSource}
+        className="flex items-center gap-1.5 text-xs font-bold text-purple-600 bg-purple-50 hover:bg-purple-100 px-2 py-1 rounded-md transition-colors disabled:opacity-50"
+        title="Rewrite with AI to be more professional"
+    >
+        {isEnhancing ? <Loader2 size={12} className="animate-spin" /> : <Wand2 size={12} />}
+        {isEnhancing ? 'Cooking...' : 'AI Enhance'}
+    </button>
+  );
+
+  const enhancementList = enhancements.length > 0 && (
+    <div className="mt-3 bg-purple-50 rounded-xl p-3 border border-purple-100 animate-fadeIn">
+        <h4 className="text-xs font-bold text-purple-700 mb-2 flex items-center gap-1">
+            <Sparkles size={12} />
+            Chef's Suggestions (Click to apply)
+        </h4>
+        <div className="space-y-2">
+            {enhancements.map((suggestion, idx) => (
+                <button 
+                     key={idx}
+                     onClick={() => applyEnhancement(suggestion, idx)}
+                     className="w-full text-left text-xs text-slate-700 bg-white p-2.5 rounded-lg border border-purple-100 hover:border-purple-300 hover:shadow-sm transition-all flex items-start group"
+                >
+                    <span className="flex-1 leading-relaxed whitespace-pre-line">{suggestion}</span>
+                    <ArrowRight size={14} className="opacity-0 group-hover:opacity-100 text-purple-500 mt-1 ml-2 transition-opacity" />
+                </button>
+            ))}
+        </div>
+    </div>
+  );
+
   return (
     <div className="flex flex-col h-full animate-fadeIn">
       {/* 1. Header Section */}
@@ -189,11 +445,29 @@ export const Pantry: React.FC<PantryProps> = ({ ingredients, setIngredients, onS
            </div>
            
            <div className="flex gap-3">
+              <div className="flex">
+                <button 
+                  onClick={handleUndo}
+                  disabled={!nextUndo}
+                  className="p-2 text-slate-500 hover:text-slate-800 bg-white border border-slate-200 rounded-l-lg hover:border-slate-300 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                  title={nextUndo ? `Undo: ${nextUndo.label} (Ctrl+Z)` : 'Nothing to undo'}
+                >
+                  <Undo2 size={16} />
+                </button>
+                <button 
+                  onClick={handleRedo}
+                  disabled={!nextRedo}
+                  className="p-2 text-slate-500 hover:text-slate-800 bg-white border border-l-0 border-slate-200 rounded-r-lg hover:border-slate-300 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                  title={nextRedo ? `Redo: ${nextRedo.label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                >
+                  <Redo2 size={16} />
+                </button>
+              </div>
               <input 
                 type="file" 
                 ref={fileInputRef} 
                 className="hidden" 
-                accept=".pdf,.docx,.txt" 
+                accept=".pdf,.docx,.txt,.json" 
                 onChange={handleFileUpload}
               />
               <button 
@@ -204,6 +478,14 @@ export const Pantry: React.FC<PantryProps> = ({ ingredients, setIngredients, onS
                 {isUploading ? <Loader2 size={16} className="animate-spin" /> : <FileUp size={16} />}
                 {isUploading ? 'Restocking...' : 'Import Resume'}
               </button>
+              <button 
+                onClick={handleExport}
+                disabled={ingredients.length === 0}
+                className="flex items-center gap-2 text-sm font-bold text-slate-500 hover:text-slate-800 bg-white border border-slate-200 px-4 py-2 rounded-lg hover:border-slate-300 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Download the pantry as a JSON Resume file"
+              >
+                <FileDown size={16} /> Export JSON
+              </button>
            </div>
         </div>
       </div>
@@ -249,6 +531,10 @@ export const Pantry: React.FC<PantryProps> = ({ ingredients, setIngredients, onS
         {/* Ingredient Cards */}
         {filteredIngredients.map(item => {
           const style = getCategoryStyle(item.category);
+          const subtitle = item.category === 'skill'
+            ? [findSkill(item.name)?.group, formatSkillLevel(item)].filter(Boolean).join(' · ')
+            : [item.role, item.organization].filter(Boolean).join(' · ');
+          const dates = formatDateRange(item);
 
           return (
             <div 
@@ -273,10 +559,26 @@ export const Pantry: React.FC<PantryProps> = ({ ingredients, setIngredients, onS
 
               {/* Card Content */}
               <div className="flex-1 mb-4">
-                 <h3 className="font-bold text-slate-800 text-lg leading-snug mb-2 line-clamp-2">{item.name}</h3>
-                 <p className="text-slate-500 text-sm line-clamp-3 leading-relaxed">
-                   {item.details || "No details provided."}
-                 </p>
+                 <h3 className="font-bold text-slate-800 text-lg leading-snug mb-1 line-clamp-2">{item.name}</h3>
+                 {subtitle && subtitle !== item.name && <p className="text-sm font-medium text-slate-600 truncate">{subtitle}</p>}
+                 {(dates || item.location) && (
+                   <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-slate-400 mt-1">
+                     {dates && <span className="flex items-center gap-1"><Calendar size={12} />{dates}</span>}
+                     {item.location && <span className="flex items-center gap-1"><MapPin size={12} />{item.location}</span>}
+                   </div>
+                 )}
+                 {item.bullets?.length ? (
+                   <ul className="text-slate-500 text-sm leading-relaxed mt-2 space-y-0.5">
+                     {item.bullets.slice(0, 3).map((bullet, idx) => (
+                       <li key={idx} className="line-clamp-1">• {bullet}</li>
+                     ))}
+                     {item.bullets.length > 3 && <li className="text-xs text-slate-400">+{item.bullets.length - 3} more</li>}
+                   </ul>
+                 ) : (
+                   <p className="text-slate-500 text-sm line-clamp-3 leading-relaxed mt-2">
+                     {item.details || (item.tags?.length ? item.tags.join(', ') : "No details provided.")}
+                   </p>
+                 )}
               </div>
 
               {/* Card Footer */}
@@ -299,9 +601,20 @@ export const Pantry: React.FC<PantryProps> = ({ ingredients, setIngredients, onS
                <h3 className="font-bold text-lg text-slate-800">
                    {editingId ? 'Edit Ingredient' : 'New Ingredient'}
                </h3>
-               <button onClick={() => setIsModalOpen(false)} className="text-slate-400 hover:text-slate-600">
-                 <X size={20} />
-               </button>
+               <div className="flex items-center gap-3">
+                 {editingItem && (
+                   <button
+                     onClick={() => setIsHistoryOpen(true)}
+                     className="flex items-center gap-1.5 text-xs font-bold text-slate-500 hover:text-slate-800 bg-white border border-slate-200 px-2.5 py-1.5 rounded-lg hover:border-slate-300 transition-all"
+                     title="See earlier versions, compare them and restore one"
+                   >
+                     <History size={14} /> History{editingItem.revisions?.length ? ` (${editingItem.revisions.length})` : ''}
+                   </button>
+                 )}
+                 <button onClick={() => setIsModalOpen(false)} className="text-slate-400 hover:text-slate-600">
+                   <X size={20} />
+                 </button>
+               </div>
              </div>
              
              <div className="p-6 space-y-5 overflow-y-auto">
@@ -330,62 +643,134 @@ export const Pantry: React.FC<PantryProps> = ({ ingredients, setIngredients, onS
                    <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Title / Name</label>
                    <input 
                       type="text" 
-                      className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-slate-200 focus:bg-white transition-all font-medium text-slate-800"
-                      placeholder="e.g. Frontend Developer Intern"
-                      value={formData.name}
+                      className={inputClass}
+                      placeholder={formFields.includes('role') ? 'Leave blank to use role and organization' : 'e.g. TypeScript'}
+                      value={formData.name ?? ''}
                       onChange={(e) => setFormData({...formData, name: e.target.value})}
                    />
+                   {skillMatch && skillMatch.name !== formData.name?.trim() && (
+                     <p className="text-xs text-slate-400 mt-1.5">Will be saved as <span className="font-bold text-slate-600">{skillMatch.name}</span> ({skillMatch.group}).</p>
+                   )}
                 </div>
 
-                {/* Details & AI Enhance */}
+                {/* Category-specific fields */}
+                {formFields.includes('proficiency') && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">{fieldLabel('proficiency')}</label>
+                      <select
+                        className={`${inputClass} text-sm`}
+                        value={formData.proficiency ?? ''}
+                        onChange={(e) => setFormData({...formData, proficiency: (e.target.value || undefined) as Ingredient['proficiency']})}
+                      >
+                        <option value="">Not set</option>
+                        {SKILL_LEVELS.map(level => <option key={level.value} value={level.value}>{level.label}</option>)}
+                      </select>
+                    </div>
+                    {formFields.includes('yearsOfUse') && (
+                      <div>
+                        <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">{fieldLabel('yearsOfUse')}</label>
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.5}
+                          className={`${inputClass} text-sm`}
+                          placeholder="e.g. 3"
+                          value={formData.yearsOfUse ?? ''}
+                          onChange={(e) => setFormData({...formData, yearsOfUse: e.target.value ? Number(e.target.value) : undefined})}
+                        />
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {(formFields.includes('role') || formFields.includes('organization')) && (
+                  <div className="grid grid-cols-2 gap-3">
+                    {formFields.includes('role') && renderTextField('role', 'e.g. Frontend Developer Intern')}
+                    {formFields.includes('organization') && renderTextField('organization', 'e.g. Acme Corp')}
+                  </div>
+                )}
+
+                {formFields.includes('startDate') && (
+                  <div>
+                    <div className="grid grid-cols-2 gap-3">
+                      {renderTextField('startDate', 'e.g. 2023-04 or 2023')}
+                      {formFields.includes('endDate') && (
+                        formData.isCurrent ? (
+                          <div>
+                            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">{fieldLabel('endDate')}</label>
+                            <div className={`${inputClass} text-slate-400`}>Present</div>
+                          </div>
+                        ) : renderTextField('endDate', 'e.g. 2024-01')
+                      )}
+                    </div>
+                    {formFields.includes('endDate') && (
+                      <label className="flex items-center gap-2 mt-2 text-sm text-slate-600 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={!!formData.isCurrent}
+                          onChange={(e) => setFormData({...formData, isCurrent: e.target.checked})}
+                          className="rounded border-slate-300"
+                        />
+                        I currently {formData.category === 'education' ? 'study' : 'work on'} this
+                      </label>
+                    )}
+                  </div>
+                )}
+
+                {formFields.includes('location') && renderTextField('location', 'e.g. Berlin, Germany')}
+
+                {formFields.includes('bullets') && (
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">{fieldLabel('bullets')}</label>
+                      {enhanceTarget === 'bullets' && enhanceButton}
+                    </div>
+                    <textarea
+                      className={`${inputClass} text-sm h-28 resize-none leading-relaxed`}
+                      placeholder={"Built the checkout flow in React\nCut page load time by 40%"}
+                      value={(formData.bullets ?? []).join('\n')}
+                      onChange={(e) => setFormData({...formData, bullets: e.target.value.split('\n')})}
+                    />
+                    {enhanceTarget === 'bullets' && enhancementList}
+                  </div>
+                )}
+
+                {formFields.includes('tags') && (
+                  <div>
+                    <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">{fieldLabel('tags')}</label>
+                    <input
+                      type="text"
+                      className={`${inputClass} text-sm`}
+                      placeholder="e.g. React, TypeScript, GraphQL"
+                      value={(formData.tags ?? []).join(',')}
+                      onChange={(e) => setFormData({...formData, tags: e.target.value.split(',')})}
+                    />
+                  </div>
+                )}
+
+                {formFields.includes('url') && renderTextField('url', 'https://')}
+
+                {/* Notes & AI Enhance */}
                 <div>
                    <div className="flex items-center justify-between mb-2">
-                        <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">Details</label>
-                        <button 
-                            onClick={handleEnhance}
-                            disabled={isEnhancing || !formData.details}
-                            className="flex items-center gap-1.5 text-xs font-bold text-purple-600 bg-purple-50 hover:bg-purple-100 px-2 py-1 rounded-md transition-colors disabled:opacity-50"
-                            title="Rewrite with AI to be more professional"
-                        >
-                            {isEnhancing ? <Loader2 size={12} className="animate-spin" /> : <Wand2 size={12} />}
-                            {isEnhancing ? 'Cooking...' : 'AI Enhance'}
-                        </button>
+                        <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">Notes</label>
+                        {enhanceTarget === 'details' && enhanceButton}
                    </div>
                    <textarea 
-                      className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-slate-200 focus:bg-white transition-all text-sm text-slate-600 h-32 resize-none leading-relaxed"
-                      placeholder="Describe your role, key achievements, or specific skills..."
-                      value={formData.details}
+                      className={`${inputClass} text-sm text-slate-600 h-24 resize-none leading-relaxed`}
+                      placeholder="Anything else: context, GPA, tools, or details that don't fit above..."
+                      value={formData.details ?? ''}
                       onChange={(e) => setFormData({...formData, details: e.target.value})}
                    />
-                   
-                   {/* Enhancement Suggestions */}
-                   {enhancements.length > 0 && (
-                       <div className="mt-3 bg-purple-50 rounded-xl p-3 border border-purple-100 animate-fadeIn">
-                           <h4 className="text-xs font-bold text-purple-700 mb-2 flex items-center gap-1">
-                               <Sparkles size={12} />
-                               Chef's Suggestions (Click to apply)
-                           </h4>
-                           <div className="space-y-2">
-                               {enhancements.map((suggestion, idx) => (
-                                   <button 
-                                        key={idx}
-                                        onClick={() => applyEnhancement(suggestion)}
-                                        className="w-full text-left text-xs text-slate-700 bg-white p-2.5 rounded-lg border border-purple-100 hover:border-purple-300 hover:shadow-sm transition-all flex items-start group"
-                                   >
-                                       <span className="flex-1 leading-relaxed">{suggestion}</span>
-                                       <ArrowRight size={14} className="opacity-0 group-hover:opacity-100 text-purple-500 mt-1 ml-2 transition-opacity" />
-                                   </button>
-                               ))}
-                           </div>
-                       </div>
-                   )}
+                   {enhanceTarget === 'details' && enhancementList}
                 </div>
              </div>
 
              <div className="p-6 pt-0 mt-auto">
                 <button 
                   onClick={handleSave}
-                  disabled={!formData.name}
+                  disabled={!cleanForm(formData).name}
                   className="w-full py-3 bg-slate-900 hover:bg-slate-800 disabled:opacity-50 text-white font-bold rounded-xl transition-all shadow-lg shadow-slate-200"
                 >
                   {editingId ? 'Save Changes' : 'Add to Pantry'}
@@ -394,6 +779,26 @@ export const Pantry: React.FC<PantryProps> = ({ ingredients, setIngredients, onS
           </div>
         </div>
       )}
+
+      {isModalOpen && isHistoryOpen && editingItem && (
+        <RevisionHistory
+          ingredient={editingItem}
+          onRestore={handleRestore}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+
+      {/* 5. Import Review */}
+      {pendingImport && (
+        <ImportReview
+          candidates={pendingImport}
+          onConfirm={handleConfirmImport}
+          onCancel={() => {
+            setPendingImport(null);
+            onShowToast("Import cancelled. Nothing was changed.", "info");
+          }}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
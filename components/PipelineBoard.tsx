@@ -0,0 +1,240 @@
+import React, { useState } from 'react';
+import { Application, ChefState, PipelineStage, ToastType, ToastAction } from '../types.ts';
+import {
+  PIPELINE_STAGES,
+  getApplicationTitle,
+  getOverdue,
+  moveToStage,
+  patchApplication,
+} from '../services/applications.ts';
+import { toDayKey } from '../services/usageTracker.ts';
+import { AlertTriangle, ArrowRight, CalendarClock, BellRing, GripVertical } from 'lucide-react';
+
+interface PipelineBoardProps {
+  state: ChefState;
+  setState: React.Dispatch<React.SetStateAction<ChefState>>;
+  onShowToast: (msg: string, type: ToastType, action?: ToastAction) => void;
+  onOpen: () => void;
+}
+
+const STAGE_LABELS = Object.fromEntries(PIPELINE_STAGES.map(s => [s.id, s.label])) as Record<PipelineStage, string>;
+
+const formatDay = (iso: string) => new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+export const PipelineBoard: React.FC<PipelineBoardProps> = ({ state, setState, onShowToast, onOpen }) => {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<PipelineStage | null>(null);
+
+  const today = toDayKey(Date.now());
+  const applications = state.applications.filter(a => !a.archived);
+  const overdueCount = applications.filter(a => {
+    const overdue = getOverdue(a, today);
+    return overdue.deadline || overdue.followUp;
+  }).length;
+
+  const handleMove = (application: Application, stage: PipelineStage) => {
+    if (application.stage === stage) return;
+    const previous = application.stage;
+    setState(prev => moveToStage(prev, application.id, stage));
+    onShowToast(`Moved to ${STAGE_LABELS[stage]}.`, "success", {
+      label: 'Undo',
+      onClick: () => setState(prev => moveToStage(prev, application.id, previous)),
+    });
+  };
+
+  const handleDrop = (e: React.DragEvent, stage: PipelineStage) => {
+    e.preventDefault();
+    const application = applications.find(a => a.id === e.dataTransfer.getData('text/plain'));
+    if (application) handleMove(application, stage);
+    setDraggingId(null);
+    setDropTarget(null);
+  };
+
+  const handleOpen = (id: string) => {
+    setState(prev => ({ ...prev, activeApplicationId: id }));
+    onOpen();
+  };
+
+  return (
+    <div className="flex flex-col h-full animate-fadeIn">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-display font-bold text-slate-800">Pipeline</h1>
+        <p className="text-slate-500 mt-1">Drag applications between stages as they progress. Set deadlines and follow-ups so nothing goes cold.</p>
+
+        <div className="mt-6 flex items-center gap-8 border-b border-slate-200 pb-4">
+          <div className="flex items-baseline gap-2">
+            <span className="text-3xl font-bold text-slate-800">{applications.length}</span>
+            <span className="text-sm font-medium text-slate-500">In Progress</span>
+          </div>
+          {overdueCount > 0 && (
+            <div className="flex items-center gap-2 text-sm font-bold text-red-600">
+              <AlertTriangle size={16} /> {overdueCount} overdue
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Board */}
+      <div className="flex gap-4 overflow-x-auto pb-10 -mx-2 px-2">
+        {PIPELINE_STAGES.map(stage => {
+          const cards = applications
+            .filter(a => a.stage === stage.id)
+            .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+          const isTarget = dropTarget === stage.id && !!draggingId;
+
+          return (
+            <div
+              key={stage.id}
+              onDragOver={(e) => {
+                e.preventDefault();
+                e.dataTransfer.dropEffect = 'move';
+                if (dropTarget !== stage.id) setDropTarget(stage.id);
+              }}
+              onDragLeave={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTarget(null);
+              }}
+              onDrop={(e) => handleDrop(e, stage.id)}
+              className={`w-72 shrink-0 rounded-2xl p-3 flex flex-col gap-3 transition-colors ${
+                isTarget ? 'bg-blue-50 ring-2 ring-blue-200' : 'bg-slate-100/70'
+              }`}
+            >
+              <div className="flex items-center justify-between px-2 pt-1">
+                <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{stage.label}</span>
+                <span className="text-xs font-bold text-slate-400 bg-white rounded-md px-2 py-0.5">{cards.length}</span>
+              </div>
+
+              {cards.map(application => (
+                <PipelineCard
+                  key={application.id}
+                  application={application}
+                  today={today}
+                  isCurrent={application.id === state.activeApplicationId}
+                  isDragging={draggingId === application.id}
+                  onDragStart={(e) => {
+                    e.dataTransfer.setData('text/plain', application.id);
+                    e.dataTransfer.effectAllowed = 'move';
+                    setDraggingId(application.id);
+                  }}
+                  onDragEnd={() => {
+                    setDraggingId(null);
+                    setDropTarget(null);
+                  }}
+                  onMove={(next) => handleMove(application, next)}
+                  onChangeDates={(patch) => setState(prev => patchApplication(prev, application.id, patch))}
+                  onOpen={() => handleOpen(application.id)}
+                />
+              ))}
+
+              {cards.length === 0 && (
+                <div className="text-center text-xs text-slate-400 py-6 border-2 border-dashed border-slate-200 rounded-xl">
+                  Drop here
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+interface PipelineCardProps {
+  application: Application;
+  today: string;
+  isCurrent: boolean;
+  isDragging: boolean;
+  onDragStart: (e: React.DragEvent) => void;
+  onDragEnd: () => void;
+  onMove: (stage: PipelineStage) => void;
+  onChangeDates: (patch: Pick<Partial<Application>, 'deadline' | 'followUpDate'>) => void;
+  onOpen: () => void;
+}
+
+const PipelineCard: React.FC<PipelineCardProps> = ({
+  application, today, isCurrent, isDragging, onDragStart, onDragEnd, onMove, onChangeDates, onOpen,
+}) => {
+  const overdue = getOverdue(application, today);
+  const isOverdue = overdue.deadline || overdue.followUp;
+  const companyName = application.analysis?.companyName || application.companyName;
+  const matchScore = application.analysis?.matchScore;
+  const reachedStages = PIPELINE_STAGES.filter(s => application.stageHistory[s.id]);
+
+  return (
+    <div
+      draggable
+      onDragStart={onDragStart}
+      onDragEnd={onDragEnd}
+      className={`bg-white rounded-xl border p-4 shadow-sm hover:shadow-md transition-all cursor-grab active:cursor-grabbing ${
+        isDragging ? 'opacity-40' : ''
+      } ${isOverdue ? 'border-red-300 ring-1 ring-red-100' : isCurrent ? 'border-slate-900' : 'border-slate-100'}`}
+    >
+      <div className="flex items-start gap-2 mb-2">
+        <GripVertical size={14} className="text-slate-300 mt-1 shrink-0" />
+        <div className="flex-1 min-w-0">
+          <h3 className="font-bold text-slate-800 leading-snug truncate">{getApplicationTitle(application)}</h3>
+          {companyName && companyName !== getApplicationTitle(application) && (
+            <p className="text-xs text-slate-500 truncate">{companyName}</p>
+          )}
+        </div>
+        {matchScore !== undefined && (
+          <span className={`text-xs font-bold px-2 py-0.5 rounded-md shrink-0 ${
+            matchScore >= 80 ? 'bg-emerald-50 text-emerald-600' :
+            matchScore >= 50 ? 'bg-amber-50 text-amber-600' :
+            'bg-red-50 text-red-600'
+          }`}>
+            {matchScore}%
+          </span>
+        )}
+      </div>
+
+      <div className="space-y-1.5 my-3">
+        <label className={`flex items-center gap-2 text-xs ${overdue.deadline ? 'text-red-600 font-bold' : 'text-slate-500'}`}>
+          <CalendarClock size={12} className="shrink-0" />
+          <span className="w-16 shrink-0">Deadline</span>
+          <input
+            type="date"
+            value={application.deadline ?? ''}
+            onChange={(e) => onChangeDates({ deadline: e.target.value || null })}
+            className="flex-1 min-w-0 bg-transparent outline-none"
+          />
+        </label>
+        <label className={`flex items-center gap-2 text-xs ${overdue.followUp ? 'text-red-600 font-bold' : 'text-slate-500'}`}>
+          <BellRing size={12} className="shrink-0" />
+          <span className="w-16 shrink-0">Follow up</span>
+          <input
+            type="date"
+            value={application.followUpDate ?? ''}
+            onChange={(e) => onChangeDates({ followUpDate: e.target.value || null })}
+            className="flex-1 min-w-0 bg-transparent outline-none"
+          />
+        </label>
+      </div>
+
+      {reachedStages.length > 0 && (
+        <div className="flex flex-wrap gap-x-3 gap-y-1 text-[10px] text-slate-400 mb-3">
+          {reachedStages.map(s => (
+            <span key={s.id}>{s.label} {formatDay(application.stageHistory[s.id]!)}</span>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between border-t border-slate-50 pt-2">
+        <select
+          value={application.stage}
+          onChange={(e) => onMove(e.target.value as PipelineStage)}
+          className="text-xs text-slate-500 bg-transparent outline-none cursor-pointer"
+          aria-label="Stage"
+        >
+          {PIPELINE_STAGES.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+        </select>
+        <button
+          onClick={onOpen}
+          className="flex items-center gap-1 text-xs font-bold text-slate-600 hover:text-slate-900 transition-colors"
+        >
+          Open <ArrowRight size={12} />
+        </button>
+      </div>
+    </div>
+  );
+};
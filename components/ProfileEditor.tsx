@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { ChefState, Ingredient, ProfileItem, ToastType } from '../types.ts';
+import { createProfile, deleteProfile, patchProfile } from '../services/profiles.ts';
+import { X, Plus, Trash2, ChevronUp, ChevronDown, Minus, Edit3, RotateCcw } from 'lucide-react';
+
+interface ProfileEditorProps {
+  state: ChefState;
+  setState: React.Dispatch<React.SetStateAction<ChefState>>;
+  initialProfileId: string | null;
+  onClose: () => void;
+  onShowToast: (msg: string, type: ToastType) => void;
+}
+
+const CATEGORY_LABELS: Record<Ingredient['category'], string> = {
+  education: 'Education',
+  experience: 'Intern/Work',
+  project: 'Project',
+  certification: 'Cert/Award',
+  skill: 'Skill',
+};
+
+export const ProfileEditor: React.FC<ProfileEditorProps> = ({ state, setState, initialProfileId, onClose, onShowToast }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(initialProfileId ?? state.profiles[0]?.id ?? null);
+  const [editingDetailsId, setEditingDetailsId] = useState<string | null>(null);
+
+  const profile = state.profiles.find(p => p.id === selectedId) ?? null;
+  const ingredientsById = new Map(state.ingredients.map(i => [i.id, i]));
+  const includedIds = new Set(profile?.items.map(item => item.ingredientId));
+  const available = state.ingredients.filter(i => !includedIds.has(i.id));
+
+  const handleCreate = () => {
+    const created = createProfile(`Profile ${state.profiles.length + 1}`);
+    setState(prev => ({ ...prev, profiles: [...prev.profiles, created] }));
+    setSelectedId(created.id);
+  };
+
+  const handleDelete = () => {
+    if (!profile) return;
+    setState(prev => deleteProfile(prev, profile.id));
+    setSelectedId(state.profiles.find(p => p.id !== profile.id)?.id ?? null);
+    onShowToast(`Deleted profile "${profile.name}".`, "info");
+  };
+
+  const updateItems = (update: (items: ProfileItem[]) => ProfileItem[]) => {
+    if (!profile) return;
+    setState(prev => patchProfile(prev, profile.id, p => ({ items: update(p.items) })));
+  };
+
+  const moveItem = (index: number, offset: number) =>
+    updateItems(items => {
+      const next = [...items];
+      const [item] = next.splice(index, 1);
+      next.splice(index + offset, 0, item);
+      return next;
+    });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm p-4 animate-fadeIn">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-4xl overflow-hidden animate-slideUp flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <h3 className="font-bold text-lg text-slate-800">Resume Profiles</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Profile List */}
+          <div className="w-56 shrink-0 border-r border-slate-100 p-4 space-y-1 overflow-y-auto">
+            {state.profiles.map(p => (
+              <button
+                key={p.id}
+                onClick={() => { setSelectedId(p.id); setEditingDetailsId(null); }}
+                className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${
+                  p.id === selectedId ? 'bg-slate-900 text-white font-bold' : 'text-slate-600 hover:bg-slate-50'
+                }`}
+              >
+                <span className="block truncate">{p.name || 'Untitled'}</span>
+                <span className={`text-xs ${p.id === selectedId ? 'text-slate-300' : 'text-slate-400'}`}>{p.items.length} items</span>
+              </button>
+            ))}
+            <button
+              onClick={handleCreate}
+              className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-bold text-slate-500 hover:text-slate-800 hover:bg-slate-50 transition-colors"
+            >
+              <Plus size={16} /> New Profile
+            </button>
+          </div>
+
+          {/* Profile Detail */}
+          <div className="flex-1 p-6 overflow-y-auto space-y-6">
+            {!profile ? (
+              <div className="py-16 text-center text-slate-400 text-sm">
+                Profiles choose and order pantry ingredients for one kind of role, like "Frontend" or "Data Analyst".
+                <br />Create one to get started.
+              </div>
+            ) : (
+              <>
+                <div className="flex items-center gap-3">
+                  <input
+                    value={profile.name}
+                    onChange={(e) => setState(prev => patchProfile(prev, profile.id, { name: e.target.value }))}
+                    placeholder="Profile name"
+                    className="flex-1 text-lg font-bold text-slate-800 bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 outline-none focus:ring-2 focus:ring-slate-900/10"
+                  />
+                  <button
+                    onClick={handleDelete}
+                    className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+                    title="Delete profile"
+                  >
+                    <Trash2 size={18} />
+                  </button>
+                </div>
+
+                {/* Included, in order */}
+                <div>
+                  <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3">
+                    In this profile · sent to the AI in this order
+                  </h4>
+                  {profile.items.length === 0 && (
+                    <p className="text-sm text-slate-400">Nothing yet. Add ingredients from the pantry below.</p>
+                  )}
+                  <div className="space-y-2">
+                    {profile.items.map((item, index) => {
+                      const ingredient = ingredientsById.get(item.ingredientId);
+                      if (!ingredient) return null; // Deleted from the pantry
+                      const isOverridden = item.details !== undefined;
+                      return (
+                        <div key={item.ingredientId} className="border border-slate-100 rounded-xl p-3">
+                          <div className="flex items-center gap-2">
+                            <div className="flex flex-col">
+                              <button onClick={() => moveItem(index, -1)} disabled={index === 0} className="text-slate-300 hover:text-slate-600 disabled:opacity-30">
+                                <ChevronUp size={14} />
+                              </button>
+                              <button onClick={() => moveItem(index, 1)} disabled={index === profile.items.length - 1} className="text-slate-300 hover:text-slate-600 disabled:opacity-30">
+                                <ChevronDown size={14} />
+                              </button>
+                            </div>
+                            <div className="flex-1 min-w-0">
+                              <p className="text-sm font-bold text-slate-700 truncate">{ingredient.name}</p>
+                              <p className="text-xs text-slate-400">
+                                {CATEGORY_LABELS[ingredient.category]}
+                                {isOverridden && <span className="text-blue-500 font-bold"> · custom details</span>}
+                              </p>
+                            </div>
+                            <button
+                              onClick={() => setEditingDetailsId(editingDetailsId === item.ingredientId ? null : item.ingredientId)}
+                              className="p-1.5 text-slate-400 hover:text-slate-700 rounded-lg transition-colors"
+                              title="Override details for this profile"
+                            >
+                              <Edit3 size={14} />
+                            </button>
+                            <button
+                              onClick={() => updateItems(items => items.filter(i => i.ingredientId !== item.ingredientId))}
+                              className="p-1.5 text-slate-400 hover:text-red-500 rounded-lg transition-colors"
+                              title="Remove from profile"
+                            >
+                              <Minus size={14} />
+                            </button>
+                          </div>
+                          {editingDetailsId === item.ingredientId && (
+                            <div className="mt-3 space-y-2">
+                              <textarea
+                                value={item.details ?? ingredient.details ?? ''}
+                                onChange={(e) => updateItems(items => items.map(i =>
+                                  i.ingredientId === item.ingredientId ? { ...i, details: e.target.value } : i
+                                ))}
+                                rows={4}
+                                className="w-full text-sm bg-slate-50 border border-slate-200 rounded-lg p-3 outline-none focus:ring-2 focus:ring-slate-900/10 resize-y"
+                              />
+                              {isOverridden && (
+                                <button
+                                  onClick={() => updateItems(items => items.map(i =>
+                                    i.ingredientId === item.ingredientId ? { ingredientId: i.ingredientId } : i
+                                  ))}
+                                  className="flex items-center gap-1 text-xs font-bold text-slate-500 hover:text-slate-800"
+                                >
+                                  <RotateCcw size={12} /> Use pantry details
+                                </button>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+
+                {/* Rest of the pantry */}
+                {available.length > 0 && (
+                  <div>
+                    <div className="flex items-center justify-between mb-3">
+                      <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Pantry</h4>
+                      <button
+                        onClick={() => updateItems(items => [...items, ...available.map(i => ({ ingredientId: i.id }))])}
+                        className="text-xs font-bold text-slate-500 hover:text-slate-800"
+                      >
+                        Add all
+                      </button>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {available.map(ingredient => (
+                        <button
+                          key={ingredient.id}
+                          onClick={() => updateItems(items => [...items, { ingredientId: ingredient.id }])}
+                          className="flex items-center gap-1 text-xs font-medium text-slate-600 bg-slate-50 border border-slate-200 hover:border-slate-300 px-3 py-1.5 rounded-lg transition-all"
+                        >
+                          <Plus size={12} /> {ingredient.name}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { ChefState, ToastType } from '../types.ts';
+import { getActiveApplication, patchApplication } from '../services/applications.ts';
+import { getApplicationProfile } from '../services/profiles.ts';
+import { ProfileEditor } from './ProfileEditor.tsx';
+import { UserSquare2, Settings2 } from 'lucide-react';
+
+interface ProfilePickerProps {
+  state: ChefState;
+  setState: React.Dispatch<React.SetStateAction<ChefState>>;
+  onShowToast: (msg: string, type: ToastType) => void;
+  disabled?: boolean;
+}
+
+/** Chooses which resume profile the selected application sends to the AI. */
+export const ProfilePicker: React.FC<ProfilePickerProps> = ({ state, setState, onShowToast, disabled }) => {
+  const [isEditorOpen, setEditorOpen] = useState(false);
+  const application = getActiveApplication(state);
+  const profile = getApplicationProfile(state, application);
+
+  return (
+    <>
+      <div className="flex items-center gap-1 bg-white border border-slate-200 rounded-lg shadow-sm pl-3 pr-1 py-1">
+        <UserSquare2 size={16} className="text-slate-400 shrink-0" />
+        <select
+          className="text-sm font-bold text-slate-600 bg-transparent py-1 pr-1 focus:outline-none max-w-[12rem]"
+          value={profile?.id ?? ''}
+          disabled={disabled}
+          onChange={(e) => setState(prev => patchApplication(prev, application.id, { profileId: e.target.value || null }))}
+          title="Resume profile used for this application"
+        >
+          <option value="">Whole pantry ({state.ingredients.length})</option>
+          {state.profiles.map(p => (
+            <option key={p.id} value={p.id}>{p.name || 'Untitled'} ({p.items.length})</option>
+          ))}
+        </select>
+        <button
+          onClick={() => setEditorOpen(true)}
+          className="p-1.5 text-slate-400 hover:text-slate-700 hover:bg-slate-50 rounded-md transition-colors"
+          title="Manage profiles"
+        >
+          <Settings2 size={16} />
+        </button>
+      </div>
+
+      {isEditorOpen && (
+        <ProfileEditor
+          state={state}
+          setState={setState}
+          initialProfileId={profile?.id ?? null}
+          onClose={() => setEditorOpen(false)}
+          onShowToast={onShowToast}
+        />
+      )}
+    </>
+  );
+};
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { ToastType } from '../types.ts';
+import {
+  PromptTemplate,
+  getPromptOverride,
+  getDefaultTemplate,
+  validateTemplate,
+  setPromptOverride,
+  clearPromptOverride,
+} from '../services/promptRegistry.ts';
+import { X, RotateCcw, AlertTriangle } from 'lucide-react';
+
+interface PromptTemplateEditorProps {
+  template: PromptTemplate;
+  onClose: () => void;
+  onSaved: () => void;
+  onShowToast: (msg: string, type: ToastType) => void;
+}
+
+export const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ template, onClose, onSaved, onShowToast }) => {
+  const override = getPromptOverride(template.task);
+  const [text, setText] = useState(() => override?.template ?? template.template);
+  const issues = validateTemplate(template.task, text);
+  // The built-in prompt changed since this override was written
+  const isStale = !!override && override.basedOnVersion < template.version;
+
+  const insertVariable = (name: string) => setText(prev => `${prev}{{${name}}}`);
+
+  const handleSave = () => {
+    try {
+      if (text.trim() === getDefaultTemplate(template.task)) {
+        clearPromptOverride(template.task);
+      } else {
+        setPromptOverride(template.task, text);
+      }
+      onShowToast(`${template.label} prompt saved.`, "success");
+      onSaved();
+    } catch (e: any) {
+      onShowToast(e.message || "Could not save the template.", "error");
+    }
+  };
+
+  const handleReset = () => {
+    clearPromptOverride(template.task);
+    onShowToast(`${template.label} prompt reset to default.`, "info");
+    onSaved();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-slate-900/40 backdrop-blur-sm p-4 animate-fadeIn">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-3xl overflow-hidden animate-slideUp flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h3 className="font-bold text-lg text-slate-800">{template.label} Prompt</h3>
+            <p className="text-xs font-mono text-slate-400">{template.task}@v{template.version}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {isStale && (
+            <div className="flex items-start gap-2 bg-amber-50 border border-amber-100 text-amber-700 rounded-xl p-3 text-xs">
+              <AlertTriangle size={14} className="mt-0.5 shrink-0" />
+              <span>This override is based on v{override!.basedOnVersion}; the built-in prompt is now v{template.version}. Consider resetting and re-applying your changes.</span>
+            </div>
+          )}
+
+          {template.variables.length > 0 && (
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Variables</label>
+              <div className="flex flex-wrap gap-2">
+                {template.variables.map(variable => (
+                  <button
+                    key={variable.name}
+                    onClick={() => insertVariable(variable.name)}
+                    title={variable.description}
+                    className="text-xs font-mono bg-slate-100 hover:bg-slate-200 text-slate-700 px-2 py-1 rounded-lg transition-all"
+                  >
+                    {`{{${variable.name}}}`}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <textarea
+            className="w-full h-80 p-4 bg-slate-50 border border-slate-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-slate-200 focus:bg-white transition-all font-mono text-xs text-slate-800 leading-relaxed resize-none"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            spellCheck={false}
+          />
+
+          {issues.length > 0 && (
+            <ul className="text-xs text-red-500 space-y-1">
+              {issues.map(issue => <li key={issue}>{issue}</li>)}
+            </ul>
+          )}
+        </div>
+
+        <div className="p-6 pt-0 mt-auto flex gap-2">
+          <button
+            onClick={handleReset}
+            disabled={!override}
+            className="py-3 px-4 bg-white border border-slate-200 hover:border-slate-300 text-slate-600 font-bold rounded-xl transition-all disabled:opacity-50 flex items-center gap-2"
+          >
+            <RotateCcw size={16} /> Reset to Default
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={issues.length > 0}
+            className="flex-1 py-3 bg-slate-900 hover:bg-slate-800 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold rounded-xl transition-all shadow-lg shadow-slate-200"
+          >
+            Save Template
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,54 +1,96 @@
-import React, { useRef, useState } from 'react';
-import { ChefState, ToastType } from '../types.ts';
-import { analyzeDish, researchCompany, extractJobDescriptionFromImage } from '../services/geminiService.ts';
-import { Search, Flame, FileText, CheckCircle, AlertTriangle, PieChart, Store, ExternalLink, UtensilsCrossed, TrendingUp, Info, Trash2, ImagePlus, Loader2, UploadCloud } from 'lucide-react';
+import React, { useMemo, useRef, useState } from 'react';
+import { ChefState, ToastType, ToastAction } from '../types.ts';
+import { analyzeDish, researchCompanyStream, extractJobDescriptionFromImage, isAbortError } from '../services/geminiService.ts';
+import { canRetry } from '../services/aiErrors.ts';
+import { matchKeywords } from '../services/atsMatcher.ts';
+import { findCoveringIngredient } from '../services/skillTaxonomy.ts';
+import { getActiveApplication, patchApplication } from '../services/applications.ts';
+import { getProfileIngredients } from '../services/profiles.ts';
+import { ProfilePicker } from './ProfilePicker.tsx';
+import { Search, Flame, FileText, CheckCircle, AlertTriangle, PieChart, Store, ExternalLink, UtensilsCrossed, TrendingUp, Info, Trash2, ImagePlus, Loader2, UploadCloud, Square, Tags, Database, RefreshCw } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 
+const formatCacheAge = (timestamp: number) => {
+  const minutes = Math.round((Date.now() - timestamp) / 60_000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.round(minutes / 60)}h ago`;
+  return `${Math.round(minutes / (24 * 60))}d ago`;
+};
+
 interface RecipeBookProps {
   state: ChefState;
   setState: React.Dispatch<React.SetStateAction<ChefState>>;
-  onShowToast: (msg: string, type: ToastType) => void;
+  onShowToast: (msg: string, type: ToastType, action?: ToastAction) => void;
 }
 
 export const RecipeBook: React.FC<RecipeBookProps> = ({ state, setState, onShowToast }) => {
   const [isExtracting, setIsExtracting] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const application = getActiveApplication(state);
+  const ingredients = useMemo(
+    () => getProfileIngredients(state, application),
+    [state.ingredients, state.profiles, application.profileId]
+  );
 
-  const handleAnalyze = async () => {
-    if (!state.currentRecipe || state.ingredients.length === 0) return;
+  const handleAnalyze = async (forceRefresh = false) => {
+    if (!application.jobDescription || ingredients.length === 0) return;
+    const applicationId = application.id;
+    const controller = new AbortController();
+    abortRef.current = controller;
     
     setState(prev => ({ ...prev, isCooking: true }));
+    setIsStreaming(true);
     onShowToast("The chef is analyzing your recipe...", "info");
 
     try {
-      const analysis = await analyzeDish(state.ingredients, state.currentRecipe);
+      const analysis = await analyzeDish(ingredients, application.jobDescription, controller.signal, forceRefresh);
+      // Show the score right away; research streams in underneath
+      setState(prev => patchApplication(prev, applicationId, { analysis, companyResearch: null, companyName: analysis.companyName }));
       
-      let companyResearch = null;
+      let researchCached = true;
       if (analysis.companyName && analysis.companyName !== 'Unknown Company') {
-          setState(prev => ({ ...prev, companyName: analysis.companyName }));
-          companyResearch = await researchCompany(analysis.companyName, state.ingredients);
+          const companyResearch = await researchCompanyStream(
+            analysis.companyName,
+            ingredients,
+            (summary) => setState(prev => patchApplication(prev, applicationId, { companyResearch: { summary, sources: [] } })),
+            controller.signal,
+            forceRefresh
+          );
+          researchCached = !!companyResearch.cachedAt;
+          setState(prev => patchApplication(prev, applicationId, { companyResearch }));
       }
 
-      setState(prev => ({ 
-        ...prev, 
-        analysis, 
-        companyResearch,
-        companyName: analysis.companyName,
-        isCooking: false 
-      }));
-      onShowToast("Analysis complete!", "success");
+      setState(prev => ({ ...prev, isCooking: false }));
+      if (analysis.cachedAt && researchCached) {
+        onShowToast("Nothing changed since the last run. Served from cache.", "info");
+      } else {
+        onShowToast("Analysis complete!", "success");
+      }
 
     } catch (e: any) {
-      console.error(e);
-      onShowToast(e.message || "Failed to analyze the recipe.", "error");
       setState(prev => ({ ...prev, isCooking: false }));
+      if (isAbortError(e)) {
+        onShowToast("Analysis stopped.", "info");
+      } else {
+        console.error(e);
+        onShowToast(e.message || "Failed to analyze the recipe.", "error", canRetry(e) ? { label: 'Retry', onClick: () => handleAnalyze(forceRefresh) } : undefined);
+      }
+    } finally {
+      abortRef.current = null;
+      setIsStreaming(false);
     }
   };
 
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
   const handleClear = () => {
-    setState(prev => ({
-      ...prev,
-      currentRecipe: '',
+    setState(prev => patchApplication(prev, application.id, {
+      jobDescription: '',
       companyName: '',
       analysis: null,
       companyResearch: null
@@ -66,6 +108,7 @@ export const RecipeBook: React.FC<RecipeBookProps> = ({ state, setState, onShowT
       return;
     }
 
+    const applicationId = application.id;
     setIsExtracting(true);
     onShowToast("Scanning recipe...", "info");
 
@@ -78,7 +121,7 @@ export const RecipeBook: React.FC<RecipeBookProps> = ({ state, setState, onShowT
             const text = await extractJobDescriptionFromImage(base64Data, file.type);
             if (!text) throw new Error("Could not read text from image.");
             
-            setState(prev => ({ ...prev, currentRecipe: text }));
+            setState(prev => patchApplication(prev, applicationId, { jobDescription: text }));
             onShowToast("Recipe extracted successfully!", "success");
         } catch (innerErr: any) {
             onShowToast(innerErr.message || "Failed to read image text.", "error");
@@ -101,14 +144,37 @@ export const RecipeBook: React.FC<RecipeBookProps> = ({ state, setState, onShowT
     return { text: 'text-red-600', bg: 'bg-red-50', bar: 'bg-red-500', label: 'Needs Improvement' };
   };
 
-  const matchColors = state.analysis ? getMatchColor(state.analysis.matchScore) : null;
+  const matchColors = application.analysis ? getMatchColor(application.analysis.matchScore) : null;
+  const cachedAt = application.analysis?.cachedAt ?? application.companyResearch?.cachedAt;
+
+  // Local keyword score: recomputed from inputs only, so it never changes between clicks
+  const atsMatch = useMemo(
+    () => matchKeywords(application.jobDescription, ingredients),
+    [application.jobDescription, ingredients]
+  );
+  const atsColors = getMatchColor(atsMatch.score);
+
+  // The model can list a skill the pantry has under another spelling ("JS" vs "JavaScript")
+  const { missingRequirements, alreadyCovered } = useMemo(() => {
+    const missing: string[] = [];
+    const covered: string[] = [];
+    for (const item of application.analysis?.missingIngredients ?? []) {
+      const ingredient = findCoveringIngredient(item, ingredients);
+      if (ingredient) covered.push(`${item} (${ingredient.name})`);
+      else missing.push(item);
+    }
+    return { missingRequirements: missing, alreadyCovered: covered };
+  }, [application.analysis, ingredients]);
 
   return (
     <div className="flex flex-col h-full animate-fadeIn pb-10">
       {/* Header */}
-      <div className="mb-10">
-        <h1 className="text-3xl font-display font-bold text-slate-800">Job Analysis</h1>
-        <p className="text-slate-500 mt-1">Paste a job description to check your fit and research the company.</p>
+      <div className="mb-10 flex justify-between items-start gap-4">
+        <div>
+          <h1 className="text-3xl font-display font-bold text-slate-800">Job Analysis</h1>
+          <p className="text-slate-500 mt-1">Paste a job description to check your fit and research the company.</p>
+        </div>
+        <ProfilePicker state={state} setState={setState} onShowToast={onShowToast} disabled={state.isCooking} />
       </div>
 
       <div className="flex flex-col gap-8">
@@ -121,7 +187,7 @@ export const RecipeBook: React.FC<RecipeBookProps> = ({ state, setState, onShowT
                     Target Job Description
                 </label>
                 <div className="flex gap-2">
-                   {!state.currentRecipe ? (
+                   {!application.jobDescription ? (
                        <>
                         <input 
                             type="file" 
@@ -154,31 +220,59 @@ export const RecipeBook: React.FC<RecipeBookProps> = ({ state, setState, onShowT
             <textarea
                 className="w-full h-48 p-4 bg-slate-50 border border-slate-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-slate-300 focus:bg-white transition-all resize-none text-slate-700 font-medium text-sm leading-relaxed mb-4 placeholder-slate-400"
                 placeholder="Paste the full job description here..."
-                value={state.currentRecipe}
-                onChange={(e) => setState({ ...state, currentRecipe: e.target.value })}
+                value={application.jobDescription}
+                onChange={(e) => setState(prev => patchApplication(prev, application.id, { jobDescription: e.target.value }))}
             />
 
-            <button
-              onClick={handleAnalyze}
-              disabled={state.isCooking || !state.currentRecipe || state.ingredients.length === 0 || isExtracting}
-              className="w-full bg-slate-900 hover:bg-slate-800 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold py-3 px-6 rounded-xl flex items-center justify-center gap-2 transition-all shadow-md shadow-slate-200"
-            >
-              {state.isCooking ? <Loader2 className="animate-spin" /> : <Search size={18} />}
-              <span>{state.isCooking ? 'Analyzing...' : 'Analyze Match'}</span>
-            </button>
+            {isStreaming ? (
+              <button
+                onClick={handleStop}
+                className="w-full bg-white hover:bg-red-50 text-red-600 border border-red-200 font-bold py-3 px-6 rounded-xl flex items-center justify-center gap-2 transition-all shadow-sm"
+              >
+                <Square size={16} className="fill-red-500" />
+                <span>Stop Analysis</span>
+              </button>
+            ) : (
+              <button
+                onClick={() => handleAnalyze()}
+                disabled={state.isCooking || !application.jobDescription || ingredients.length === 0 || isExtracting}
+                className="w-full bg-slate-900 hover:bg-slate-800 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold py-3 px-6 rounded-xl flex items-center justify-center gap-2 transition-all shadow-md shadow-slate-200"
+              >
+                {state.isCooking ? <Loader2 className="animate-spin" /> : <Search size={18} />}
+                <span>{state.isCooking ? 'Analyzing...' : 'Analyze Match'}</span>
+              </button>
+            )}
         </div>
 
         {/* Results Section */}
-        {(state.analysis || state.companyResearch) && (
+        {(application.analysis || application.companyResearch) && (
             <div className="space-y-6 animate-slideUp">
-              
+
+              {/* Cache Notice */}
+              {cachedAt && !isStreaming && (
+                <div className="flex items-center justify-between bg-blue-50 border border-blue-100 text-blue-700 rounded-xl px-4 py-3 text-sm">
+                    <span className="flex items-center gap-2">
+                        <Database size={16} />
+                        Served from cache · first cooked {formatCacheAge(cachedAt)}
+                    </span>
+                    <button
+                      onClick={() => handleAnalyze(true)}
+                      disabled={state.isCooking}
+                      className="flex items-center gap-1.5 text-xs font-bold bg-white border border-blue-200 hover:border-blue-300 px-3 py-1.5 rounded-lg transition-all disabled:opacity-50"
+                    >
+                        <RefreshCw size={14} />
+                        Force Refresh
+                    </button>
+                </div>
+              )}
+
               {/* Match Overview Grid */}
-              {state.analysis && matchColors && (
+              {application.analysis && matchColors && (
                 <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                     
                     {/* Score Card */}
                     <div className="lg:col-span-1 bg-white p-6 rounded-xl border border-slate-200 shadow-sm flex flex-col items-center justify-center text-center">
-                        <h3 className="text-slate-400 font-bold uppercase text-xs tracking-wider mb-6">Match Score</h3>
+                        <h3 className="text-slate-400 font-bold uppercase text-xs tracking-wider mb-6" title={application.analysis.promptVersion}>AI Match Score</h3>
                         
                         <div className="relative w-40 h-40 flex items-center justify-center mb-6">
                             <svg className="w-full h-full transform -rotate-90" viewBox="0 0 160 160">
@@ -188,12 +282,12 @@ export const RecipeBook: React.FC<RecipeBookProps> = ({ state, setState, onShowT
                                     stroke="currentColor" strokeWidth="12" fill="transparent" 
                                     className={`${matchColors.text} transition-all duration-1000 ease-out`}
                                     strokeDasharray={439.8}
-                                    strokeDashoffset={439.8 - (439.8 * state.analysis.matchScore) / 100}
+                                    strokeDashoffset={439.8 - (439.8 * application.analysis.matchScore) / 100}
                                     strokeLinecap="round"
                                 />
                             </svg>
                             <div className="absolute flex flex-col items-center">
-                                <span className="text-4xl font-display font-bold text-slate-800">{state.analysis.matchScore}%</span>
+                                <span className="text-4xl font-display font-bold text-slate-800">{application.analysis.matchScore}%</span>
                             </div>
                         </div>
 
@@ -201,6 +295,14 @@ export const RecipeBook: React.FC<RecipeBookProps> = ({ state, setState, onShowT
                             <TrendingUp size={14} />
                             {matchColors.label}
                         </div>
+
+                        <div className="mt-6 pt-4 border-t border-slate-100 w-full flex items-center justify-between">
+                            <div className="text-left">
+                                <p className="text-xs font-bold text-slate-400 uppercase tracking-wider">ATS Keyword Score</p>
+                                <p className="text-[11px] text-slate-400">Local & reproducible</p>
+                            </div>
+                            <span className={`text-2xl font-display font-bold ${atsColors.text}`}>{atsMatch.score}%</span>
+                        </div>
                     </div>
 
                     {/* Taste Profile Card */}
@@ -210,14 +312,14 @@ export const RecipeBook: React.FC<RecipeBookProps> = ({ state, setState, onShowT
                             Analysis Summary
                         </h3>
                         <p className="text-slate-600 leading-relaxed text-lg flex-1">
-                            "{state.analysis.tasteProfile}"
+                            "{application.analysis.tasteProfile}"
                         </p>
                     </div>
                 </div>
               )}
 
               {/* Details Grid */}
-              {state.analysis && (
+              {application.analysis && (
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                     {/* Missing Ingredients */}
                     <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
@@ -226,17 +328,22 @@ export const RecipeBook: React.FC<RecipeBookProps> = ({ state, setState, onShowT
                             Missing Requirements
                         </h4>
                         <div className="space-y-3">
-                            {state.analysis.missingIngredients.map((item, idx) => (
+                            {missingRequirements.map((item, idx) => (
                                 <div key={idx} className="flex items-start gap-3 p-3 bg-slate-50 rounded-lg border border-slate-100">
                                     <div className="mt-1.5 w-1.5 h-1.5 rounded-full bg-amber-500 shrink-0" />
                                     <span className="text-sm font-medium text-slate-700 leading-snug">{item}</span>
                                 </div>
                             ))}
-                            {state.analysis.missingIngredients.length === 0 && (
+                            {missingRequirements.length === 0 && (
                                 <div className="p-4 text-center text-slate-400 italic bg-slate-50 rounded-lg">
                                   No missing requirements found!
                                 </div>
                             )}
+                            {alreadyCovered.length > 0 && (
+                                <p className="text-xs text-slate-400" title={alreadyCovered.join('\n')}>
+                                  {alreadyCovered.length} more already in your pantry under another spelling.
+                                </p>
+                            )}
                         </div>
                     </div>
 
@@ -247,7 +354,7 @@ export const RecipeBook: React.FC<RecipeBookProps> = ({ state, setState, onShowT
                             Optimization Tips
                         </h4>
                         <div className="space-y-3">
-                            {state.analysis.chefTips.map((item, idx) => (
+                            {application.analysis.chefTips.map((item, idx) => (
                                 <div key={idx} className="flex items-start gap-3 p-3 bg-slate-50 rounded-lg border border-slate-100">
                                     <div className="mt-1.5 w-1.5 h-1.5 rounded-full bg-emerald-500 shrink-0" />
                                     <span className="text-sm font-medium text-slate-700 leading-snug">{item}</span>
@@ -258,8 +365,54 @@ export const RecipeBook: React.FC<RecipeBookProps> = ({ state, setState, onShowT
                 </div>
               )}
 
+              {/* Keyword Match */}
+              {application.analysis && (
+                <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
+                    <h4 className="font-bold text-slate-800 flex items-center gap-2 mb-1">
+                        <Tags size={18} className="text-slate-500" />
+                        Keyword Match
+                    </h4>
+                    <p className="text-xs text-slate-400 mb-4">
+                        {atsMatch.matched.length} of {atsMatch.matched.length + atsMatch.missing.length} job description terms found in your pantry. Skills count double.
+                    </p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        <div>
+                            <p className="text-xs font-bold text-emerald-600 uppercase tracking-wider mb-2">Matched</p>
+                            <div className="flex flex-wrap gap-2">
+                                {atsMatch.matched.map(term => (
+                                    <span
+                                      key={term.term}
+                                      title={`Found in: ${term.matchedIn}`}
+                                      className={`text-xs font-medium px-2.5 py-1 rounded-full border bg-emerald-50 text-emerald-700 border-emerald-100 ${term.isSkill ? 'font-bold' : ''}`}
+                                    >
+                                        {term.term}
+                                    </span>
+                                ))}
+                                {atsMatch.matched.length === 0 && <span className="text-xs text-slate-400 italic">No keywords matched yet.</span>}
+                            </div>
+                        </div>
+                        <div>
+                            <p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Not Found</p>
+                            <div className="flex flex-wrap gap-2">
+                                {atsMatch.missing.map(term => (
+                                    <span
+                                      key={term.term}
+                                      title={term.related ? `Related skill in your pantry: ${term.related}` : undefined}
+                                      className={`text-xs font-medium px-2.5 py-1 rounded-full border bg-slate-50 text-slate-500 border-slate-200 ${term.isSkill ? 'font-bold' : ''}`}
+                                    >
+                                        {term.term}
+                                        {term.related && <span className="font-normal text-slate-400"> · you have {term.related}</span>}
+                                    </span>
+                                ))}
+                                {atsMatch.missing.length === 0 && <span className="text-xs text-slate-400 italic">Every keyword is covered!</span>}
+                            </div>
+                        </div>
+                    </div>
+                </div>
+              )}
+
               {/* Company Research */}
-              {state.companyResearch && (
+              {application.companyResearch && (
                  <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
                     <div className="bg-slate-50 p-4 border-b border-slate-100 flex items-center justify-between">
                         <div className="flex items-center gap-3">
@@ -268,24 +421,30 @@ export const RecipeBook: React.FC<RecipeBookProps> = ({ state, setState, onShowT
                             </div>
                             <div>
                                 <h3 className="font-bold text-slate-800">Company Intelligence</h3>
-                                <p className="text-xs text-slate-500">{state.companyName || 'Establishment Review'}</p>
+                                <p className="text-xs text-slate-500">{application.companyName || 'Establishment Review'}</p>
                             </div>
                         </div>
+                        {isStreaming && (
+                            <div className="flex items-center gap-2 text-xs font-bold text-slate-400">
+                                <Loader2 size={14} className="animate-spin" />
+                                Researching...
+                            </div>
+                        )}
                     </div>
                     
                     <div className="p-8 prose prose-slate max-w-none prose-headings:font-display prose-headings:font-bold prose-p:text-slate-600 prose-li:text-slate-600">
-                       <ReactMarkdown>{state.companyResearch.summary}</ReactMarkdown>
+                       <ReactMarkdown>{application.companyResearch.summary}</ReactMarkdown>
                     </div>
 
                     {/* Sources */}
-                    {state.companyResearch.sources.length > 0 && (
+                    {application.companyResearch.sources.length > 0 && (
                       <div className="bg-slate-50 p-4 border-t border-slate-100">
                          <div className="flex items-center gap-2 text-slate-400 text-xs font-bold uppercase tracking-wider mb-2">
                             <Info size={12} />
                             <span>Sources</span>
                          </div>
                         <div className="flex flex-wrap gap-2">
-                          {state.companyResearch.sources.map((source, idx) => (
+                          {application.companyResearch.sources.map((source, idx) => (
                             <a 
                               key={idx} 
                               href={source.uri} 
@@ -0,0 +1,397 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { BulletRewrite, ChefState, Ingredient, TailoredResume, ToastType, ToastAction } from '../types.ts';
+import { isAbortError, tailorResumeBullets } from '../services/geminiService.ts';
+import { canRetry } from '../services/aiErrors.ts';
+import { getActiveApplication, patchApplication } from '../services/applications.ts';
+import { getProfileIngredients } from '../services/profiles.ts';
+import {
+  SECTION_ORDER, SECTION_TITLES, buildResumeDocument, collectBullets, liveRewrites, mergeRewrites, selectItems, targetKeywords,
+} from '../services/resumeBuilder.ts';
+import { RESUME_TEMPLATES, renderResumeHtml, renderResumeText } from '../services/resumeRender.ts';
+import { downloadFile, printHtml } from '../services/documentExport.ts';
+import { senderLines } from '../services/letterBuilder.ts';
+import { diffWords } from '../services/textDiff.ts';
+import { ProfilePicker } from './ProfilePicker.tsx';
+import { DiffText } from './DiffText.tsx';
+import { ScrollText, Sparkles, Loader2, Square, Check, X, ArrowUp, ArrowDown, RefreshCw, Printer, FileDown, CheckCheck } from 'lucide-react';
+
+interface ResumeStationProps {
+  state: ChefState;
+  setState: React.Dispatch<React.SetStateAction<ChefState>>;
+  onShowToast: (msg: string, type: ToastType, action?: ToastAction) => void;
+}
+
+const sameBullet = (a: BulletRewrite, b: BulletRewrite) => a.ingredientId === b.ingredientId && a.index === b.index;
+
+export const ResumeStation: React.FC<ResumeStationProps> = ({ state, setState, onShowToast }) => {
+  const abortRef = useRef<AbortController | null>(null);
+  const [isRewriting, setIsRewriting] = useState(false);
+  const application = getActiveApplication(state);
+  const ingredients = getProfileIngredients(state, application);
+  const resume = application.resume;
+
+  const resumeDoc = useMemo(
+    () => resume && buildResumeDocument(ingredients, resume, application.jobDescription),
+    [ingredients, resume, application.jobDescription]
+  );
+  const html = useMemo(() => resume && resumeDoc ? renderResumeHtml(resumeDoc, resume.template) : '', [resumeDoc, resume]);
+  const rewrites = useMemo(() => resume ? liveRewrites(ingredients, resume) : [], [ingredients, resume]);
+  const pending = rewrites.filter(r => r.status === 'pending');
+
+  const updateResume = (applicationId: string, changes: Partial<TailoredResume> | ((resume: TailoredResume) => Partial<TailoredResume>)) =>
+    setState(prev => patchApplication(prev, applicationId, app => app.resume
+      ? { resume: { ...app.resume, ...(typeof changes === 'function' ? changes(app.resume) : changes) } }
+      : {}));
+
+  const handleBuild = () => {
+    const pageLimit = resume?.pageLimit ?? 1;
+    const itemIds = selectItems(ingredients, application.jobDescription, application.analysis, pageLimit);
+    if (resume) {
+      updateResume(application.id, { itemIds });
+      onShowToast("Items re-picked for this job.", "success");
+      return;
+    }
+    // Contact details rarely change between applications, so start from the last resume's or the letterhead
+    const previous = state.applications.find(app => app.resume)?.resume;
+    const letterhead = state.letterhead;
+    const created: TailoredResume = {
+      itemIds,
+      rewrites: [],
+      template: previous?.template ?? 'classic',
+      pageLimit,
+      header: previous?.header ?? { name: letterhead?.name ?? '', contact: letterhead ? senderLines(letterhead)[0] ?? '' : '' },
+      promptVersion: null,
+      createdAt: new Date().toISOString(),
+    };
+    setState(prev => patchApplication(prev, application.id, { resume: created }));
+    onShowToast(`Resume drafted with ${itemIds.length} items.`, "success");
+  };
+
+  const handleSuggestRewrites = async () => {
+    if (!resume) return;
+    const { bullets, sources } = collectBullets(ingredients, resume, application.jobDescription);
+    if (bullets.length === 0) {
+      onShowToast("None of the selected items have bullets to rewrite.", "info");
+      return;
+    }
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const applicationId = application.id;
+    setState(prev => ({ ...prev, isCooking: true }));
+    setIsRewriting(true);
+    onShowToast("Tailoring bullets...", "info");
+
+    try {
+      const keywords = targetKeywords(ingredients, application.jobDescription, application.analysis);
+      const { rewrites: suggestions, promptVersion } = await tailorResumeBullets(bullets, application.jobDescription, keywords, controller.signal);
+      const added = mergeRewrites([], suggestions, sources).length;
+      updateResume(applicationId, current => ({ rewrites: mergeRewrites(current.rewrites, suggestions, sources), promptVersion }));
+      onShowToast(added ? "Review the suggested rewrites below." : "No changes suggested; your bullets already fit.", added ? "success" : "info");
+    } catch (e: any) {
+      if (isAbortError(e)) {
+        onShowToast("Rewrite stopped.", "info");
+      } else {
+        console.error(e);
+        onShowToast(e.message || "Rewrite failed.", "error", canRetry(e) ? { label: 'Retry', onClick: handleSuggestRewrites } : undefined);
+      }
+    } finally {
+      setState(prev => ({ ...prev, isCooking: false }));
+      abortRef.current = null;
+      setIsRewriting(false);
+    }
+  };
+
+  const setRewriteStatus = (targets: BulletRewrite[], status: BulletRewrite['status']) =>
+    updateResume(application.id, current => ({
+      rewrites: current.rewrites.map(r => targets.some(t => sameBullet(t, r)) ? { ...r, status } : r),
+    }));
+
+  const toggleItem = (ingredient: Ingredient) => {
+    if (!resume) return;
+    if (resume.itemIds.includes(ingredient.id)) {
+      updateResume(application.id, { itemIds: resume.itemIds.filter(id => id !== ingredient.id) });
+    } else {
+      // New items go to the end of their section
+      const lastInSection = resume.itemIds.map(id => ingredients.find(i => i.id === id)).map(i => i?.category).lastIndexOf(ingredient.category);
+      const itemIds = [...resume.itemIds];
+      itemIds.splice(lastInSection === -1 ? itemIds.length : lastInSection + 1, 0, ingredient.id);
+      updateResume(application.id, { itemIds });
+    }
+  };
+
+  /** Swaps an item with its neighbour in the same section. */
+  const moveItem = (ingredient: Ingredient, direction: -1 | 1) => {
+    if (!resume) return;
+    const sectionIds = resume.itemIds.filter(id => ingredients.find(i => i.id === id)?.category === ingredient.category);
+    const neighbour = sectionIds[sectionIds.indexOf(ingredient.id) + direction];
+    if (!neighbour) return;
+    const from = resume.itemIds.indexOf(ingredient.id);
+    const to = resume.itemIds.indexOf(neighbour);
+    const itemIds = [...resume.itemIds];
+    [itemIds[from], itemIds[to]] = [itemIds[to], itemIds[from]];
+    updateResume(application.id, { itemIds });
+  };
+
+  const fileBase = [resume?.header.name || 'Resume', application.companyName].filter(Boolean).join(' - ');
+
+  const handleExportText = () => {
+    if (!resumeDoc) return;
+    downloadFile(`${fileBase}.txt`, renderResumeText(resumeDoc), 'text/plain');
+    onShowToast("Plain text resume downloaded.", "success");
+  };
+
+  const handleExportPdf = () => {
+    if (!html) return;
+    printHtml(html, fileBase);
+    onShowToast('Choose "Save as PDF" in the print dialog.', "info");
+  };
+
+  const sectionItems = (category: Ingredient['category']) => {
+    const included = resume?.itemIds
+      .map(id => ingredients.find(i => i.id === id))
+      .filter((i): i is Ingredient => !!i && i.category === category) ?? [];
+    const excluded = ingredients.filter(i => i.category === category && !included.includes(i));
+    return { included, excluded };
+  };
+
+  const canBuild = !!application.jobDescription && ingredients.length > 0;
+
+  return (
+    <div className="flex flex-col h-full animate-fadeIn pb-10">
+      {/* Header */}
+      <div className="mb-10 flex justify-between items-start gap-4">
+        <div>
+          <h1 className="text-3xl font-display font-bold text-slate-800">Tailored Resume</h1>
+          <p className="text-slate-500 mt-1">Pick the experience that fits this job, tighten the wording, and export.</p>
+        </div>
+        <ProfilePicker state={state} setState={setState} onShowToast={onShowToast} disabled={state.isCooking} />
+      </div>
+
+      {!resume ? (
+        <div className="bg-slate-50 rounded-xl border-2 border-dashed border-slate-200 flex flex-col items-center justify-center py-20 text-slate-400 p-8 text-center">
+          <div className="bg-white p-4 rounded-full shadow-sm mb-4">
+            <ScrollText size={32} className="text-slate-300" />
+          </div>
+          <h3 className="font-bold text-slate-600 text-lg">No Resume Yet</h3>
+          <p className="max-w-sm mt-2 text-sm">
+            {!application.jobDescription
+              ? 'Add a job description in Job Analysis first; the resume is built around it.'
+              : ingredients.length === 0
+                ? 'Add experience to your pantry to build a resume from.'
+                : 'Build a resume from the pantry items that best match this job. Running the analysis first helps it rank them.'}
+          </p>
+          <button
+            onClick={handleBuild}
+            disabled={!canBuild}
+            className="mt-6 bg-slate-900 hover:bg-slate-800 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold py-3 px-6 rounded-xl flex items-center gap-2 transition-all shadow-md shadow-slate-200"
+          >
+            <ScrollText size={18} />
+            Build Resume
+          </button>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-5 gap-8">
+          {/* Left Column: Settings, items and rewrites */}
+          <div className="lg:col-span-2 flex flex-col gap-6">
+            <div className="bg-white rounded-xl border border-slate-200 p-6 shadow-sm space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <label className="block">
+                  <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Template</span>
+                  <select
+                    className="mt-1 w-full p-2 bg-slate-50 border border-slate-200 rounded-lg text-sm font-medium text-slate-700 focus:outline-none focus:ring-2 focus:ring-slate-300"
+                    value={resume.template}
+                    onChange={(e) => updateResume(application.id, { template: e.target.value as TailoredResume['template'] })}
+                  >
+                    {RESUME_TEMPLATES.map(t => <option key={t.id} value={t.id}>{t.label} · {t.description}</option>)}
+                  </select>
+                </label>
+                <div>
+                  <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Length</span>
+                  <div className="mt-1 flex bg-slate-50 border border-slate-200 rounded-lg p-0.5">
+                    {([1, 2] as const).map(pages => (
+                      <button
+                        key={pages}
+                        onClick={() => updateResume(application.id, { pageLimit: pages })}
+                        className={`flex-1 py-1.5 rounded-md text-sm font-bold transition-all ${resume.pageLimit === pages ? 'bg-white shadow-sm text-slate-800' : 'text-slate-400 hover:text-slate-600'}`}
+                      >
+                        {pages} page{pages > 1 ? 's' : ''}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+              <input
+                className="w-full p-2 bg-slate-50 border border-slate-200 rounded-lg text-sm font-bold text-slate-700 focus:outline-none focus:ring-2 focus:ring-slate-300"
+                placeholder="Your name"
+                value={resume.header.name}
+                onChange={(e) => updateResume(application.id, current => ({ header: { ...current.header, name: e.target.value } }))}
+              />
+              <input
+                className="w-full p-2 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-slate-300"
+                placeholder="email · phone · city · linkedin.com/in/you"
+                value={resume.header.contact}
+                onChange={(e) => updateResume(application.id, current => ({ header: { ...current.header, contact: e.target.value } }))}
+              />
+            </div>
+
+            {/* Items */}
+            <div className="bg-white rounded-xl border border-slate-200 p-6 shadow-sm">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider">Items</h3>
+                <button
+                  onClick={handleBuild}
+                  disabled={!canBuild || state.isCooking}
+                  className="flex items-center gap-1.5 text-xs font-bold text-slate-500 hover:text-slate-800 bg-slate-50 border border-slate-200 px-3 py-1.5 rounded-lg hover:border-slate-300 transition-all disabled:opacity-50"
+                  title="Pick the best-matching items again for the current length"
+                >
+                  <RefreshCw size={14} />
+                  Re-pick
+                </button>
+              </div>
+              <div className="space-y-4">
+                {SECTION_ORDER.map(category => {
+                  const { included, excluded } = sectionItems(category);
+                  if (included.length + excluded.length === 0) return null;
+                  return (
+                    <div key={category}>
+                      <p className="text-[11px] font-bold text-slate-400 uppercase tracking-wider mb-1">{SECTION_TITLES[category]}</p>
+                      {[...included, ...excluded].map(ingredient => {
+                        const isIncluded = included.includes(ingredient);
+                        const position = included.indexOf(ingredient);
+                        return (
+                          <div key={ingredient.id} className="flex items-center gap-2 py-1 group">
+                            <input
+                              type="checkbox"
+                              checked={isIncluded}
+                              onChange={() => toggleItem(ingredient)}
+                              className="rounded border-slate-300"
+                            />
+                            <span className={`flex-1 text-sm truncate ${isIncluded ? 'text-slate-700 font-medium' : 'text-slate-400'}`}>{ingredient.name}</span>
+                            {isIncluded && category !== 'skill' && (
+                              <span className="flex opacity-0 group-hover:opacity-100 transition-opacity">
+                                <button onClick={() => moveItem(ingredient, -1)} disabled={position === 0} className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30" title="Move up">
+                                  <ArrowUp size={14} />
+                                </button>
+                                <button onClick={() => moveItem(ingredient, 1)} disabled={position === included.length - 1} className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30" title="Move down">
+                                  <ArrowDown size={14} />
+                                </button>
+                              </span>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* Rewrites */}
+            <div className="bg-white rounded-xl border border-slate-200 p-6 shadow-sm">
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider">Bullet Rewrites</h3>
+                {resume.promptVersion && (
+                  <span className="text-[10px] font-mono text-slate-400" title="Prompt template used for these rewrites">{resume.promptVersion}</span>
+                )}
+              </div>
+              <p className="text-xs text-slate-400 mb-4">Suggestions work the job's keywords into your bullets. Nothing changes on the resume until you accept it.</p>
+              {isRewriting ? (
+                <button
+                  onClick={() => abortRef.current?.abort()}
+                  className="w-full bg-white hover:bg-red-50 text-red-600 border border-red-200 font-bold py-2.5 px-4 rounded-xl flex items-center justify-center gap-2 transition-all shadow-sm"
+                >
+                  <Square size={14} className="fill-red-500" />
+                  Stop
+                </button>
+              ) : (
+                <button
+                  onClick={handleSuggestRewrites}
+                  disabled={state.isCooking || resume.itemIds.length === 0}
+                  className="w-full bg-slate-900 hover:bg-slate-800 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold py-2.5 px-4 rounded-xl flex items-center justify-center gap-2 transition-all shadow-md shadow-slate-200"
+                >
+                  {state.isCooking ? <Loader2 size={16} className="animate-spin" /> : <Sparkles size={16} />}
+                  Suggest Rewrites
+                </button>
+              )}
+
+              {rewrites.length > 0 && (
+                <div className="mt-4 space-y-3">
+                  {pending.length > 1 && (
+                    <div className="flex justify-end gap-2">
+                      <button onClick={() => setRewriteStatus(pending, 'rejected')} className="text-xs font-bold text-slate-400 hover:text-slate-700">Reject all</button>
+                      <button onClick={() => setRewriteStatus(pending, 'accepted')} className="flex items-center gap-1 text-xs font-bold text-emerald-600 hover:text-emerald-800">
+                        <CheckCheck size={14} /> Accept all
+                      </button>
+                    </div>
+                  )}
+                  {rewrites.map(rewrite => (
+                    <div
+                      key={`${rewrite.ingredientId}-${rewrite.index}`}
+                      className={`rounded-lg border p-3 text-sm leading-relaxed ${
+                        rewrite.status === 'accepted' ? 'border-emerald-200 bg-emerald-50/40' :
+                        rewrite.status === 'rejected' ? 'border-slate-100 bg-slate-50 opacity-60' : 'border-slate-200'
+                      }`}
+                    >
+                      <p className="text-[11px] font-bold text-slate-400 mb-1 truncate">{ingredients.find(i => i.id === rewrite.ingredientId)?.name}</p>
+                      <p className="text-slate-700"><DiffText ops={diffWords(rewrite.original, rewrite.rewritten)} /></p>
+                      <div className="flex justify-end gap-1 mt-2">
+                        {rewrite.status !== 'rejected' && (
+                          <button onClick={() => setRewriteStatus([rewrite], 'rejected')} className="flex items-center gap-1 text-xs font-bold text-slate-500 hover:text-red-600 px-2 py-1 rounded-md hover:bg-red-50">
+                            <X size={14} /> {rewrite.status === 'accepted' ? 'Revert' : 'Reject'}
+                          </button>
+                        )}
+                        {rewrite.status !== 'accepted' && (
+                          <button onClick={() => setRewriteStatus([rewrite], 'accepted')} className="flex items-center gap-1 text-xs font-bold text-emerald-600 hover:text-emerald-800 px-2 py-1 rounded-md hover:bg-emerald-50">
+                            <Check size={14} /> Accept
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Right Column: Preview */}
+          <div className="lg:col-span-3 bg-white rounded-xl border border-slate-200 shadow-sm flex flex-col overflow-hidden min-h-[700px]">
+            <div className="bg-slate-50 border-b border-slate-200 p-3 flex items-center justify-between shrink-0">
+              <div className="flex items-center gap-2 px-2">
+                <ScrollText size={16} className="text-slate-500" />
+                <span className="text-sm font-bold text-slate-700">Preview</span>
+                {pending.length > 0 && (
+                  <span className="text-[10px] font-bold text-amber-700 bg-amber-50 border border-amber-100 px-2 py-0.5 rounded-full">
+                    {pending.length} rewrite{pending.length > 1 ? 's' : ''} to review
+                  </span>
+                )}
+              </div>
+              <div className="flex gap-1">
+                <button
+                  onClick={handleExportText}
+                  className="flex items-center gap-1.5 text-xs font-bold text-slate-500 hover:text-slate-800 px-3 py-2 rounded-lg hover:bg-white hover:shadow-sm transition-all"
+                  title="Download as plain text"
+                >
+                  <FileDown size={16} /> TXT
+                </button>
+                <button
+                  onClick={handleExportPdf}
+                  className="flex items-center gap-1.5 text-xs font-bold text-slate-500 hover:text-slate-800 px-3 py-2 rounded-lg hover:bg-white hover:shadow-sm transition-all"
+                  title="Save as PDF from the print dialog"
+                >
+                  <Printer size={16} /> PDF
+                </button>
+              </div>
+            </div>
+            <div className="flex-1 bg-slate-100 p-6">
+              <iframe
+                title="Resume preview"
+                srcDoc={html}
+                className="w-full h-full min-h-[650px] bg-white shadow-sm border border-slate-200 mx-auto max-w-[816px] block"
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
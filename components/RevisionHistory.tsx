@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { Ingredient, IngredientContent, IngredientRevision } from '../types.ts';
+import { diffWords } from '../services/textDiff.ts';
+import { formatIngredientLines } from '../services/ingredientFields.ts';
+import { DiffText } from './DiffText.tsx';
+import { X, RotateCcw } from 'lucide-react';
+
+interface RevisionHistoryProps {
+  ingredient: Ingredient;
+  onRestore: (revisionId: string) => void;
+  onClose: () => void;
+}
+
+const SOURCE_STYLES: Record<IngredientRevision['source'], { label: string; className: string }> = {
+  original: { label: 'Original', className: 'bg-slate-100 text-slate-600' },
+  manual: { label: 'Edited', className: 'bg-blue-50 text-blue-600' },
+  ai: { label: 'AI', className: 'bg-purple-50 text-purple-600' },
+  import: { label: 'Import', className: 'bg-emerald-50 text-emerald-600' },
+  restore: { label: 'Restored', className: 'bg-amber-50 text-amber-600' },
+};
+
+const asText = (content: IngredientContent) => [content.name, formatIngredientLines(content)].filter(Boolean).join('\n');
+
+export const RevisionHistory: React.FC<RevisionHistoryProps> = ({ ingredient, onRestore, onClose }) => {
+  const revisions = ingredient.revisions ?? [];
+  const latest = revisions[revisions.length - 1];
+  // Compare the selected revision against another one, the current version by default
+  const [selectedId, setSelectedId] = useState(revisions[revisions.length - 2]?.id ?? latest?.id);
+  const [compareId, setCompareId] = useState(latest?.id);
+
+  const selected = revisions.find(r => r.id === selectedId);
+  const compare = revisions.find(r => r.id === compareId);
+  const label = (revision: IngredientRevision) =>
+    `${SOURCE_STYLES[revision.source].label} · ${new Date(revision.createdAt).toLocaleString()}${revision === latest ? ' (current)' : ''}`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm p-4 animate-fadeIn">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-4xl overflow-hidden animate-slideUp flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h3 className="font-bold text-lg text-slate-800">Revision History</h3>
+            <p className="text-xs text-slate-500 mt-0.5">{ingredient.name} · {revisions.length} {revisions.length === 1 ? 'revision' : 'revisions'}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        {revisions.length === 0 ? (
+          <p className="p-10 text-center text-sm text-slate-400 italic">No revisions yet. Every change from now on is kept here.</p>
+        ) : (
+          <div className="flex min-h-0 flex-1">
+            <div className="w-64 shrink-0 border-r border-slate-100 overflow-y-auto p-3 space-y-1">
+              {[...revisions].reverse().map(revision => {
+                const style = SOURCE_STYLES[revision.source];
+                return (
+                  <button
+                    key={revision.id}
+                    onClick={() => setSelectedId(revision.id)}
+                    className={`w-full text-left p-3 rounded-lg border transition-all ${
+                      revision.id === selectedId ? 'border-slate-800 bg-slate-50' : 'border-transparent hover:bg-slate-50'
+                    }`}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded-md ${style.className}`}>{style.label}</span>
+                      {revision === latest && <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Current</span>}
+                    </div>
+                    <p className="text-xs text-slate-500 mt-1.5">{new Date(revision.createdAt).toLocaleString()}</p>
+                    {revision.note && <p className="text-xs text-slate-400 mt-0.5 truncate" title={revision.note}>{revision.note}</p>}
+                  </button>
+                );
+              })}
+            </div>
+
+            <div className="flex-1 min-w-0 p-6 overflow-y-auto">
+              {selected && compare && (
+                <>
+                  <div className="flex items-center justify-between gap-3 mb-4">
+                    <label className="flex items-center gap-2 text-xs font-bold text-slate-500 uppercase tracking-wider min-w-0">
+                      Compare with
+                      <select
+                        value={compareId}
+                        onChange={(e) => setCompareId(e.target.value)}
+                        className="text-xs font-medium normal-case tracking-normal text-slate-700 bg-white border border-slate-200 rounded-lg px-2 py-1.5 min-w-0"
+                      >
+                        {[...revisions].reverse().map(revision => (
+                          <option key={revision.id} value={revision.id}>{label(revision)}</option>
+                        ))}
+                      </select>
+                    </label>
+                    <button
+                      onClick={() => onRestore(selected.id)}
+                      disabled={selected === latest}
+                      className="flex items-center gap-1.5 text-xs font-bold text-white bg-slate-900 hover:bg-slate-800 px-3 py-2 rounded-lg transition-all disabled:opacity-40 disabled:cursor-not-allowed shrink-0"
+                      title={selected === latest ? 'This is the current version' : 'Make this revision the current version'}
+                    >
+                      <RotateCcw size={14} /> Restore this revision
+                    </button>
+                  </div>
+                  {selected === compare ? (
+                    <p className="text-sm text-slate-600 whitespace-pre-wrap break-words bg-slate-50 rounded-lg p-4">{asText(selected.content)}</p>
+                  ) : (
+                    <>
+                      <p className="text-xs text-slate-400 mb-2">
+                        From the selected revision to the compared one:{' '}
+                        <span className="bg-red-100 text-red-700 line-through px-1">removed</span>{' '}
+                        <span className="bg-emerald-100 text-emerald-700 px-1">added</span>
+                      </p>
+                      <p className="text-sm text-slate-600 whitespace-pre-wrap break-words bg-slate-50 rounded-lg p-4">
+                        <DiffText ops={diffWords(asText(selected.content), asText(compare.content))} />
+                      </p>
+                    </>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
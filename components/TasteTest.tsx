@@ -1,17 +1,30 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { ChefState, ToastType, InterviewMessage } from '../types.ts';
+import { ChefState, ToastType, ToastAction, InterviewMessage, InterviewSession } from '../types.ts';
 import { getInterviewQuestion, evaluateAudioAnswer } from '../services/geminiService.ts';
+import { canRetry } from '../services/aiErrors.ts';
+import { createId, getActiveApplication, getActiveInterviewSession, patchApplication } from '../services/applications.ts';
+import { getProfileIngredients } from '../services/profiles.ts';
+import { ProfilePicker } from './ProfilePicker.tsx';
 import { ChefHat, RefreshCw, Star, Video, Mic, Camera } from 'lucide-react';
 
 interface TasteTestProps {
   state: ChefState;
   setState: React.Dispatch<React.SetStateAction<ChefState>>;
-  onShowToast: (msg: string, type: ToastType) => void;
+  onShowToast: (msg: string, type: ToastType, action?: ToastAction) => void;
 }
 
 export const TasteTest: React.FC<TasteTestProps> = ({ state, setState, onShowToast }) => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
+  const application = getActiveApplication(state);
+  const session = getActiveInterviewSession(application);
+  const ingredients = getProfileIngredients(state, application);
+  const history = session?.messages ?? [];
+
+  const setMessages = (applicationId: string, sessionId: string, messages: InterviewMessage[]) =>
+    setState(prev => patchApplication(prev, applicationId, app => ({
+      interviewSessions: app.interviewSessions.map(s => s.id === sessionId ? { ...s, messages } : s),
+    })));
   
   // Media State
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -32,7 +45,7 @@ export const TasteTest: React.FC<TasteTestProps> = ({ state, setState, onShowToa
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [state.interviewHistory]);
+  }, [session?.messages]);
 
   const stopMediaStream = () => {
     if (streamRef.current) {
@@ -56,7 +69,7 @@ export const TasteTest: React.FC<TasteTestProps> = ({ state, setState, onShowToa
   };
 
   const startInterview = async () => {
-    if (!state.currentRecipe || state.ingredients.length === 0) {
+    if (!application.jobDescription || ingredients.length === 0) {
       onShowToast("Please add ingredients and a job description first!", "error");
       return;
     }
@@ -65,19 +78,29 @@ export const TasteTest: React.FC<TasteTestProps> = ({ state, setState, onShowToa
     await startCamera();
 
     setIsProcessing(true);
-    const newHistory: InterviewMessage[] = [];
-    setState(prev => ({ ...prev, interviewHistory: newHistory }));
+    // Each interview is its own session; earlier ones stay reviewable
+    const applicationId = application.id;
+    const newSession: InterviewSession = { id: createId(), messages: [], startedAt: new Date().toISOString() };
+    setState(prev => patchApplication(prev, applicationId, app => ({
+      interviewSessions: [...app.interviewSessions, newSession],
+      activeInterviewSessionId: newSession.id,
+    })));
 
     try {
-      const question = await getInterviewQuestion(state.ingredients, state.currentRecipe, []);
+      const question = await getInterviewQuestion(ingredients, application.jobDescription, []);
       const chefMsg: InterviewMessage = {
         id: Date.now().toString(),
         role: 'chef',
-        content: question
+        content: question.text,
+        promptVersion: question.promptVersion
       };
-      setState(prev => ({ ...prev, interviewHistory: [chefMsg] }));
+      setMessages(applicationId, newSession.id, [chefMsg]);
     } catch (e: any) {
-      onShowToast("Failed to start the interview.", "error");
+      setState(prev => patchApplication(prev, applicationId, app => ({
+        interviewSessions: app.interviewSessions.filter(s => s.id !== newSession.id),
+        activeInterviewSessionId: session?.id ?? null,
+      })));
+      onShowToast(e.message || "Failed to start the interview.", "error", canRetry(e) ? { label: 'Retry', onClick: startInterview } : undefined);
     } finally {
       setIsProcessing(false);
     }
@@ -131,11 +154,13 @@ export const TasteTest: React.FC<TasteTestProps> = ({ state, setState, onShowToa
     setIsProcessing(true);
     onShowToast("Analyzing your answer...", "info");
 
-    try {
-        // Convert Blob to Base64
-        const reader = new FileReader();
-        reader.readAsDataURL(audioBlob);
-        reader.onloadend = async () => {
+    // Convert Blob to Base64
+    const reader = new FileReader();
+    reader.readAsDataURL(audioBlob);
+    const applicationId = application.id;
+    const sessionId = session!.id;
+    reader.onloadend = async () => {
+        try {
             const base64String = (reader.result as string).split(',')[1];
             
             // Add user "message" placeholder while analyzing
@@ -146,11 +171,11 @@ export const TasteTest: React.FC<TasteTestProps> = ({ state, setState, onShowToa
                 content: "(Audio Answer Submitted)"
             };
             
-            const currentHistory = [...state.interviewHistory, userMsg];
-            setState(prev => ({ ...prev, interviewHistory: currentHistory }));
+            const currentHistory = [...history, userMsg];
+            setMessages(applicationId, sessionId, currentHistory);
 
             // Evaluate
-            const lastQuestion = state.interviewHistory[state.interviewHistory.length - 1].content;
+            const lastQuestion = history[history.length - 1].content;
             const evaluation = await evaluateAudioAnswer(lastQuestion, base64String, 'audio/webm');
 
             // Update user message with transcription and feedback
@@ -159,35 +184,43 @@ export const TasteTest: React.FC<TasteTestProps> = ({ state, setState, onShowToa
                     ...msg, 
                     content: evaluation.transcription || "(Audio transcription failed)",
                     feedback: evaluation.feedback, 
-                    score: evaluation.score 
+                    score: evaluation.score,
+                    promptVersion: evaluation.promptVersion
                 } : msg
             );
-            setState(prev => ({ ...prev, interviewHistory: historyWithFeedback }));
+            setMessages(applicationId, sessionId, historyWithFeedback);
 
             // Get Next Question
-            const nextQuestion = await getInterviewQuestion(state.ingredients, state.currentRecipe, historyWithFeedback);
+            const nextQuestion = await getInterviewQuestion(ingredients, application.jobDescription, historyWithFeedback);
             const chefMsg: InterviewMessage = {
                 id: (Date.now() + 1).toString(),
                 role: 'chef',
-                content: nextQuestion
+                content: nextQuestion.text,
+                promptVersion: nextQuestion.promptVersion
             };
 
-            setState(prev => ({ ...prev, interviewHistory: [...historyWithFeedback, chefMsg] }));
+            setMessages(applicationId, sessionId, [...historyWithFeedback, chefMsg]);
+        } catch (e: any) {
+            console.error(e);
+            // Drop the placeholder so a retry starts from the same question
+            setMessages(applicationId, sessionId, history);
+            onShowToast(
+                e.message || "Failed to analyze audio.",
+                "error",
+                canRetry(e) ? { label: 'Retry', onClick: () => handleAudioSubmission(audioBlob) } : undefined
+            );
+        } finally {
             setIsProcessing(false);
-        };
-    } catch (e: any) {
-        console.error(e);
-        onShowToast("Failed to analyze audio.", "error");
-        setIsProcessing(false);
-    }
+        }
+    };
   };
 
   // Render the current/latest question prominently
-  const currentQuestion = state.interviewHistory.length > 0 && state.interviewHistory[state.interviewHistory.length - 1].role === 'chef'
-    ? state.interviewHistory[state.interviewHistory.length - 1].content
+  const currentQuestion = history.length > 0 && history[history.length - 1].role === 'chef'
+    ? history[history.length - 1].content
     : "Processing answer...";
 
-  const lastFeedback = state.interviewHistory.filter(m => m.role === 'candidate' && m.feedback).pop();
+  const lastFeedback = history.filter(m => m.role === 'candidate' && m.feedback).pop();
 
   return (
     <div className="flex flex-col h-full animate-fadeIn pb-4">
@@ -198,7 +231,22 @@ export const TasteTest: React.FC<TasteTestProps> = ({ state, setState, onShowToa
             <p className="text-slate-500 mt-1">Practice facing the camera. AI evaluates your content and delivery.</p>
         </div>
         <div className="flex gap-2">
-            {state.interviewHistory.length > 0 && (
+            <ProfilePicker state={state} setState={setState} onShowToast={onShowToast} disabled={isProcessing || isRecording} />
+            {application.interviewSessions.length > 1 && (
+            <select
+                className="text-sm font-bold text-slate-500 bg-white border border-slate-200 px-3 py-2 rounded-lg hover:border-slate-300 transition-all shadow-sm focus:outline-none"
+                value={session?.id}
+                disabled={isProcessing || isRecording}
+                onChange={(e) => setState(prev => patchApplication(prev, application.id, { activeInterviewSessionId: e.target.value }))}
+            >
+                {application.interviewSessions.map((s, idx) => (
+                    <option key={s.id} value={s.id}>
+                        Session {idx + 1} · {new Date(s.startedAt).toLocaleDateString()}
+                    </option>
+                ))}
+            </select>
+            )}
+            {history.length > 0 && (
             <button 
                 onClick={() => {
                     stopMediaStream();
@@ -226,7 +274,7 @@ export const TasteTest: React.FC<TasteTestProps> = ({ state, setState, onShowToa
                     <ChefHat size={14} />
                     Current Question
                  </h3>
-                 {state.interviewHistory.length === 0 ? (
+                 {history.length === 0 ? (
                     <div className="flex flex-col items-center text-center py-6">
                         <p className="text-slate-500 mb-6">Ready to start your video interview session?</p>
                         <button 
@@ -242,7 +290,7 @@ export const TasteTest: React.FC<TasteTestProps> = ({ state, setState, onShowToa
                         "{currentQuestion}"
                     </p>
                  )}
-                 {isProcessing && state.interviewHistory.length > 0 && (
+                 {isProcessing && history.length > 0 && (
                      <div className="absolute bottom-4 right-4 flex gap-1">
                         <div className="w-2 h-2 bg-slate-300 rounded-full animate-bounce"></div>
                         <div className="w-2 h-2 bg-slate-300 rounded-full animate-bounce delay-100"></div>
@@ -314,7 +362,7 @@ export const TasteTest: React.FC<TasteTestProps> = ({ state, setState, onShowToa
                 {!isRecording ? (
                     <button
                         onClick={startRecording}
-                        disabled={state.interviewHistory.length === 0 || isProcessing}
+                        disabled={history.length === 0 || isProcessing}
                         className="w-16 h-16 rounded-full bg-red-500 hover:bg-red-600 shadow-lg shadow-red-200 flex items-center justify-center transition-all transform hover:scale-105 disabled:opacity-50 disabled:transform-none"
                         title="Start Recording"
                     >
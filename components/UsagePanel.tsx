@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { ToastType } from '../types.ts';
+import { getProvider } from '../services/aiProvider.ts';
+import {
+  FEATURE_LABELS,
+  UsageFeature,
+  BudgetPeriod,
+  getUsageSummary,
+  getBudget,
+  setBudget,
+  getPeriodSpend,
+  hasKnownPrice,
+  clearUsage,
+} from '../services/usageTracker.ts';
+import { X, Trash2 } from 'lucide-react';
+
+interface UsagePanelProps {
+  onClose: () => void;
+  onShowToast: (msg: string, type: ToastType) => void;
+}
+
+const MAX_DAYS_SHOWN = 14;
+
+const formatCost = (usd: number) => (usd > 0 && usd < 0.01 ? '<$0.01' : `$${usd.toFixed(2)}`);
+const formatTokens = (tokens: number) => (tokens >= 10_000 ? `${(tokens / 1000).toFixed(1)}k` : tokens.toLocaleString());
+
+export const UsagePanel: React.FC<UsagePanelProps> = ({ onClose, onShowToast }) => {
+  const [summary, setSummary] = useState(() => getUsageSummary());
+  const [limit, setLimit] = useState(() => getBudget()?.limitUsd.toString() || '');
+  const [period, setPeriod] = useState<BudgetPeriod>(() => getBudget()?.period || 'month');
+
+  const currentModel = getProvider().model;
+  const activeBudget = getBudget();
+  const periodSpend = activeBudget ? getPeriodSpend(activeBudget.period) : 0;
+  const busiestFeatureCost = Math.max(...Object.values(summary.byFeature).map(t => t.costUsd), 0);
+  const busiestDayTokens = Math.max(...summary.byDay.map(d => d.totals.inputTokens + d.totals.outputTokens), 0);
+
+  const handleSaveBudget = () => {
+    const value = parseFloat(limit);
+    if (!limit.trim()) {
+      setBudget(null);
+      onShowToast("Budget cap removed.", "info");
+      return;
+    }
+    if (!Number.isFinite(value) || value <= 0) {
+      onShowToast("Enter a budget greater than $0.", "error");
+      return;
+    }
+    setBudget({ limitUsd: value, period });
+    onShowToast(`Budget set to $${value.toFixed(2)} per ${period}.`, "success");
+  };
+
+  const handleClear = () => {
+    clearUsage();
+    setSummary(getUsageSummary());
+    onShowToast("Usage history cleared.", "info");
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm p-4 animate-fadeIn">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl overflow-hidden animate-slideUp flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <h3 className="font-bold text-lg text-slate-800">AI Usage</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          {/* Totals */}
+          <div className="grid grid-cols-3 gap-3">
+            {[
+              { label: 'Calls', value: summary.total.calls.toLocaleString() },
+              { label: 'Tokens', value: formatTokens(summary.total.inputTokens + summary.total.outputTokens) },
+              { label: 'Est. Cost', value: formatCost(summary.total.costUsd) },
+            ].map(stat => (
+              <div key={stat.label} className="bg-slate-50 border border-slate-100 rounded-xl p-4">
+                <p className="text-xs font-bold text-slate-400 uppercase tracking-wider">{stat.label}</p>
+                <p className="text-2xl font-display font-bold text-slate-800 mt-1">{stat.value}</p>
+              </div>
+            ))}
+          </div>
+          {!hasKnownPrice(currentModel) && (
+            <p className="text-xs text-slate-400 -mt-3">
+              No price is known for <span className="font-mono">{currentModel}</span>, so its calls count as $0.
+            </p>
+          )}
+
+          {/* Per Feature */}
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">By Feature</label>
+            <div className="space-y-3">
+              {(Object.keys(FEATURE_LABELS) as UsageFeature[]).map(feature => {
+                const totals = summary.byFeature[feature];
+                return (
+                  <div key={feature}>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="font-medium text-slate-700">{FEATURE_LABELS[feature]}</span>
+                      <span className="text-slate-500">
+                        {totals.calls} calls · {formatTokens(totals.inputTokens + totals.outputTokens)} tokens
+                        {totals.calls > 0 && ` · ${Math.round(totals.latencyMs / totals.calls)}ms avg`}
+                        {' · '}<span className="font-bold text-slate-700">{formatCost(totals.costUsd)}</span>
+                      </span>
+                    </div>
+                    <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-slate-700 rounded-full"
+                        style={{ width: `${busiestFeatureCost > 0 ? (totals.costUsd / busiestFeatureCost) * 100 : 0}%` }}
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Per Day */}
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">By Day</label>
+            {summary.byDay.length === 0 ? (
+              <p className="text-sm text-slate-400">No AI calls recorded yet.</p>
+            ) : (
+              <div className="bg-slate-50 border border-slate-100 rounded-xl divide-y divide-slate-100">
+                {summary.byDay.slice(0, MAX_DAYS_SHOWN).map(({ day, totals }) => (
+                  <div key={day} className="flex items-center gap-3 p-3 text-sm">
+                    <span className="font-mono text-xs text-slate-500 w-24 shrink-0">{day}</span>
+                    <div className="flex-1 h-1.5 bg-slate-200 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-emerald-500 rounded-full"
+                        style={{ width: `${busiestDayTokens > 0 ? ((totals.inputTokens + totals.outputTokens) / busiestDayTokens) * 100 : 0}%` }}
+                      />
+                    </div>
+                    <span className="text-slate-500 w-40 text-right shrink-0">
+                      {totals.calls} calls · <span className="font-bold text-slate-700">{formatCost(totals.costUsd)}</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Budget */}
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Budget Cap</label>
+            <div className="flex gap-2">
+              <div className="relative flex-1">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 text-sm">$</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  className="w-full p-3 pl-7 bg-slate-50 border border-slate-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-slate-200 focus:bg-white transition-all font-medium text-slate-800 text-sm"
+                  placeholder="No cap"
+                  value={limit}
+                  onChange={(e) => setLimit(e.target.value)}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-1 bg-slate-50 border border-slate-200 rounded-xl p-1">
+                {(['day', 'month'] as BudgetPeriod[]).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setPeriod(option)}
+                    className={`text-xs font-bold px-3 rounded-lg transition-all ${
+                      period === option ? 'bg-slate-800 text-white' : 'text-slate-600 hover:bg-white'
+                    }`}
+                  >
+                    per {option}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={handleSaveBudget}
+                className="px-4 bg-slate-900 hover:bg-slate-800 text-white font-bold rounded-xl transition-all text-sm"
+              >
+                Set
+              </button>
+            </div>
+            <p className="text-xs text-slate-400 mt-2">
+              {activeBudget
+                ? `${formatCost(periodSpend)} of $${activeBudget.limitUsd.toFixed(2)} used this ${activeBudget.period}. New AI calls are blocked once the cap is reached.`
+                : 'Leave empty for no cap. Costs are estimates based on public list prices.'}
+            </p>
+          </div>
+        </div>
+
+        <div className="p-6 pt-0 mt-auto">
+          <button
+            onClick={handleClear}
+            disabled={summary.total.calls === 0}
+            className="w-full py-3 bg-white border border-slate-200 hover:border-red-200 hover:text-red-500 text-slate-600 font-bold rounded-xl transition-all disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            <Trash2 size={16} /> Clear Usage History
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
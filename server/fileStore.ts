@@ -0,0 +1,71 @@
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { KeyValueStore } from "../services/keyValueStore.ts";
+import { KitchenDbBackend, StoreName } from "../services/kitchenDb.ts";
+
+/**
+ * File-backed stand-ins for the browser storage the AI wrappers use, so the
+ * server meters usage, enforces the budget, caches responses and records
+ * fixtures like the browser does. Each store is one JSON file, read once at
+ * startup and rewritten whole (via a temp file and rename) on every change.
+ */
+
+const openJsonFile = <T>(path: string) => {
+  let data: Record<string, T> = {};
+  try {
+    data = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (e: any) {
+    if (e?.code !== 'ENOENT') console.error(`Could not read ${path}; starting empty.`, e);
+  }
+  return {
+    data,
+    save() {
+      writeFileSync(`${path}.tmp`, JSON.stringify(data));
+      renameSync(`${path}.tmp`, path);
+    },
+  };
+};
+
+export const createFileKeyValueStore = (dir: string): KeyValueStore => {
+  mkdirSync(dir, { recursive: true });
+  const file = openJsonFile<string>(join(dir, 'storage.json'));
+  return {
+    getItem: (key) => file.data[key] ?? null,
+    setItem: (key, value) => {
+      file.data[key] = value;
+      file.save();
+    },
+    removeItem: (key) => {
+      delete file.data[key];
+      file.save();
+    },
+  };
+};
+
+export const createFileDbBackend = (dir: string): KitchenDbBackend => {
+  mkdirSync(dir, { recursive: true });
+  const files = new Map<StoreName, ReturnType<typeof openJsonFile<unknown>>>();
+  const open = (store: StoreName) => {
+    if (!files.has(store)) files.set(store, openJsonFile<unknown>(join(dir, `${store}.json`)));
+    return files.get(store)!;
+  };
+  return {
+    get: async <T>(store: StoreName, key: string) => open(store).data[key] as T | undefined,
+    put: async (store, key, value) => {
+      const file = open(store);
+      file.data[key] = value;
+      file.save();
+    },
+    delete: async (store, key) => {
+      const file = open(store);
+      delete file.data[key];
+      file.save();
+    },
+    clear: async (store) => {
+      const file = open(store);
+      Object.keys(file.data).forEach(key => delete file.data[key]);
+      file.save();
+    },
+    count: async (store) => Object.keys(open(store).data).length,
+  };
+};
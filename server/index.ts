@@ -0,0 +1,204 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { ApiRoute, ApiErrorBody, ApiStreamEvent } from "../services/apiClient.ts";
+import { AIError, AIErrorKind, classifyError } from "../services/aiErrors.ts";
+import { getProviderConfig } from "../services/aiProvider.ts";
+import { setKeyValueStore } from "../services/keyValueStore.ts";
+import { setKitchenDbBackend } from "../services/kitchenDb.ts";
+import { BudgetPeriod, assertWithinBudget, getBudget, setBudget } from "../services/usageTracker.ts";
+import { ROUTES } from "./routes.ts";
+import { createRateLimiter } from "./rateLimiter.ts";
+import { createFileDbBackend, createFileKeyValueStore } from "./fileStore.ts";
+
+/**
+ * JobCook API server. Holds the provider key server-side and exposes one
+ * POST route per service function under /api. Run with `npm run server`,
+ * or `npm run server:fake` to serve the offline fake provider during
+ * development.
+ *
+ * Calls go through the same provider wrappers as in the browser: usage
+ * metering, the budget cap, the response cache and record/replay, with their
+ * data kept as JSON files in SERVER_DATA_DIR.
+ *
+ * Environment: API_KEY, AI_PROVIDER, AI_MODEL, AI_BASE_URL and
+ * AI_FIXTURE_MODE (as for the client), plus SERVER_PORT, SERVER_RATE_LIMIT
+ * (requests per client per minute), SERVER_CORS_ORIGIN, SERVER_TRUST_PROXY,
+ * SERVER_DATA_DIR, SERVER_BUDGET_USD and SERVER_BUDGET_PERIOD (day or month).
+ */
+
+if (process.argv.includes('--fake')) process.env.AI_PROVIDER = 'fake';
+
+const PORT = Number(process.env.SERVER_PORT) || 8787;
+const RATE_LIMIT = Number(process.env.SERVER_RATE_LIMIT) || 30;
+const CORS_ORIGIN = process.env.SERVER_CORS_ORIGIN;
+const TRUST_PROXY = process.env.SERVER_TRUST_PROXY === 'true';
+const MAX_BODY_BYTES = 20 * 1024 * 1024; // Base64 resumes and audio answers
+const DATA_DIR = process.env.SERVER_DATA_DIR || 'server-data';
+const BUDGET_USD = Number(process.env.SERVER_BUDGET_USD) || 0;
+const BUDGET_PERIOD: BudgetPeriod = process.env.SERVER_BUDGET_PERIOD === 'month' ? 'month' : 'day';
+
+setKeyValueStore(createFileKeyValueStore(DATA_DIR));
+setKitchenDbBackend(createFileDbBackend(DATA_DIR));
+// The environment is the source of truth for the server's cap; unset removes it
+setBudget(BUDGET_USD > 0 ? { limitUsd: BUDGET_USD, period: BUDGET_PERIOD } : null);
+
+const STATUS_BY_KIND: Record<AIErrorKind, number> = {
+  badRequest: 400,
+  budget: 402,
+  safety: 422,
+  rateLimit: 429,
+  unknown: 500,
+  auth: 502, // The server's key is the problem, not the caller's
+  malformed: 502,
+  offline: 502,
+  unavailable: 503,
+  timeout: 504,
+};
+
+const limiter = createRateLimiter({ capacity: RATE_LIMIT, windowMs: 60_000 });
+
+const getClientId = (req: IncomingMessage): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (TRUST_PROXY && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+  return req.socket.remoteAddress || 'unknown';
+};
+
+// The client's default wording points at browser settings the caller can't change here
+const SERVER_MESSAGES: Partial<Record<AIErrorKind, string>> = {
+  budget: "The kitchen's AI budget for this period is used up. Please try again later.",
+};
+
+const toErrorBody = (error: AIError): ApiErrorBody => ({
+  error: { kind: error.kind, message: SERVER_MESSAGES[error.kind] ?? error.message },
+});
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, error: AIError) => {
+  const headers: Record<string, string> = error.retryAfterMs
+    ? { 'Retry-After': String(Math.ceil(error.retryAfterMs / 1000)) }
+    : {};
+  sendJson(res, STATUS_BY_KIND[error.kind], toErrorBody(error), headers);
+};
+
+const readBody = (req: IncomingMessage): Promise<Record<string, unknown>> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new AIError('badRequest', { message: 'Request body is too large.' }));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        const body = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+        if (typeof body !== 'object' || body === null || Array.isArray(body)) throw new Error();
+        resolve(body);
+      } catch {
+        reject(new AIError('badRequest', { message: 'Request body must be a JSON object.' }));
+      }
+    });
+    req.on('error', reject);
+  });
+
+/** Writes progress as NDJSON deltas, falling back to a reset when a retry restarts the text. */
+const handleStream = async (
+  res: ServerResponse,
+  run: (onProgress: (text: string) => void) => Promise<unknown>
+) => {
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+  const write = (event: ApiStreamEvent) => res.write(`${JSON.stringify(event)}\n`);
+  let sent = '';
+
+  try {
+    const result = await run((text) => {
+      write(text.startsWith(sent) ? { type: 'delta', text: text.slice(sent.length) } : { type: 'reset', text });
+      sent = text;
+    });
+    write({ type: 'done', result });
+  } catch (error) {
+    // Headers are already out, so errors travel as a final event
+    write({ type: 'error', ...toErrorBody(classifyError(error)) });
+  }
+  res.end();
+};
+
+const server = createServer(async (req, res) => {
+  if (CORS_ORIGIN) {
+    res.setHeader('Access-Control-Allow-Origin', CORS_ORIGIN);
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  }
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  const url = new URL(req.url || '/', 'http://localhost');
+  if (req.method === 'GET' && url.pathname === '/api/health') {
+    const { provider, model } = getProviderConfig();
+    sendJson(res, 200, { ok: true, provider, model: model || null });
+    return;
+  }
+
+  const route = ROUTES[url.pathname.replace(/^\/api\//, '') as ApiRoute];
+  if (req.method !== 'POST' || !url.pathname.startsWith('/api/') || !route) {
+    sendJson(res, 404, { error: { kind: 'badRequest', message: 'Not found.' } });
+    return;
+  }
+
+  const limit = limiter.take(getClientId(req));
+  if (!limit.allowed) {
+    sendError(res, new AIError('rateLimit', {
+      message: "Too many orders from this kitchen. Please wait a moment.",
+      retryAfterMs: limit.retryAfterMs,
+    }));
+    return;
+  }
+
+  // Refuse before reading the body once the key owner's cap is spent
+  try {
+    assertWithinBudget();
+  } catch (error) {
+    sendError(res, classifyError(error));
+    return;
+  }
+
+  // Stop the provider call if the browser goes away (Stop button, closed tab)
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  try {
+    const body = await readBody(req);
+    if (route.kind === 'stream') {
+      await handleStream(res, (onProgress) => route.handle(body, onProgress, controller.signal));
+    } else {
+      sendJson(res, 200, await route.handle(body, controller.signal));
+    }
+  } catch (error: any) {
+    if (controller.signal.aborted) return;
+    const aiError = classifyError(error);
+    if (aiError.kind === 'unknown') console.error(`${url.pathname} failed:`, error);
+    sendError(res, aiError);
+  }
+});
+
+server.listen(PORT, () => {
+  const { provider } = getProviderConfig();
+  const budget = getBudget();
+  console.log(`JobCook API listening on http://localhost:${PORT}/api (provider: ${provider}, ${RATE_LIMIT} req/min per client)`);
+  if (budget) {
+    console.log(`Budget cap: $${budget.limitUsd.toFixed(2)} per ${budget.period}. Usage is logged in ${DATA_DIR}/.`);
+  } else {
+    console.warn('No budget cap is set. Anyone who can reach this server can spend the key\'s quota; set SERVER_BUDGET_USD.');
+  }
+});
@@ -0,0 +1,44 @@
+/**
+ * Per-client token bucket. Each client may burst up to `capacity` requests
+ * and regains `capacity` tokens per `windowMs`, spread evenly.
+ */
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterMs: number; // 0 when allowed
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export const createRateLimiter = ({ capacity, windowMs }: { capacity: number; windowMs: number }) => {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = capacity / windowMs;
+
+  // Drop clients that have been idle long enough to be back at full capacity
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const [client, bucket] of buckets) {
+      if (now - bucket.updatedAt > windowMs) buckets.delete(client);
+    }
+  }, windowMs);
+  sweep.unref();
+
+  return {
+    take(client: string): RateLimitResult {
+      const now = Date.now();
+      const bucket = buckets.get(client) ?? { tokens: capacity, updatedAt: now };
+      bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+      bucket.updatedAt = now;
+      buckets.set(client, bucket);
+
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return { allowed: true, retryAfterMs: 0 };
+      }
+      return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs) };
+    },
+  };
+};
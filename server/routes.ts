@@ -0,0 +1,162 @@
+import { BulletSuggestion, Ingredient, InterviewMessage } from "../types.ts";
+import { ApiRoute } from "../services/apiClient.ts";
+import { AIError } from "../services/aiErrors.ts";
+import { CoverLetterStyle, LETTER_ANGLES, LETTER_TONES } from "../services/coverLetterOptions.ts";
+import {
+  analyzeDish,
+  researchCompanyStream,
+  cookCoverLetterStream,
+  refineDescription,
+  parseResume,
+  extractJobDescriptionFromImage,
+  getInterviewQuestion,
+  evaluateAnswer,
+  evaluateAudioAnswer,
+  tailorResumeBullets,
+  rewriteLetterPassage,
+  checkLetterClaims,
+} from "../services/geminiService.ts";
+
+/**
+ * One route per geminiService function. Handlers check the request body's
+ * shape before any provider call, so a malformed request never spends quota.
+ */
+
+type Body = Record<string, unknown>;
+
+export type JsonHandler = (body: Body, signal: AbortSignal) => Promise<unknown>;
+export type StreamHandler = (body: Body, onProgress: (text: string) => void, signal: AbortSignal) => Promise<unknown>;
+
+export type RouteDefinition =
+  | { kind: 'json'; handle: JsonHandler }
+  | { kind: 'stream'; handle: StreamHandler };
+
+const MAX_TEXT_LENGTH = 50_000;
+
+const invalid = (message: string) => new AIError('badRequest', { message });
+
+const requireString = (body: Body, field: string): string => {
+  const value = body[field];
+  if (typeof value !== 'string' || !value.trim()) throw invalid(`"${field}" must be a non-empty string.`);
+  if (value.length > MAX_TEXT_LENGTH && field !== 'data') throw invalid(`"${field}" is too long.`);
+  return value;
+};
+
+const requireIngredients = (body: Body): Ingredient[] => {
+  const value = body.ingredients;
+  if (!Array.isArray(value) || value.some(i => typeof i?.name !== 'string' || typeof i?.category !== 'string')) {
+    throw invalid('"ingredients" must be a list of { name, category } items.');
+  }
+  return value;
+};
+
+const requireHistory = (body: Body): InterviewMessage[] => {
+  const value = body.history;
+  if (!Array.isArray(value) || value.some(m => typeof m?.content !== 'string' || (m?.role !== 'chef' && m?.role !== 'candidate'))) {
+    throw invalid('"history" must be a list of interview messages.');
+  }
+  return value;
+};
+
+const requireBullets = (body: Body): BulletSuggestion[] => {
+  const value = body.bullets;
+  if (!Array.isArray(value) || value.length === 0 || value.some(b => typeof b?.id !== 'string' || typeof b?.text !== 'string')) {
+    throw invalid('"bullets" must be a non-empty list of { id, text } items.');
+  }
+  return value;
+};
+
+const requireLetterStyle = (body: Body): CoverLetterStyle => {
+  const style = body.style as Partial<CoverLetterStyle> | undefined;
+  if (
+    !style ||
+    !LETTER_TONES.some(t => t.id === style.tone) ||
+    typeof style.wordCount !== 'number' || style.wordCount < 50 || style.wordCount > 1500 ||
+    typeof style.language !== 'string' || style.language.length > 40 ||
+    !Array.isArray(style.emphasisIds) || style.emphasisIds.some(id => typeof id !== 'string') ||
+    !Number.isInteger(style.angle) || style.angle! < 0 || style.angle! >= LETTER_ANGLES.length
+  ) {
+    throw invalid('"style" must be { tone, wordCount, language, emphasisIds, angle }.');
+  }
+  return style as CoverLetterStyle;
+};
+
+const requireStringList = (body: Body, field: string): string[] => {
+  const value = body[field];
+  if (!Array.isArray(value) || value.length === 0 || value.some(item => typeof item !== 'string' || item.length > MAX_TEXT_LENGTH)) {
+    throw invalid(`"${field}" must be a non-empty list of strings.`);
+  }
+  return value;
+};
+
+const optionalStringList = (body: Body, field: string): string[] => {
+  const value = body[field];
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) throw invalid(`"${field}" must be a list of strings.`);
+  return value;
+};
+
+export const ROUTES: Record<ApiRoute, RouteDefinition> = {
+  'analyze': {
+    kind: 'json',
+    handle: (body, signal) =>
+      analyzeDish(requireIngredients(body), requireString(body, 'jobDescription'), signal, body.forceRefresh === true),
+  },
+  'research': {
+    kind: 'stream',
+    handle: (body, onProgress, signal) =>
+      researchCompanyStream(requireString(body, 'companyName'), requireIngredients(body), onProgress, signal, body.forceRefresh === true),
+  },
+  'cover-letter': {
+    kind: 'stream',
+    handle: (body, onProgress, signal) =>
+      cookCoverLetterStream(requireIngredients(body), requireString(body, 'jobDescription'), requireLetterStyle(body), onProgress, signal),
+  },
+  'refine': {
+    kind: 'json',
+    handle: (body) => refineDescription(requireString(body, 'text'), requireString(body, 'category')),
+  },
+  'parse-resume': {
+    kind: 'json',
+    handle: (body) => parseResume(requireString(body, 'data'), requireString(body, 'mimeType')),
+  },
+  'ocr': {
+    kind: 'json',
+    handle: (body) => extractJobDescriptionFromImage(requireString(body, 'data'), requireString(body, 'mimeType')),
+  },
+  'interview-question': {
+    kind: 'json',
+    handle: (body) =>
+      getInterviewQuestion(requireIngredients(body), requireString(body, 'jobDescription'), requireHistory(body)),
+  },
+  'evaluate-text': {
+    kind: 'json',
+    handle: (body) => evaluateAnswer(requireString(body, 'question'), requireString(body, 'answer')),
+  },
+  'evaluate-audio': {
+    kind: 'json',
+    handle: (body) =>
+      evaluateAudioAnswer(requireString(body, 'question'), requireString(body, 'data'), requireString(body, 'mimeType')),
+  },
+  'tailor-resume': {
+    kind: 'json',
+    handle: (body, signal) =>
+      tailorResumeBullets(requireBullets(body), requireString(body, 'jobDescription'), optionalStringList(body, 'keywords'), signal),
+  },
+  'rewrite-passage': {
+    kind: 'json',
+    handle: (body, signal) =>
+      rewriteLetterPassage(
+        requireString(body, 'passage'),
+        requireString(body, 'letter'),
+        requireString(body, 'instruction'),
+        requireIngredients(body),
+        requireString(body, 'jobDescription'),
+        signal
+      ),
+  },
+  'check-claims': {
+    kind: 'json',
+    handle: (body, signal) => checkLetterClaims(requireStringList(body, 'sentences'), requireIngredients(body), signal),
+  },
+};
@@ -0,0 +1,110 @@
+/**
+ * Typed failures for AI calls. Providers throw whatever their SDK throws;
+ * withRetry runs it through classifyError so the UI only ever sees an AIError
+ * (or the caller's own AbortError when the user pressed Stop).
+ */
+
+export type AIErrorKind =
+  | 'auth'         // Missing/invalid key, 401/403
+  | 'rateLimit'    // 429 / RESOURCE_EXHAUSTED
+  | 'safety'       // Blocked by the provider's safety filters
+  | 'timeout'      // No answer within the per-call timeout
+  | 'offline'      // Browser offline or the request never reached the server
+  | 'malformed'    // Response arrived but could not be read
+  | 'badRequest'   // 400 that is not about the key
+  | 'unavailable'  // 5xx / overloaded
+  | 'budget'       // Blocked locally by the usage budget cap
+  | 'unknown';
+
+const RETRYABLE: AIErrorKind[] = ['rateLimit', 'timeout', 'offline', 'unavailable'];
+
+const FRIENDLY_MESSAGES: Record<AIErrorKind, string> = {
+  auth: "Invalid or missing API Key. Check Kitchen Settings.",
+  rateLimit: "Too many orders at once. The AI provider's rate limit was reached.",
+  safety: "The request was blocked by safety filters. Please adjust the content.",
+  timeout: "The chef took too long to respond.",
+  offline: "Can't reach the kitchen. Check your internet connection.",
+  malformed: "The chef's answer came back garbled.",
+  badRequest: "The AI provider rejected this request.",
+  unavailable: "The kitchen is overloaded right now.",
+  budget: "The kitchen's AI budget is used up. Raise or clear the cap in the Usage panel.",
+  unknown: "The kitchen is experiencing technical difficulties. Please try again.",
+};
+
+export class AIError extends Error {
+  readonly kind: AIErrorKind;
+  readonly status?: number | string;
+  readonly retryAfterMs?: number;
+  readonly detail?: string; // Raw provider message, for logs
+
+  constructor(kind: AIErrorKind, options: { message?: string; status?: number | string; retryAfterMs?: number; detail?: string } = {}) {
+    super(options.message || FRIENDLY_MESSAGES[kind]);
+    this.name = 'AIError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.detail = options.detail;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE.includes(this.kind);
+  }
+}
+
+export const isAIError = (error: unknown): error is AIError => error instanceof AIError;
+
+/** Reads a Retry-After hint from a header value or Gemini's RetryInfo ("retryDelay": "30s"). */
+const parseRetryAfter = (error: any, message: string): number | undefined => {
+  if (typeof error?.retryAfterMs === 'number') return error.retryAfterMs;
+  const match = message.match(/"?retryDelay"?\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Math.round(parseFloat(match[1]) * 1000) : undefined;
+};
+
+export const classifyError = (error: any): AIError => {
+  if (isAIError(error)) return error;
+
+  const code = error?.status || error?.code || error?.error?.code || error?.response?.status;
+  const status = error?.error?.status || (typeof error?.status === 'string' ? error.status : undefined);
+  const message: string = error?.message || error?.error?.message || JSON.stringify(error) || '';
+  const base = { status: code, detail: message };
+
+  if (code === 401 || code === 403 || status === 'PERMISSION_DENIED' || status === 'UNAUTHENTICATED' || /API key/i.test(message)) {
+    return new AIError('auth', base);
+  }
+  if (code === 429 || status === 'RESOURCE_EXHAUSTED' || /rate limit|quota/i.test(message)) {
+    return new AIError('rateLimit', { ...base, retryAfterMs: parseRetryAfter(error, message) });
+  }
+  if (/SAFETY|blocked/i.test(message)) {
+    return new AIError('safety', base);
+  }
+  if (error instanceof SyntaxError) {
+    return new AIError('malformed', base);
+  }
+  if (code === 400 || status === 'INVALID_ARGUMENT') {
+    return new AIError('badRequest', {
+      ...base,
+      message: message.length < 120 ? `${FRIENDLY_MESSAGES.badRequest} ${message}` : undefined,
+    });
+  }
+  if (
+    (typeof code === 'number' && code >= 500) ||
+    code === 'UNAVAILABLE' || status === 'UNAVAILABLE' ||
+    /overloaded|503/.test(message)
+  ) {
+    return new AIError('unavailable', base);
+  }
+  if (
+    (typeof navigator !== 'undefined' && navigator.onLine === false) ||
+    (error instanceof TypeError && /fetch|network/i.test(message))
+  ) {
+    return new AIError('offline', base);
+  }
+  return new AIError('unknown', {
+    ...base,
+    message: message && message.length < 100 ? message : undefined,
+  });
+};
+
+/** Whether offering the user a "Retry" button makes sense for this failure. */
+export const canRetry = (error: unknown): boolean =>
+  isAIError(error) && (error.retryable || error.kind === 'malformed');
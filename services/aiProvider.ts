@@ -0,0 +1,175 @@
+import { createGeminiProvider } from "./providers/geminiProvider.ts";
+import { createOpenAICompatibleProvider } from "./providers/openAICompatibleProvider.ts";
+import { createFakeProvider } from "./providers/fakeProvider.ts";
+import { FixtureMode, createRecordingProvider, createReplayProvider, resetReplay } from "./fixtureStore.ts";
+import { createMeteredProvider } from "./usageTracker.ts";
+import { createCachingProvider } from "./responseCache.ts";
+
+// --- Provider-neutral request/response shapes ---
+
+/**
+ * Every AI feature in the kitchen. Providers receive this so they can
+ * route, label or (in the case of the fake provider) answer by task.
+ */
+export type AITask =
+  | 'analysis'
+  | 'research'
+  | 'coverLetter'
+  | 'refine'
+  | 'resumeParse'
+  | 'jdOcr'
+  | 'interviewQuestion'
+  | 'evaluateText'
+  | 'evaluateAudio'
+  | 'resumeTailor'
+  | 'letterEdit'
+  | 'claimCheck';
+
+export type SchemaType = 'object' | 'array' | 'string' | 'number' | 'boolean';
+
+/** Small JSON-schema subset that every provider can translate. */
+export interface ResponseSchema {
+  type: SchemaType;
+  properties?: Record<string, ResponseSchema>;
+  items?: ResponseSchema;
+  required?: string[];
+}
+
+export interface InlineMedia {
+  mimeType: string;
+  data: string; // base64, no data: prefix
+}
+
+export interface AIRequest {
+  task: AITask;
+  prompt: string;
+  media?: InlineMedia;
+  responseSchema?: ResponseSchema; // When set, the provider must return JSON text
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface AIResponse {
+  text: string;
+  usage?: TokenUsage; // As reported by the provider, when it reports it
+  cachedAt?: number; // Set when served from the response cache
+}
+
+export interface GenerateOptions {
+  signal?: AbortSignal; // Aborts the underlying HTTP request
+  onUsage?: (usage: TokenUsage) => void; // Streams report usage here once it is known
+  forceRefresh?: boolean; // Skip the response cache lookup
+  onCacheHit?: (cachedAt: number) => void; // Streams served from the cache report it here
+}
+
+export interface AIProvider {
+  id: ProviderId;
+  model: string;
+  generate(request: AIRequest, options?: GenerateOptions): Promise<AIResponse>;
+  /** Yields text deltas as they arrive. Only used for plain-text tasks. */
+  generateStream(request: AIRequest, options?: GenerateOptions): AsyncIterable<string>;
+}
+
+// --- Configuration ---
+
+export type ProviderId = 'gemini' | 'openai' | 'fake';
+
+export interface ProviderConfig {
+  provider: ProviderId;
+  model?: string;
+  baseUrl?: string; // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1
+  apiKey?: string;
+  fixtureMode?: FixtureMode; // 'record' captures live calls, 'replay' serves them offline
+}
+
+export const PROVIDER_OPTIONS: { id: ProviderId; label: string; description: string; defaultModel: string }[] = [
+  { id: 'gemini', label: 'Google Gemini', description: 'Hosted Gemini API using the configured key.', defaultModel: 'gemini-2.5-flash' },
+  { id: 'openai', label: 'OpenAI-compatible', description: 'Any /chat/completions endpoint, including local Ollama or LM Studio.', defaultModel: 'llama3.1' },
+  { id: 'fake', label: 'Offline Kitchen', description: 'Deterministic canned answers. No data leaves the browser.', defaultModel: 'fake-chef-1' },
+];
+
+const STORAGE_KEY = 'jobcook_ai_provider';
+
+const isProviderId = (value: unknown): value is ProviderId =>
+  PROVIDER_OPTIONS.some(o => o.id === value);
+
+/**
+ * Build-time defaults (see vite.config.ts), overridable at runtime from the
+ * settings panel. Falls back to Gemini so existing deployments keep working.
+ */
+const getDefaultConfig = (): ProviderConfig => ({
+  provider: isProviderId(process.env.AI_PROVIDER) ? process.env.AI_PROVIDER : 'gemini',
+  model: process.env.AI_MODEL || undefined,
+  baseUrl: process.env.AI_BASE_URL || undefined,
+  fixtureMode: process.env.AI_FIXTURE_MODE === 'record' || process.env.AI_FIXTURE_MODE === 'replay'
+    ? process.env.AI_FIXTURE_MODE
+    : 'live',
+});
+
+export const loadProviderConfig = (): ProviderConfig => {
+  // The API server has no browser storage and is configured from its environment
+  if (typeof localStorage === 'undefined') return getDefaultConfig();
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (isProviderId(parsed?.provider)) return parsed;
+    }
+  } catch (e) {
+    console.error("Failed to load AI provider settings", e);
+  }
+  return getDefaultConfig();
+};
+
+let activeConfig: ProviderConfig | null = null;
+let activeProvider: AIProvider | null = null;
+
+export const getProviderConfig = (): ProviderConfig => {
+  if (!activeConfig) activeConfig = loadProviderConfig();
+  return activeConfig;
+};
+
+export const setProviderConfig = (config: ProviderConfig) => {
+  activeConfig = config;
+  activeProvider = null;
+  resetReplay();
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  } catch (e) {
+    console.error("Failed to save AI provider settings", e);
+  }
+};
+
+export const createProvider = (config: ProviderConfig): AIProvider => {
+  const model = config.model || PROVIDER_OPTIONS.find(o => o.id === config.provider)!.defaultModel;
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAICompatibleProvider({ ...config, model });
+    case 'fake':
+      return createFakeProvider(model);
+    default:
+      return createGeminiProvider({ model, apiKey: config.apiKey || process.env.API_KEY });
+  }
+};
+
+/**
+ * The provider every service call goes through, wrapped for record/replay if
+ * enabled. Live and recorded calls are metered; replayed ones cost nothing.
+ * Only live calls use the response cache, so recordings see every request.
+ * The API server wraps its provider the same way, after installing
+ * file-backed storage for the wrappers (server/fileStore.ts).
+ */
+export const getProvider = (): AIProvider => {
+  if (!activeProvider) {
+    const config = getProviderConfig();
+    const provider = createProvider(config);
+    activeProvider =
+      config.fixtureMode === 'record' ? createMeteredProvider(createRecordingProvider(provider)) :
+      config.fixtureMode === 'replay' ? createReplayProvider(provider) :
+      createCachingProvider(createMeteredProvider(provider));
+  }
+  return activeProvider;
+};
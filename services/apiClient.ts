@@ -0,0 +1,134 @@
+import { AIError, AIErrorKind, classifyError } from "./aiErrors.ts";
+import { AITask } from "./aiProvider.ts";
+import { getPromptOverride, listPromptTemplates } from "./promptRegistry.ts";
+
+/**
+ * Client for the JobCook API server (server/index.ts). When AI_PROXY_URL is
+ * set at build time, every geminiService function posts its arguments here
+ * instead of calling the provider, so the API key stays on the server.
+ *
+ * Streaming routes answer with newline-delimited JSON events (see
+ * ApiStreamEvent); everything else is a single JSON body.
+ */
+
+export type ApiRoute =
+  | 'analyze'
+  | 'research'
+  | 'cover-letter'
+  | 'refine'
+  | 'parse-resume'
+  | 'ocr'
+  | 'interview-question'
+  | 'evaluate-text'
+  | 'evaluate-audio'
+  | 'tailor-resume'
+  | 'rewrite-passage'
+  | 'check-claims';
+
+/** The prompt each route renders on the server. */
+const ROUTE_TASKS: Record<ApiRoute, AITask> = {
+  'analyze': 'analysis',
+  'research': 'research',
+  'cover-letter': 'coverLetter',
+  'refine': 'refine',
+  'parse-resume': 'resumeParse',
+  'ocr': 'jdOcr',
+  'interview-question': 'interviewQuestion',
+  'evaluate-text': 'evaluateText',
+  'evaluate-audio': 'evaluateAudio',
+  'tailor-resume': 'resumeTailor',
+  'rewrite-passage': 'letterEdit',
+  'check-claims': 'claimCheck',
+};
+
+export interface ApiErrorBody {
+  error: { kind: AIErrorKind; message: string };
+}
+
+export type ApiStreamEvent =
+  | { type: 'delta'; text: string } // Append to the text so far
+  | { type: 'reset'; text: string } // A retry restarted the text; replace it
+  | { type: 'done'; result: unknown }
+  | ({ type: 'error' } & ApiErrorBody);
+
+/** Only the browser build talks to the proxy; the server itself calls the provider. */
+export const isProxyEnabled = (): boolean =>
+  typeof window !== 'undefined' && !!process.env.AI_PROXY_URL;
+
+const buildUrl = (route: ApiRoute) => `${(process.env.AI_PROXY_URL || '').replace(/\/+$/, '')}/${route}`;
+
+const toAIError = (body: Partial<ApiErrorBody> | null, res: Response): AIError => {
+  const retryAfter = Number(res.headers.get('retry-after'));
+  return new AIError(body?.error?.kind || 'unknown', {
+    message: body?.error?.message,
+    status: res.status,
+    retryAfterMs: retryAfter > 0 ? retryAfter * 1000 : undefined,
+  });
+};
+
+/**
+ * The server renders the built-in prompts only. Rather than quietly ignore a
+ * custom template, calls for its task are refused until it is reset.
+ */
+const assertNoPromptOverride = (route: ApiRoute) => {
+  const task = ROUTE_TASKS[route];
+  if (!getPromptOverride(task)) return;
+  const label = listPromptTemplates().find(t => t.task === task)?.label ?? task;
+  throw new AIError('badRequest', {
+    message: `The API server uses the built-in prompts, so your custom "${label}" prompt can't be applied. Reset it in Kitchen Settings to continue.`,
+  });
+};
+
+const post = async (route: ApiRoute, body: unknown, signal?: AbortSignal): Promise<Response> => {
+  assertNoPromptOverride(route);
+  let res: Response;
+  try {
+    res = await fetch(buildUrl(route), {
+      method: 'POST',
+      signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw classifyError(error);
+  }
+  if (!res.ok) throw toAIError(await res.json().catch(() => null), res);
+  return res;
+};
+
+export const callApi = async <T>(route: ApiRoute, body: unknown, signal?: AbortSignal): Promise<T> => {
+  const res = await post(route, body, signal);
+  return res.json();
+};
+
+/** Posts to a streaming route; onProgress receives the full text so far. */
+export const streamApi = async <T>(
+  route: ApiRoute,
+  body: unknown,
+  onProgress: (text: string) => void,
+  signal?: AbortSignal
+): Promise<T> => {
+  const res = await post(route, body, signal);
+  if (!res.body) throw new AIError('malformed', { detail: 'Empty stream from the API server' });
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let text = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const event: ApiStreamEvent = JSON.parse(line);
+      if (event.type === 'error') throw toAIError(event, res);
+      if (event.type === 'done') return event.result as T;
+      text = event.type === 'reset' ? event.text : text + event.text;
+      onProgress(text);
+    }
+  }
+  throw new AIError('malformed', { detail: 'The API server closed the stream without a result' });
+};
@@ -0,0 +1,134 @@
+import { Application, ChefState, CoverLetterDraft, InterviewSession, PipelineStage } from "../types.ts";
+import { toDayKey } from "./usageTracker.ts";
+
+/**
+ * Helpers for the application workspace. All updates go through
+ * patchApplication with an explicit id, so an AI call that finishes after
+ * the user switched applications still lands on the one that started it.
+ */
+
+export const createId = () => Date.now().toString() + Math.random().toString(36).substr(2, 9);
+
+export const createApplication = (fields: Partial<Application> = {}): Application => {
+  const now = new Date().toISOString();
+  return {
+    id: createId(),
+    title: '',
+    jobDescription: '',
+    companyName: '',
+    analysis: null,
+    companyResearch: null,
+    coverLetters: [],
+    activeCoverLetterId: null,
+    interviewSessions: [],
+    activeInterviewSessionId: null,
+    archived: false,
+    stage: 'saved',
+    stageHistory: { saved: now },
+    deadline: null,
+    followUpDate: null,
+    profileId: null,
+    resume: null,
+    letterRecipient: null,
+    coverLetterOptions: null,
+    createdAt: now,
+    updatedAt: now,
+    ...fields,
+  };
+};
+
+/** Copies the job, analysis, letters with their recipient and options, tailored resume and deadline. Interview practice and pipeline progress stay with the original. */
+export const duplicateApplication = (source: Application): Application => {
+  const coverLetters = source.coverLetters.map(draft => ({ ...draft, id: createId() }));
+  const activeIndex = source.coverLetters.findIndex(draft => draft.id === source.activeCoverLetterId);
+  return createApplication({
+    title: `${getApplicationTitle(source)} (copy)`,
+    jobDescription: source.jobDescription,
+    companyName: source.companyName,
+    analysis: source.analysis,
+    companyResearch: source.companyResearch,
+    coverLetters,
+    activeCoverLetterId: activeIndex >= 0 ? coverLetters[activeIndex].id : null,
+    deadline: source.deadline,
+    profileId: source.profileId,
+    resume: source.resume,
+    letterRecipient: source.letterRecipient,
+    coverLetterOptions: source.coverLetterOptions,
+  });
+};
+
+export const getApplicationTitle = (application: Application): string =>
+  application.title.trim() || application.companyName || 'Untitled Application';
+
+export const getActiveApplication = (state: ChefState): Application =>
+  state.applications.find(a => a.id === state.activeApplicationId) ?? state.applications[0];
+
+export const getActiveCoverLetter = (application: Application): CoverLetterDraft | null =>
+  application.coverLetters.find(d => d.id === application.activeCoverLetterId) ??
+  application.coverLetters[application.coverLetters.length - 1] ??
+  null;
+
+export const getActiveInterviewSession = (application: Application): InterviewSession | null =>
+  application.interviewSessions.find(s => s.id === application.activeInterviewSessionId) ??
+  application.interviewSessions[application.interviewSessions.length - 1] ??
+  null;
+
+/** Applies a partial update to one application and bumps its updatedAt. */
+export const patchApplication = (
+  state: ChefState,
+  id: string,
+  patch: Partial<Application> | ((application: Application) => Partial<Application>)
+): ChefState => ({
+  ...state,
+  applications: state.applications.map(application =>
+    application.id === id
+      ? {
+          ...application,
+          ...(typeof patch === 'function' ? patch(application) : patch),
+          updatedAt: new Date().toISOString(),
+        }
+      : application
+  ),
+});
+
+/** Archiving the selected application moves the selection to the most recently updated open one. */
+export const setArchived = (state: ChefState, id: string, archived: boolean): ChefState => {
+  const next = patchApplication(state, id, { archived });
+  if (!archived || next.activeApplicationId !== id) return next;
+
+  const fallback = next.applications
+    .filter(a => !a.archived)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0];
+  if (fallback) return { ...next, activeApplicationId: fallback.id };
+
+  const fresh = createApplication();
+  return { ...next, applications: [...next.applications, fresh], activeApplicationId: fresh.id };
+};
+
+// --- Pipeline ---
+
+export const PIPELINE_STAGES: { id: PipelineStage; label: string }[] = [
+  { id: 'saved', label: 'Saved' },
+  { id: 'applied', label: 'Applied' },
+  { id: 'screening', label: 'Screening' },
+  { id: 'interview', label: 'Interview' },
+  { id: 'offer', label: 'Offer' },
+  { id: 'rejected', label: 'Rejected' },
+  { id: 'withdrawn', label: 'Withdrawn' },
+];
+
+/** Stages where there is nothing left to chase. */
+export const CLOSED_STAGES: PipelineStage[] = ['rejected', 'withdrawn'];
+
+export const moveToStage = (state: ChefState, id: string, stage: PipelineStage): ChefState =>
+  patchApplication(state, id, application =>
+    application.stage === stage
+      ? {}
+      : { stage, stageHistory: { ...application.stageHistory, [stage]: new Date().toISOString() } }
+  );
+
+/** A deadline only matters until the application is sent; a follow-up until the process closes. */
+export const getOverdue = (application: Application, today = toDayKey(Date.now())) => ({
+  deadline: !!application.deadline && application.stage === 'saved' && application.deadline < today,
+  followUp: !!application.followUpDate && !CLOSED_STAGES.includes(application.stage) && application.followUpDate < today,
+});
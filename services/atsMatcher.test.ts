@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Ingredient } from "../types.ts";
+import { matchKeywords, stem } from "./atsMatcher.ts";
+
+const ingredient = (fields: Partial<Ingredient> & Pick<Ingredient, 'id' | 'name'>): Ingredient => ({
+  category: 'skill',
+  ...fields,
+});
+
+const termsOf = (jobDescription: string, ingredients: Ingredient[] = []) => {
+  const result = matchKeywords(jobDescription, ingredients);
+  return [...result.matched, ...result.missing].filter(t => t.isSkill).map(t => t.term);
+};
+
+const jobDescription = `Frontend Engineer. We build dashboards in ReactJS and TypeScript, deployed to Amazon Web Services.
+You will own release management and communicate roadmap changes. JS and JavaScript fundamentals; Kubernetes is a plus.`;
+
+const pantry: Ingredient[] = [
+  ingredient({ id: 'react', name: 'React.js' }),
+  ingredient({ id: 'js', name: 'JavaScript ES6' }),
+  ingredient({
+    id: 'acme',
+    name: 'Frontend Engineer at Acme',
+    category: 'experience',
+    role: 'Frontend Engineer',
+    organization: 'Acme',
+    bullets: ['Managed weekly releases on AWS', 'Built internal dashboards', 'Communicated roadmaps to sales'],
+  }),
+];
+
+test('stems line up inflected forms of the same word', () => {
+  assert.deepEqual(['managed', 'managing', 'management'].map(stem), ['manag', 'manag', 'manag']);
+  assert.equal(stem('communicated'), stem('communication'));
+  assert.equal(stem('releases'), stem('release'));
+});
+
+test('job description words match pantry text by stem', () => {
+  const { matched } = matchKeywords(jobDescription, pantry);
+  const matchedIn = Object.fromEntries(matched.map(t => [t.term, t.matchedIn]));
+  // "management" / "Managed", "communicate" / "Communicated", "roadmap" / "roadmaps"
+  assert.equal(matchedIn.management, 'Frontend Engineer at Acme');
+  assert.equal(matchedIn.communicate, 'Frontend Engineer at Acme');
+  assert.equal(matchedIn.roadmap, 'Frontend Engineer at Acme');
+});
+
+test('aliases fold into one canonical skill on both sides', () => {
+  const { matched } = matchKeywords(jobDescription, pantry);
+  // "JS" and "JavaScript" in the posting are one term, covered by the "JavaScript ES6" card
+  assert.deepEqual(matched.find(t => t.term === 'JavaScript'), {
+    term: 'JavaScript', weight: 4, count: 2, isSkill: true, matchedIn: 'JavaScript ES6',
+  });
+  assert.equal(matched.find(t => t.term === 'React')?.matchedIn, 'React.js');
+  assert.equal(matched.find(t => t.term === 'AWS')?.matchedIn, 'Frontend Engineer at Acme');
+});
+
+test('the score for a fixed job description and pantry is pinned', () => {
+  const result = matchKeywords(jobDescription, pantry);
+  assert.equal(result.score, 63);
+  assert.deepEqual(result.matched.map(t => t.term), [
+    'JavaScript', 'AWS', 'React', 'communicate', 'dashboards', 'engineer', 'frontend', 'management', 'release', 'roadmap',
+  ]);
+  assert.deepEqual(result.missing.map(t => t.term), ['Kubernetes', 'TypeScript', 'build', 'changes', 'deployed', 'fundamentals', 'own']);
+  assert.equal(result.missing.find(t => t.term === 'TypeScript')?.related, 'JavaScript');
+  assert.deepEqual(matchKeywords(jobDescription, pantry), result);
+});
+
+test('ordinary words that are also skill aliases are not read as skills', () => {
+  const terms = termsOf('You will partner with the rest of the design group on a graph node and edge node layout.');
+  assert.equal(terms.includes('REST APIs'), false);
+  assert.equal(terms.includes('Node.js'), false);
+});
+
+test('REST APIs and Node.js are still recognised when written out', () => {
+  assert.deepEqual(termsOf('Design RESTful services and REST APIs.'), ['REST APIs']);
+  assert.deepEqual(termsOf('Backend in Node.js (nodejs 20).'), ['Node.js']);
+});
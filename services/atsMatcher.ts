@@ -0,0 +1,165 @@
+import { Ingredient, AtsMatchResult, AtsTerm } from "../types.ts";
+import { describeIngredient } from "./ingredientFields.ts";
+import { SKILL_TAXONOMY, SkillGroup, findSkill, pantrySkills } from "./skillTaxonomy.ts";
+
+/**
+ * Deterministic, explainable keyword matcher. Same job description + same
+ * pantry always gives the same score, unlike the model's matchScore.
+ *
+ * 1. Extract terms from the job description: skills from the taxonomy
+ *    under any of their spellings, plus frequent non-generic words.
+ * 2. Stem everything and look each term up in the pantry's text fields.
+ * 3. Score = matched weight / total weight, where known skills weigh double
+ *    and repeated terms weigh more (capped). A missing skill notes a pantry
+ *    skill from the same taxonomy group, which doesn't count towards the score.
+ */
+
+const STOPWORDS = new Set([
+  'a', 'about', 'above', 'across', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been',
+  'being', 'both', 'but', 'by', 'can', 'could', 'do', 'does', 'each', 'either', 'etc', 'for', 'from', 'has', 'have',
+  'how', 'if', 'in', 'including', 'into', 'is', 'it', 'its', 'may', 'more', 'most', 'must', 'not', 'of', 'on',
+  'one', 'or', 'other', 'our', 'out', 'over', 'per', 'plus', 'should', 'so', 'such', 'than', 'that', 'the',
+  'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'to', 'up', 'us', 'using',
+  'very', 'via', 'was', 'we', 'well', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'why', 'will',
+  'with', 'within', 'without', 'would', 'you', 'your',
+  // Generic job-posting vocabulary that says nothing about fit
+  'ability', 'able', 'applicant', 'apply', 'benefit', 'candidate', 'company', 'day', 'environment', 'equal',
+  'experience', 'help', 'ideal', 'job', 'join', 'looking', 'new', 'opportunity', 'plus', 'position', 'preferred',
+  'qualification', 'require', 'requirement', 'responsibility', 'role', 'skill', 'strong', 'team', 'work',
+  'working', 'year', 'years', 'good', 'great', 'excellent', 'knowledge', 'understanding', 'familiarity',
+]);
+
+const MAX_TERMS = 30;
+const MAX_FREQUENCY_WEIGHT = 3;
+
+/**
+ * Light suffix stripper. Not a full Porter stemmer, but stable and good
+ * enough to line up "managed" / "managing" / "management" and
+ * "communicated" / "communication".
+ */
+export const stem = (word: string): string => {
+  let w = word.toLowerCase();
+  if (w.length <= 4) return w;
+  for (const [suffix, replacement] of [
+    ['ational', 'ate'], ['ization', 'ize'], ['ations', 'ate'], ['ation', 'ate'], ['iveness', 'ive'], ['fulness', 'ful'],
+    ['ments', ''], ['ment', ''], ['ings', ''], ['ing', ''], ['ies', 'y'], ['ied', 'y'],
+    ['ers', ''], ['er', ''], ['ed', ''], ['es', ''], ['ly', ''], ['s', ''],
+  ] as const) {
+    if (w.endsWith(suffix) && w.length - suffix.length >= 3) {
+      w = w.slice(0, w.length - suffix.length) + replacement;
+      break;
+    }
+  }
+  // "manage" / "managed" / "management" all end up as "manag"
+  return w.length > 4 && w.endsWith('e') ? w.slice(0, -1) : w;
+};
+
+/** Lowercased word tokens. Keeps symbols that matter in tech names (c++, c#, node.js, ci/cd). */
+const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[a-z0-9][a-z0-9+#./-]*[a-z0-9+#]|[a-z0-9]/g) || [])
+    .map(token => token.replace(/[./-]+$/, ''));
+
+const stemTokens = (text: string): string[] => tokenize(text).map(stem);
+
+/** True when `phrase` appears as a contiguous run of stems in `haystack`. */
+const containsPhrase = (haystack: string[], phrase: string[]): boolean => {
+  if (phrase.length === 0) return false;
+  outer: for (let i = 0; i <= haystack.length - phrase.length; i++) {
+    for (let j = 0; j < phrase.length; j++) {
+      if (haystack[i + j] !== phrase[j]) continue outer;
+    }
+    return true;
+  }
+  return false;
+};
+
+const countPhrase = (haystack: string[], phrase: string[]): number => {
+  let count = 0;
+  for (let i = 0; i <= haystack.length - phrase.length; i++) {
+    if (phrase.every((part, j) => haystack[i + j] === part)) count++;
+  }
+  return count;
+};
+
+interface CandidateTerm {
+  term: string;
+  variants: string[][]; // Stemmed token sequences that count as this term
+  count: number;
+  isSkill: boolean;
+  group?: SkillGroup;
+}
+
+const STOPWORD_STEMS = new Set([...STOPWORDS].map(stem));
+
+const extractTerms = (jobDescription: string): CandidateTerm[] => {
+  const jdStems = stemTokens(jobDescription);
+  const terms: CandidateTerm[] = [];
+  const claimed = new Set<string>();
+
+  // 1. Known skills, matched by canonical name or any alias
+  for (const skill of SKILL_TAXONOMY) {
+    const variants = (skill.inText ?? [skill.name, ...skill.aliases]).map(stemTokens);
+    const count = variants.reduce((sum, variant) => sum + countPhrase(jdStems, variant), 0);
+    if (count > 0) {
+      terms.push({ term: skill.name, variants, count, isSkill: true, group: skill.group });
+      variants.forEach(variant => variant.forEach(part => claimed.add(part)));
+    }
+  }
+
+  // 2. Remaining frequent words
+  const frequencies = new Map<string, { count: number; surface: string }>();
+  for (const token of tokenize(jobDescription)) {
+    const stemmed = stem(token);
+    if (STOPWORDS.has(token) || STOPWORD_STEMS.has(stemmed) || claimed.has(stemmed)) continue;
+    if (token.length < 3 || /^\d+$/.test(token)) continue;
+    const entry = frequencies.get(stemmed);
+    if (entry) entry.count++;
+    else frequencies.set(stemmed, { count: 1, surface: token });
+  }
+
+  const words = [...frequencies.entries()]
+    .sort((a, b) => b[1].count - a[1].count || a[0].localeCompare(b[0]))
+    .slice(0, Math.max(0, MAX_TERMS - terms.length))
+    .map(([stemmed, { count, surface }]) => ({ term: surface, variants: [[stemmed]], count, isSkill: false }));
+
+  return [...terms, ...words];
+};
+
+export const matchKeywords = (jobDescription: string, ingredients: Ingredient[]): AtsMatchResult => {
+  const candidates = extractTerms(jobDescription);
+  const pantry = ingredients.map(ingredient => ({
+    name: ingredient.name,
+    stems: stemTokens(describeIngredient(ingredient)),
+  }));
+
+  // Skills the pantry has under any spelling, including ones only short names spell ("Go")
+  const covered = pantrySkills(ingredients);
+  const skills = [...covered.keys()];
+  const matched: AtsTerm[] = [];
+  const missing: AtsTerm[] = [];
+  let totalWeight = 0;
+  let matchedWeight = 0;
+
+  for (const candidate of candidates) {
+    const weight = (candidate.isSkill ? 2 : 1) * Math.min(candidate.count, MAX_FREQUENCY_WEIGHT);
+    totalWeight += weight;
+
+    const source = (candidate.isSkill ? covered.get(candidate.term) : undefined)
+      ?? pantry.find(item => candidate.variants.some(variant => containsPhrase(item.stems, variant)));
+    const term: AtsTerm = { term: candidate.term, weight, count: candidate.count, isSkill: candidate.isSkill };
+    if (source) {
+      matchedWeight += weight;
+      matched.push({ ...term, matchedIn: source.name });
+    } else {
+      const related = candidate.group && skills.find(skill => findSkill(skill)?.group === candidate.group);
+      missing.push(related ? { ...term, related } : term);
+    }
+  }
+
+  const byWeight = (a: AtsTerm, b: AtsTerm) => b.weight - a.weight || a.term.localeCompare(b.term);
+  return {
+    score: totalWeight > 0 ? Math.round((matchedWeight / totalWeight) * 100) : 0,
+    matched: matched.sort(byWeight),
+    missing: missing.sort(byWeight),
+  };
+};
@@ -0,0 +1,91 @@
+import { ClaimCheck, Ingredient, LetterClaim } from "../types.ts";
+import { describeIngredient } from "./ingredientFields.ts";
+import { hashString } from "./hashing.ts";
+import { splitDraftParagraphs } from "./letterBuilder.ts";
+
+/**
+ * Checks a cover letter's claims against the pantry before it's sent. The
+ * letter is split into sentences locally, so every verdict maps back to an
+ * exact span of the letter, and figures are cross-checked here as well:
+ * a number that appears nowhere in the pantry is never left as supported.
+ */
+
+const SENTENCE_BREAK = /(?<=[.!?]["”’)]?)\s+(?=["“‘(]?[\p{Lu}\p{N}])|(?<=[。！？])/u;
+
+/** One line of Markdown as plain text: no heading, list or emphasis markers. */
+const plainLine = (line: string): string =>
+  line
+    .trim()
+    .replace(/^#{1,6}\s+/, '')
+    .replace(/^>\s*/, '')
+    .replace(/^(?:[-*+•]|\d+[.)])\s+/, '')
+    .replace(/(\*\*|__|\*|_|`)(.+?)\1/g, '$2')
+    .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1')
+    .trim();
+
+/** A paragraph's lines, each split into sentences, as the review view shows them. */
+export const paragraphSentences = (paragraph: string): string[][] =>
+  paragraph
+    .split('\n')
+    .map(plainLine)
+    .filter(line => line && !/^([-*_])\1{2,}$/.test(line))
+    .map(line => line.split(SENTENCE_BREAK).map(s => s.trim()).filter(Boolean));
+
+/** Sentences long enough to carry a claim; salutations and sign-offs fall below the cut. */
+export const claimSentences = (letterText: string): string[] => {
+  const sentences = splitDraftParagraphs(letterText).flatMap(paragraphSentences).flat();
+  return [...new Set(sentences.filter(sentence => sentence.length >= 20))];
+};
+
+// --- Figures ---
+
+const FIGURE = /\d+(?:[.,]\d+)*/g;
+
+const figuresIn = (text: string): string[] =>
+  (text.match(FIGURE) ?? []).map(figure => figure.replace(/,(?=\d{3}\b)/g, ''));
+
+/** Figures in the sentence that appear nowhere in the pantry. */
+export const unbackedFigures = (sentence: string, ingredients: Ingredient[]): string[] => {
+  const known = new Set(ingredients.flatMap(i => figuresIn(describeIngredient(i))));
+  return [...new Set(figuresIn(sentence))].filter(figure => !known.has(figure));
+};
+
+/** Downgrades "supported" claims that quote figures the pantry doesn't contain. */
+export const flagUnbackedFigures = (claims: LetterClaim[], ingredients: Ingredient[]): LetterClaim[] =>
+  claims.map(claim => {
+    if (claim.verdict !== 'supported') return claim;
+    const figures = unbackedFigures(claim.sentence, ingredients);
+    if (figures.length === 0) return claim;
+    return {
+      ...claim,
+      verdict: 'exaggerated',
+      note: `${figures.map(f => `"${f}"`).join(', ')} ${figures.length > 1 ? "don't" : "doesn't"} appear anywhere in your pantry.`,
+    };
+  });
+
+// --- Results ---
+
+export const createClaimCheck = (letterText: string, claims: LetterClaim[], promptVersion: string): ClaimCheck => ({
+  contentHash: hashString(letterText),
+  claims,
+  promptVersion,
+  checkedAt: new Date().toISOString(),
+});
+
+/** False once the letter has been edited (or its placeholders refilled) since the check. */
+export const isCheckCurrent = (check: ClaimCheck | undefined, letterText: string): check is ClaimCheck =>
+  !!check && check.contentHash === hashString(letterText);
+
+/**
+ * Flagged claims the user hasn't vouched for whose sentence is still in the
+ * letter. Edits that rewrite a flagged sentence clear it, even before a re-check.
+ */
+export const openClaimIssues = (check: ClaimCheck | undefined, letterText: string): LetterClaim[] => {
+  if (!check) return [];
+  const present = new Set(claimSentences(letterText));
+  return check.claims.filter(claim => claim.verdict !== 'supported' && !claim.confirmed && present.has(claim.sentence));
+};
+
+/** The claim for each checked sentence, for highlighting. */
+export const claimsBySentence = (check: ClaimCheck | undefined): Map<string, LetterClaim> =>
+  new Map((check?.claims ?? []).map(claim => [claim.sentence, claim]));
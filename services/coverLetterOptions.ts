@@ -0,0 +1,77 @@
+import { Application, CoverLetterOptions, Ingredient, LetterTone } from "../types.ts";
+
+/**
+ * Style options for cover letters and how they're phrased in the prompt.
+ * A run can ask for up to three alternatives; each one takes a different
+ * opening angle so the drafts are worth comparing side by side.
+ */
+
+export const LETTER_TONES: { id: LetterTone; label: string; instruction: string }[] = [
+  { id: 'formal', label: 'Formal', instruction: 'Formal and polished. Traditional business register, no contractions, measured confidence.' },
+  { id: 'warm', label: 'Warm', instruction: 'Warm and personable. Sincere and conversational while staying professional; let genuine enthusiasm show.' },
+  { id: 'startup', label: 'Startup-casual', instruction: 'Startup-casual. Direct, energetic and plain-spoken, with short sentences and no stiff formalities.' },
+];
+
+/** Openings for the alternatives in a run, in order. */
+export const LETTER_ANGLES: { label: string; instruction: string }[] = [
+  { label: 'Fit-led', instruction: "Open with the candidate's strongest match to the role's core requirements." },
+  { label: 'Story-led', instruction: 'Open with a short, concrete story about one achievement from the profile that this job would value.' },
+  { label: 'Company-led', instruction: "Open with why this company and its mission appeal to the candidate, then connect that to their experience." },
+];
+
+export const WORD_COUNTS = [150, 250, 350, 450];
+
+export const LETTER_LANGUAGES = ['English', 'Spanish', 'French', 'German', 'Portuguese', 'Italian', 'Dutch', 'Chinese', 'Japanese', 'Korean'];
+
+export const MAX_DRAFTS = LETTER_ANGLES.length;
+
+export const DEFAULT_COVER_LETTER_OPTIONS: CoverLetterOptions = {
+  tone: 'formal',
+  wordCount: 350,
+  language: 'English',
+  emphasisIds: [],
+  draftCount: 1,
+};
+
+export const getCoverLetterOptions = (application: Application): CoverLetterOptions =>
+  application.coverLetterOptions ?? DEFAULT_COVER_LETTER_OPTIONS;
+
+/** What one generation call is asked to write: the options plus the alternative's angle. */
+export interface CoverLetterStyle {
+  tone: LetterTone;
+  wordCount: number;
+  language: string;
+  emphasisIds: string[];
+  angle: number; // Index into LETTER_ANGLES
+}
+
+export const styleForDraft = (options: CoverLetterOptions, index: number): CoverLetterStyle => ({
+  tone: options.tone,
+  wordCount: options.wordCount,
+  language: options.language,
+  emphasisIds: options.emphasisIds,
+  angle: index % LETTER_ANGLES.length,
+});
+
+/** Short description shown on the draft, e.g. "Warm · ~300 words · Story-led". */
+export const describeStyle = (style: CoverLetterStyle, showAngle: boolean): string =>
+  [
+    LETTER_TONES.find(t => t.id === style.tone)?.label ?? style.tone,
+    `~${style.wordCount} words`,
+    style.language !== 'English' ? style.language : '',
+    showAngle ? LETTER_ANGLES[style.angle]?.label : '',
+  ].filter(Boolean).join(' · ');
+
+/** Prompt variables for a style. Emphasis ids that aren't in the ingredient list are ignored. */
+export const styleVariables = (style: CoverLetterStyle, ingredients: Ingredient[]): Record<string, string> => {
+  const emphasized = ingredients.filter(i => style.emphasisIds.includes(i.id)).map(i => i.name);
+  return {
+    tone: LETTER_TONES.find(t => t.id === style.tone)?.instruction ?? LETTER_TONES[0].instruction,
+    length: `About ${style.wordCount} words, not counting the subject line, salutation and sign-off.`,
+    language: style.language.trim() || 'English',
+    emphasis: emphasized.length
+      ? `Feature these items prominently: ${emphasized.join('; ')}.`
+      : 'Choose the most relevant items yourself.',
+    angle: (LETTER_ANGLES[style.angle] ?? LETTER_ANGLES[0]).instruction,
+  };
+};
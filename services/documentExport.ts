@@ -0,0 +1,38 @@
+/**
+ * Browser-side file export. PDFs come from the browser's own print dialog
+ * ("Save as PDF"), which renders our HTML exactly as previewed and needs no
+ * PDF library.
+ */
+
+export const downloadFile = (filename: string, content: BlobPart, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** Opens the print dialog for a standalone HTML document without leaving the app. */
+export const printHtml = (html: string, title: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.cssText = 'position:fixed;width:0;height:0;border:0;visibility:hidden';
+  document.body.appendChild(frame);
+  const doc = frame.contentDocument!;
+  doc.open();
+  doc.write(html);
+  doc.close();
+  // The PDF file name defaults to the document title
+  doc.title = title;
+  const print = () => {
+    frame.contentWindow!.focus();
+    frame.contentWindow!.print();
+    // print() blocks until the dialog closes in most browsers; give the rest a moment
+    setTimeout(() => frame.remove(), 1000);
+  };
+  if (doc.readyState === 'complete') print();
+  else frame.onload = print;
+};
@@ -0,0 +1,203 @@
+import { AIProvider, AIRequest, AIResponse, AITask, GenerateOptions, ProviderId, ResponseSchema } from "./aiProvider.ts";
+import { hashString } from "./hashing.ts";
+import { AIError, AIErrorKind, isAIError } from "./aiErrors.ts";
+import { getKeyValueStore } from "./keyValueStore.ts";
+
+/**
+ * Record/replay support for AI calls.
+ *
+ * In record mode every provider attempt (including failed ones such as 503s
+ * or safety blocks) is appended to a fixture keyed by the request. In replay
+ * mode the same sequence is served back with no network access, so withRetry
+ * walks exactly the same branches it did while recording.
+ */
+
+export type FixtureMode = 'live' | 'record' | 'replay';
+
+export interface RecordedError {
+  message: string;
+  status?: number | string;
+  code?: number | string;
+  kind?: AIErrorKind; // Set when the provider already threw a typed AIError
+}
+
+export type FixtureOutcome =
+  | { response: AIResponse }
+  | { error: RecordedError };
+
+export interface AIFixture {
+  key: string;
+  task: AITask;
+  prompt: string;
+  media?: { mimeType: string; hash: number; length: number }; // Raw media is not stored
+  responseSchema?: ResponseSchema;
+  provider: ProviderId;
+  model: string;
+  outcomes: FixtureOutcome[];
+  recordedAt: string;
+}
+
+export interface FixtureFile {
+  version: 1;
+  fixtures: AIFixture[];
+}
+
+const STORAGE_KEY = 'jobcook_ai_fixtures';
+
+export const getFixtureKey = (request: AIRequest): string =>
+  [
+    request.task,
+    hashString(request.prompt),
+    request.media ? hashString(request.media.data) : 'nomedia',
+    request.responseSchema ? hashString(JSON.stringify(request.responseSchema)) : 'noschema',
+  ].join(':');
+
+let fixtures: Record<string, AIFixture> | null = null;
+// Per-key position in the outcome list during replay
+const replayCursors: Record<string, number> = {};
+
+const loadFixtures = (): Record<string, AIFixture> => {
+  if (fixtures) return fixtures;
+  try {
+    const saved = getKeyValueStore().getItem(STORAGE_KEY);
+    fixtures = saved ? JSON.parse(saved) : {};
+  } catch (e) {
+    console.error("Failed to load AI fixtures from storage", e);
+    fixtures = {};
+  }
+  return fixtures!;
+};
+
+const saveFixtures = () => {
+  try {
+    getKeyValueStore().setItem(STORAGE_KEY, JSON.stringify(loadFixtures()));
+  } catch (e) {
+    console.error("Failed to save AI fixtures to storage", e);
+  }
+};
+
+export const getFixtureCount = (): number => Object.keys(loadFixtures()).length;
+
+export const clearFixtures = () => {
+  fixtures = {};
+  resetReplay();
+  saveFixtures();
+};
+
+export const resetReplay = () => {
+  Object.keys(replayCursors).forEach(key => delete replayCursors[key]);
+};
+
+export const exportFixtures = (): FixtureFile => ({
+  version: 1,
+  fixtures: Object.values(loadFixtures()),
+});
+
+export const importFixtures = (file: FixtureFile) => {
+  if (file?.version !== 1 || !Array.isArray(file.fixtures)) {
+    throw new Error("This doesn't look like a JobCook fixture file.");
+  }
+  fixtures = Object.fromEntries(file.fixtures.map(f => [f.key, f]));
+  resetReplay();
+  saveFixtures();
+};
+
+const toRecordedError = (error: any): RecordedError => ({
+  message: error?.message || error?.error?.message || JSON.stringify(error),
+  status: error?.status ?? error?.error?.status,
+  code: error?.code ?? error?.error?.code,
+  kind: isAIError(error) ? error.kind : undefined,
+});
+
+const fromRecordedError = (recorded: RecordedError) => {
+  if (recorded.kind) {
+    return new AIError(recorded.kind, { message: recorded.message, status: recorded.status });
+  }
+  const error: any = new Error(recorded.message);
+  error.status = recorded.status;
+  error.code = recorded.code;
+  return error;
+};
+
+const recordOutcome = (provider: AIProvider, request: AIRequest, outcome: FixtureOutcome) => {
+  const store = loadFixtures();
+  const key = getFixtureKey(request);
+  const existing = store[key];
+  store[key] = {
+    key,
+    task: request.task,
+    prompt: request.prompt,
+    media: request.media
+      ? { mimeType: request.media.mimeType, hash: hashString(request.media.data), length: request.media.data.length }
+      : undefined,
+    responseSchema: request.responseSchema,
+    provider: provider.id,
+    model: provider.model,
+    // A new recording session for this key starts over once the previous one succeeded
+    outcomes: existing && !('response' in existing.outcomes[existing.outcomes.length - 1])
+      ? [...existing.outcomes, outcome]
+      : [outcome],
+    recordedAt: new Date().toISOString(),
+  };
+  saveFixtures();
+};
+
+/** Wraps a live provider and writes every attempt to the fixture store. */
+export const createRecordingProvider = (inner: AIProvider): AIProvider => ({
+  ...inner,
+  generate: async (request: AIRequest, options?: GenerateOptions) => {
+    try {
+      const response = await inner.generate(request, options);
+      recordOutcome(inner, request, { response });
+      return response;
+    } catch (error) {
+      if (!options?.signal?.aborted) recordOutcome(inner, request, { error: toRecordedError(error) });
+      throw error;
+    }
+  },
+  generateStream: async function* (request: AIRequest, options?: GenerateOptions) {
+    // Streams are stored as their final text and re-chunked on replay
+    let text = '';
+    try {
+      for await (const chunk of inner.generateStream(request, options)) {
+        text += chunk;
+        yield chunk;
+      }
+      recordOutcome(inner, request, { response: { text } });
+    } catch (error) {
+      if (!options?.signal?.aborted) recordOutcome(inner, request, { error: toRecordedError(error) });
+      throw error;
+    }
+  },
+});
+
+const nextOutcome = (request: AIRequest): FixtureOutcome => {
+  const key = getFixtureKey(request);
+  const fixture = loadFixtures()[key];
+  if (!fixture) {
+    throw new Error(`No recorded fixture for this ${request.task} request. Record it first.`);
+  }
+
+  const cursor = replayCursors[key] ?? 0;
+  // Once the sequence is exhausted, keep serving the final outcome
+  replayCursors[key] = cursor + 1;
+  return fixture.outcomes[Math.min(cursor, fixture.outcomes.length - 1)];
+};
+
+/** Serves recorded outcomes in order. Never touches the network. */
+export const createReplayProvider = (inner: AIProvider): AIProvider => ({
+  ...inner,
+  generate: async (request: AIRequest) => {
+    const outcome = nextOutcome(request);
+    if ('error' in outcome) throw fromRecordedError(outcome.error);
+    return outcome.response;
+  },
+  generateStream: async function* (request: AIRequest, options?: GenerateOptions) {
+    const outcome = nextOutcome(request);
+    if ('error' in outcome) throw fromRecordedError(outcome.error);
+    for (const word of outcome.response.text.split(/(?<=\s)/)) {
+      options?.signal?.throwIfAborted();
+      yield word;
+    }
+  },
+});
@@ -1,314 +1,514 @@
-import { GoogleGenAI, Type, GenerateContentResponse } from "@google/genai";
-import { Ingredient, DishAnalysis, CompanyResearchResult, InterviewMessage } from "../types.ts";
+import { Ingredient, DishAnalysis, CompanyResearchResult, InterviewMessage, AnswerEvaluation, AudioAnswerEvaluation, GeneratedText, BulletSuggestion, LetterClaim } from "../types.ts";
+import { getProvider, AIRequest, AIResponse, AITask } from "./aiProvider.ts";
+import { AIError, classifyError } from "./aiErrors.ts";
+import { sleep } from "./timing.ts";
+import {
+  Validator,
+  validateJsonText,
+  validateDishAnalysis,
+  validateAnswerEvaluation,
+  validateAudioAnswerEvaluation,
+  validateParsedIngredients,
+  validateBulletRewrites,
+  validateRefineVariations,
+  validatePassageSuggestions,
+  validateLetterClaims,
+} from "./responseValidation.ts";
+import { renderPrompt } from "./promptRegistry.ts";
+import { isProxyEnabled, callApi, streamApi } from "./apiClient.ts";
+import { describeIngredient } from "./ingredientFields.ts";
+import { withoutHistory } from "./revisions.ts";
+import { CoverLetterStyle, styleVariables } from "./coverLetterOptions.ts";
+import { flagUnbackedFigures } from "./claimCheck.ts";
+
+interface RetryOptions {
+  retries?: number;
+  baseDelay?: number;
+  timeoutMs?: number; // Per attempt
+  signal?: AbortSignal; // Caller cancellation (Stop button)
+}
+
+/** Per-task timeouts. Media tasks upload files and need longer. */
+const TASK_TIMEOUTS: Record<AITask, number> = {
+  analysis: 60_000,
+  research: 90_000,
+  coverLetter: 90_000,
+  refine: 45_000,
+  resumeParse: 120_000,
+  jdOcr: 60_000,
+  interviewQuestion: 45_000,
+  evaluateText: 45_000,
+  evaluateAudio: 90_000,
+  resumeTailor: 90_000,
+  letterEdit: 45_000,
+  claimCheck: 60_000,
+};
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+/**
+ * Runs one attempt with its own timeout. The attempt's signal aborts on either
+ * the timeout or the caller's signal; the two are told apart afterwards.
+ */
+const attemptWithTimeout = async <T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  outer?: AbortSignal
+): Promise<T> => {
+  outer?.throwIfAborted();
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onOuterAbort = () => controller.abort(outer!.reason);
+  outer?.addEventListener('abort', onOuterAbort, { once: true });
+
+  try {
+    return await operation(controller.signal);
+  } catch (error) {
+    if (outer?.aborted) throw outer.reason;
+    if (timedOut) throw new AIError('timeout', { detail: `No response after ${timeoutMs}ms` });
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    outer?.removeEventListener('abort', onOuterAbort);
+  }
+};
 
 /**
- * Helper to retry operations with exponential backoff.
- * Specifically targets 503 Service Unavailable / Overloaded errors.
+ * Helper to retry operations with jittered exponential backoff.
+ * Every failure is classified into an AIError; only transient kinds
+ * (rate limit, timeout, offline, overloaded) are retried, and a provider's
+ * Retry-After hint wins over the computed delay.
  */
 async function withRetry<T>(
-  operation: () => Promise<T>,
-  retries = 5,
-  delay = 3000
+  operation: (signal: AbortSignal) => Promise<T>,
+  { retries = 4, baseDelay = 2000, timeoutMs = 60_000, signal }: RetryOptions = {}
 ): Promise<T> {
-  try {
-    return await operation();
-  } catch (error: any) {
-    // Attempt to extract error code/status from various structures
-    const errorCode = error?.status || error?.code || error?.error?.code || error?.response?.status;
-    const errorMessage = error?.message || error?.error?.message || JSON.stringify(error);
-    const errorStatus = error?.status || error?.error?.status;
-
-    // Check for specific API Key issues
-    if (errorMessage.includes('API key') || errorCode === 400 || errorCode === 403) {
-       throw new Error("Invalid or missing API Key. Please check your configuration.");
-    }
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await attemptWithTimeout(operation, timeoutMs, signal);
+    } catch (error: any) {
+      // A cancelled request is never retried or rewritten; callers check for it
+      if (isAbortError(error)) throw error;
+
+      const aiError = classifyError(error);
+      if (!aiError.retryable || attempt >= retries) {
+        if (aiError.detail) console.error(`AI call failed (${aiError.kind}):`, aiError.detail);
+        throw aiError;
+      }
 
-    const isOverloaded = 
-      errorCode === 503 || 
-      errorCode === 'UNAVAILABLE' || 
-      errorStatus === 'UNAVAILABLE' ||
-      (typeof errorMessage === 'string' && (errorMessage.includes('overloaded') || errorMessage.includes('503')));
-
-    if (retries > 0 && isOverloaded) {
-      console.warn(`Gemini API overloaded (503). Retrying in ${delay}ms... (${retries} attempts left)`);
-      await new Promise(resolve => setTimeout(resolve, delay));
-      // Linear backoff or smaller exponential to avoid extremely long waits
-      return withRetry(operation, retries - 1, delay * 1.5); 
-    }
-    
-    // Make error more readable for the UI
-    if (errorMessage.includes('SAFETY')) {
-        throw new Error("The request was blocked by safety filters. Please adjust the content.");
+      // Full jitter keeps many clients from retrying in lockstep
+      const backoff = baseDelay * Math.pow(2, attempt) * (0.5 + Math.random() * 0.5);
+      const delay = Math.min(aiError.retryAfterMs ?? backoff, 60_000);
+      console.warn(`AI call failed (${aiError.kind}). Retrying in ${Math.round(delay)}ms... (${retries - attempt} attempts left)`);
+      await sleep(delay, signal);
     }
-    
-    throw new Error(errorMessage.length < 100 ? errorMessage : "The kitchen is experiencing technical difficulties. Please try again.");
   }
 }
 
-// --- Text Generation ---
-
-export const analyzeDish = async (
-  ingredients: Ingredient[],
-  jobDescription: string
-): Promise<DishAnalysis> => {
-  const ingredientsList = ingredients
-    .map((i) => `- ${i.category.toUpperCase()}: ${i.name} ${i.details ? `(${i.details})` : ''}`)
-    .join('\n');
+/**
+ * Single non-streaming provider call with the task's timeout and retry policy.
+ * forceRefresh skips the response cache for cacheable tasks.
+ */
+const callProvider = (request: AIRequest, signal?: AbortSignal, forceRefresh = false): Promise<AIResponse> =>
+  withRetry(
+    (attemptSignal) => getProvider().generate(request, { signal: attemptSignal, forceRefresh }),
+    { timeoutMs: TASK_TIMEOUTS[request.task], signal }
+  );
 
-  const prompt = `
-    You are the Head Chef at a prestigious Career Kitchen. 
-    I have the following ingredients (resume data):
-    ${ingredientsList}
-
-    I am trying to cook this dish (apply for this job):
-    ${jobDescription}
-
-    Analyze the ingredients against the recipe with a focus on ATS (Applicant Tracking System) optimization.
-    1. Give a "Match Score" from 0 to 100 based on keyword matching and semantic relevance.
-    2. List "Missing Ingredients" (Critical keywords, skills, or experiences the job asks for but I lack).
-    3. Provide a "Taste Profile" (A summary of the fit, highlighting strengths).
-    4. Give 3 "Chef Tips" to improve the dish (Actionable advice to pass the ATS).
-    5. Extract the "Company Name" from the job description. If not explicitly stated, use "Unknown Company".
-  `;
-
-  const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
-    model: 'gemini-2.5-flash',
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          matchScore: { type: Type.NUMBER },
-          missingIngredients: { type: Type.ARRAY, items: { type: Type.STRING } },
-          tasteProfile: { type: Type.STRING },
-          chefTips: { type: Type.ARRAY, items: { type: Type.STRING } },
-          companyName: { type: Type.STRING },
-        },
-        required: ["matchScore", "missingIngredients", "tasteProfile", "chefTips", "companyName"],
-      }
+/**
+ * Streams a plain-text task through withRetry. onProgress receives the full
+ * text so far; a retry restarts the text from scratch.
+ */
+const streamWithRetry = (
+  request: AIRequest,
+  onProgress: (text: string) => void,
+  signal?: AbortSignal,
+  forceRefresh = false
+): Promise<AIResponse> =>
+  withRetry(async (attemptSignal) => {
+    let text = '';
+    let cachedAt: number | undefined;
+    const stream = getProvider().generateStream(request, {
+      signal: attemptSignal,
+      forceRefresh,
+      onCacheHit: (at) => { cachedAt = at; },
+    });
+    for await (const chunk of stream) {
+      text += chunk;
+      onProgress(text);
     }
-  }));
+    return { text, cachedAt };
+  }, { timeoutMs: TASK_TIMEOUTS[request.task], signal });
 
-  const text = response.text;
-  if (!text) throw new Error("No analysis returned from the Chef.");
-  return JSON.parse(text) as DishAnalysis;
+/**
+ * Structured call with runtime validation. If the first answer doesn't pass
+ * the validator, the model gets one chance to repair it before we give up
+ * with a malformed-response error.
+ */
+const generateValidated = async <T>(
+  request: AIRequest,
+  validate: Validator<T>,
+  signal?: AbortSignal,
+  forceRefresh = false
+): Promise<{ value: T; cachedAt?: number }> => {
+  const response = await callProvider(request, signal, forceRefresh);
+  const first = validateJsonText(response.text, validate);
+  if (first.ok) return { value: first.value, cachedAt: response.cachedAt };
+
+  console.warn(`Invalid ${request.task} response, asking for a repair:`, first.issues);
+  const repaired = await callProvider({
+    ...request,
+    prompt: `${request.prompt}
+
+    Your previous answer could not be used:
+    ${response.text.slice(0, 4000)}
+
+    Problems:
+    ${first.issues.map(issue => `- ${issue}`).join('\n    ')}
+
+    Return ONLY corrected JSON that fixes these problems.
+  `,
+  }, signal, forceRefresh);
+  const second = validateJsonText(repaired.text, validate);
+  if (second.ok) return { value: second.value, cachedAt: repaired.cachedAt };
+
+  throw new AIError('malformed', {
+    message: "The chef's answer didn't match the expected format, even after a retry.",
+    detail: second.issues.join(' '),
+  });
 };
 
-export const researchCompany = async (companyName: string, ingredients: Ingredient[] = []): Promise<CompanyResearchResult> => {
-  const ingredientsList = ingredients.map(i => i.name).join(', ');
+export const isAbortError = (error: any): boolean => error?.name === 'AbortError';
 
-  const prompt = `
-    You are an expert Career Strategist and Company Researcher.
-    Research the company "${companyName}".
-    
-    Candidate Context (Skills/Experience):
-    ${ingredientsList}
+// --- Prompt Variables ---
 
-    Provide a strategic "Establishment Review" (Company Analysis) tailored to this candidate.
-    
-    Output Format (Markdown):
+const listIngredientsDetailed = (ingredients: Ingredient[]) =>
+  ingredients
+    .map((i) => `- ${i.category.toUpperCase()}: ${describeIngredient(i)}`)
+    .join('\n');
 
-    ### 🏢 Atmosphere & Values
-    Analyze the company's mission and culture.
-    *Crucial:* Explicitly identify which of the candidate's specific skills or values (from the context provided) align best with this company.
+const listIngredientNames = (ingredients: Ingredient[]) => ingredients.map(i => i.name).join(', ');
 
-    ### 📰 Daily Specials (News & Strategy)
-    Summarize recent headlines, financial performance, or product launches.
+// --- Text Generation ---
 
-    ### 🔍 Inspection Tips (Interview Questions)
-    List 3-5 specific, high-impact interview questions the candidate might be asked, based directly on the company's recent news/strategy and values.
+export const analyzeDish = async (
+  ingredients: Ingredient[],
+  jobDescription: string,
+  signal?: AbortSignal,
+  forceRefresh = false
+): Promise<DishAnalysis> => {
+  if (isProxyEnabled()) return callApi('analyze', { ingredients: withoutHistory(ingredients), jobDescription, forceRefresh }, signal);
+
+  const { prompt, promptVersion } = renderPrompt('analysis', {
+    ingredientsList: listIngredientsDetailed(ingredients),
+    jobDescription,
+  });
+
+  const { value, cachedAt } = await generateValidated({
+    task: 'analysis',
+    prompt,
+    responseSchema: {
+      type: 'object',
+      properties: {
+        matchScore: { type: 'number' },
+        missingIngredients: { type: 'array', items: { type: 'string' } },
+        tasteProfile: { type: 'string' },
+        chefTips: { type: 'array', items: { type: 'string' } },
+        companyName: { type: 'string' },
+      },
+      required: ["matchScore", "missingIngredients", "tasteProfile", "chefTips", "companyName"],
+    }
+  }, validateDishAnalysis, signal, forceRefresh);
 
-    ### 🥡 Chef's Key Takeaways
-    *   **Alignment:** The strongest selling point for this candidate.
-    *   **Conversation Starter:** An insightful question the candidate should ask the interviewer.
-    *   **Focus:** One key competency to emphasize during the interview.
+  return { ...value, promptVersion, cachedAt };
+};
 
-    Keep it professional, insightful, and actionable.
-  `;
+export const researchCompany = async (companyName: string, ingredients: Ingredient[] = []): Promise<CompanyResearchResult> => {
+  if (isProxyEnabled()) return streamApi('research', { companyName, ingredients: withoutHistory(ingredients) }, () => {});
 
-  const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
-    model: 'gemini-2.5-flash',
-    contents: prompt,
-  }));
+  const { prompt, promptVersion } = renderPrompt('research', {
+    companyName,
+    ingredientsList: listIngredientNames(ingredients),
+  });
+  const response: AIResponse = await callProvider({ task: 'research', prompt });
 
   return {
     summary: response.text || "No information found.",
-    sources: [] 
+    sources: [],
+    promptVersion,
+    cachedAt: response.cachedAt,
+  };
+};
+
+/** Streaming variant of researchCompany; onProgress receives the summary so far. */
+export const researchCompanyStream = async (
+  companyName: string,
+  ingredients: Ingredient[],
+  onProgress: (summary: string) => void,
+  signal?: AbortSignal,
+  forceRefresh = false
+): Promise<CompanyResearchResult> => {
+  if (isProxyEnabled()) return streamApi('research', { companyName, ingredients: withoutHistory(ingredients), forceRefresh }, onProgress, signal);
+
+  const { prompt, promptVersion } = renderPrompt('research', {
+    companyName,
+    ingredientsList: listIngredientNames(ingredients),
+  });
+  const { text, cachedAt } = await streamWithRetry({ task: 'research', prompt }, onProgress, signal, forceRefresh);
+
+  return {
+    summary: text || "No information found.",
+    sources: [],
+    promptVersion,
+    cachedAt,
   };
 };
 
 export const cookCoverLetter = async (
   ingredients: Ingredient[],
-  jobDescription: string
-): Promise<string> => {
-   const ingredientsList = ingredients
-    .map((i) => `- ${i.category.toUpperCase()}: ${i.name} ${i.details ? `(${i.details})` : ''}`)
-    .join('\n');
+  jobDescription: string,
+  style: CoverLetterStyle
+): Promise<GeneratedText> => {
+  if (isProxyEnabled()) return streamApi('cover-letter', { ingredients: withoutHistory(ingredients), jobDescription, style }, () => {});
+
+  const { prompt, promptVersion } = renderPrompt('coverLetter', {
+    ingredientsList: listIngredientsDetailed(ingredients),
+    jobDescription,
+    ...styleVariables(style, ingredients),
+  });
+  const response: AIResponse = await callProvider({ task: 'coverLetter', prompt });
+
+  return { text: response.text || "The chef is busy and couldn't write the letter.", promptVersion };
+};
 
-  const prompt = `
-    You are an expert executive career coach and professional copywriter.
-    Write a highly professional, passionate, and persuasive cover letter for this job application.
-    
-    Candidate Profile (Ingredients):
-    ${ingredientsList}
-
-    Job Description (The Order):
-    ${jobDescription}
-
-    Directives:
-    1. Tone: Professional, confident, enthusiastic, and passionate. 
-    2. Content: Focus strictly on the value proposition. Connect the candidate's skills directly to the company's needs found in the job description.
-    3. Structure: Use standard business letter formatting (Subject line, Salutation, Opening, Body Paragraphs, Closing).
-    4. CRITICAL: Do NOT use cooking metaphors, puns, or the "JobCook" theme in the actual letter text. The output must be a serious, polished document ready to send to a hiring manager.
-    5. Format: Markdown.
-  `;
-
-  const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
-    model: 'gemini-2.5-flash',
-    contents: prompt,
-  }));
+/** Streaming variant of cookCoverLetter; onProgress receives the letter so far. */
+export const cookCoverLetterStream = async (
+  ingredients: Ingredient[],
+  jobDescription: string,
+  style: CoverLetterStyle,
+  onProgress: (letter: string) => void,
+  signal?: AbortSignal
+): Promise<GeneratedText> => {
+  if (isProxyEnabled()) return streamApi('cover-letter', { ingredients: withoutHistory(ingredients), jobDescription, style }, onProgress, signal);
+
+  const { prompt, promptVersion } = renderPrompt('coverLetter', {
+    ingredientsList: listIngredientsDetailed(ingredients),
+    jobDescription,
+    ...styleVariables(style, ingredients),
+  });
+  const { text } = await streamWithRetry({ task: 'coverLetter', prompt }, onProgress, signal);
+
+  return { text: text || "The chef is busy and couldn't write the letter.", promptVersion };
+};
+
+/** Alternative rewrites of one passage of a cover letter, following an instruction such as "Shorten". */
+export const rewriteLetterPassage = async (
+  passage: string,
+  letter: string,
+  instruction: string,
+  ingredients: Ingredient[],
+  jobDescription: string,
+  signal?: AbortSignal
+): Promise<{ suggestions: string[]; promptVersion: string }> => {
+  if (isProxyEnabled()) {
+    return callApi('rewrite-passage', { passage, letter, instruction, ingredients: withoutHistory(ingredients), jobDescription }, signal);
+  }
+
+  const { prompt, promptVersion } = renderPrompt('letterEdit', {
+    ingredientsList: listIngredientsDetailed(ingredients),
+    jobDescription,
+    letter,
+    passage,
+    instruction,
+  });
+
+  const { value } = await generateValidated({
+    task: 'letterEdit',
+    prompt,
+    responseSchema: {
+      type: 'object',
+      properties: {
+        suggestions: { type: 'array', items: { type: 'string' } },
+      },
+      required: ['suggestions'],
+    },
+  }, validatePassageSuggestions, signal);
 
-  return response.text || "The chef is busy and couldn't write the letter.";
+  return { suggestions: value, promptVersion };
 };
 
-export const refineDescription = async (text: string, category: string): Promise<string[]> => {
-  const prompt = `
-    You are a Resume Polish Expert.
-    Refine the following "${category}" description to be more professional, impactful, and ATS-friendly.
-    
-    Original Text: "${text}"
-
-    Provide exactly 3 distinct variations:
-    1. **Action-Oriented:** Start with strong action verbs.
-    2. **Quantified/Result-Driven:** Emphasize numbers or outcomes (add placeholders like [X%] if needed).
-    3. **Professional/Concise:** Clean, formal, and direct.
-
-    Return JSON format only:
-    { "variations": ["Variation 1 text", "Variation 2 text", "Variation 3 text"] }
-  `;
-
-  const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
-    model: 'gemini-2.5-flash',
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          variations: { type: Type.ARRAY, items: { type: Type.STRING } }
+/**
+ * Judges each sentence of a cover letter against the pantry. Sentences and
+ * pantry items go out under short ids (s1, p1) and come back as the original
+ * sentence text and ingredient ids; sentences that make no claim are left out.
+ */
+export const checkLetterClaims = async (
+  sentences: string[],
+  ingredients: Ingredient[],
+  signal?: AbortSignal
+): Promise<{ claims: LetterClaim[]; promptVersion: string }> => {
+  if (isProxyEnabled()) return callApi('check-claims', { sentences, ingredients: withoutHistory(ingredients) }, signal);
+
+  const { prompt, promptVersion } = renderPrompt('claimCheck', {
+    pantry: ingredients.map((i, index) => `p${index + 1}: ${i.category}: ${describeIngredient(i)}`).join('\n') || '(empty)',
+    sentences: sentences.map((text, index) => `s${index + 1}: ${text}`).join('\n'),
+  });
+
+  const { value } = await generateValidated({
+    task: 'claimCheck',
+    prompt,
+    responseSchema: {
+      type: 'object',
+      properties: {
+        claims: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              sentence: { type: 'string' },
+              claim: { type: 'string' },
+              verdict: { type: 'string' },
+              evidence: { type: 'array', items: { type: 'string' } },
+              note: { type: 'string' },
+            },
+            required: ['sentence', 'claim', 'verdict', 'evidence'],
+          },
         },
-        required: ["variations"]
-      }
+      },
+      required: ['claims'],
+    },
+  }, validateLetterClaims, signal);
+
+  const byAlias = (alias: string, prefix: string) => Number(alias.trim().toLowerCase().replace(prefix, '')) - 1;
+  const claims = value.flatMap((claim): LetterClaim[] => {
+    const sentence = sentences[byAlias(claim.sentence, 's')];
+    if (!sentence) return [];
+    const ingredientIds = claim.ingredientIds.map(alias => ingredients[byAlias(alias, 'p')]?.id).filter((id): id is string => !!id);
+    // A "supported" claim with no evidence has nothing to link to; treat it as unsupported
+    const verdict = claim.verdict === 'supported' && ingredientIds.length === 0 ? 'unsupported' : claim.verdict;
+    return [{ ...claim, sentence, verdict, ingredientIds: [...new Set(ingredientIds)] }];
+  });
+
+  // One verdict per sentence; the model sometimes repeats a sentence for each claim in it
+  const severity = { supported: 0, exaggerated: 1, unsupported: 2 };
+  const worst = new Map<string, LetterClaim>();
+  for (const claim of flagUnbackedFigures(claims, ingredients)) {
+    const seen = worst.get(claim.sentence);
+    if (!seen || severity[claim.verdict] > severity[seen.verdict]) worst.set(claim.sentence, claim);
+  }
+  return { claims: [...worst.values()], promptVersion };
+};
+
+/** Styles of the variations the refine prompt asks for, in order. Used to label AI revisions. */
+export const REFINE_STYLES = ['Action-Oriented', 'Quantified/Result-Driven', 'Professional/Concise'];
+
+export const refineDescription = async (text: string, category: string): Promise<string[]> => {
+  if (isProxyEnabled()) return callApi('refine', { text, category });
+
+  const { prompt } = renderPrompt('refine', { category, text });
+
+  const { value } = await generateValidated({
+    task: 'refine',
+    prompt,
+    responseSchema: {
+      type: 'object',
+      properties: {
+        variations: { type: 'array', items: { type: 'string' } }
+      },
+      required: ["variations"]
     }
-  }));
+  }, validateRefineVariations);
 
-  const textResponse = response.text;
-  if (!textResponse) return ["Could not generate variations."];
-  try {
-    const json = JSON.parse(textResponse);
-    return json.variations;
-  } catch (e) {
-    return ["Error parsing improvements."];
-  }
+  return value;
 };
 
-export const parseResume = async (base64Data: string, mimeType: string): Promise<Ingredient[]> => {
-  const prompt = `
-    You are an expert Resume Chef.
-    Analyze the attached resume document.
-    Extract key "ingredients" for a job application profile.
-    
-    Categorize them into one of these EXACT categories:
-    - 'education' (Degrees, universities, high schools)
-    - 'experience' (Work history, internships, employment)
-    - 'project' (Academic projects, capstones, hackathons, personal projects)
-    - 'certification' (Certificates, online courses, bootcamps, awards, honors)
-    - 'skill' (Technical or soft skills, languages, tools)
-
-    CRITICAL INSTRUCTION FOR 'details':
-    - For 'experience' AND 'project': You MUST extract the full list of bullet points, responsibilities, and achievements. Do not summarize or truncate. Copy the content. Include dates and location at the beginning (e.g., "Jan 2023 - Present | City, Country \n- Responsibility 1...").
-    - For 'education': Include degree, institution, dates, GPA (if available).
-    - For 'skill': Proficiency level or related context.
-
-    Return a JSON array of objects with fields: name, category, details.
-    Do not generate IDs, I will handle them.
-  `;
-
-  const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
-    model: 'gemini-2.5-flash',
-    contents: {
-      parts: [
-        { inlineData: { mimeType: mimeType, data: base64Data } },
-        { text: prompt }
-      ]
-    },
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            name: { type: Type.STRING },
-            category: { type: Type.STRING },
-            details: { type: Type.STRING },
+/** Suggests job-specific rewrites for resume bullets. Bullets that are already a good fit are left out. */
+export const tailorResumeBullets = async (
+  bullets: BulletSuggestion[],
+  jobDescription: string,
+  keywords: string[],
+  signal?: AbortSignal
+): Promise<{ rewrites: BulletSuggestion[]; promptVersion: string }> => {
+  if (isProxyEnabled()) return callApi('tailor-resume', { bullets, jobDescription, keywords }, signal);
+
+  const { prompt, promptVersion } = renderPrompt('resumeTailor', {
+    jobDescription,
+    keywords: keywords.join(', ') || '(none listed)',
+    bullets: bullets.map(b => `${b.id}: ${b.text}`).join('\n'),
+  });
+
+  const { value } = await generateValidated({
+    task: 'resumeTailor',
+    prompt,
+    responseSchema: {
+      type: 'object',
+      properties: {
+        rewrites: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { id: { type: 'string' }, text: { type: 'string' } },
+            required: ['id', 'text'],
           },
-          required: ["name", "category"],
         },
-      }
+      },
+      required: ['rewrites'],
+    },
+  }, validateBulletRewrites, signal);
+
+  return { rewrites: value, promptVersion };
+};
+
+export const parseResume = async (base64Data: string, mimeType: string): Promise<Ingredient[]> => {
+  if (isProxyEnabled()) return callApi('parse-resume', { data: base64Data, mimeType });
+
+  const { prompt } = renderPrompt('resumeParse', {});
+
+  const { value: rawIngredients } = await generateValidated({
+    task: 'resumeParse',
+    prompt,
+    media: { mimeType, data: base64Data },
+    responseSchema: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          category: { type: 'string' },
+          organization: { type: 'string' },
+          role: { type: 'string' },
+          location: { type: 'string' },
+          startDate: { type: 'string' },
+          endDate: { type: 'string' },
+          isCurrent: { type: 'boolean' },
+          bullets: { type: 'array', items: { type: 'string' } },
+          tags: { type: 'array', items: { type: 'string' } },
+          url: { type: 'string' },
+          details: { type: 'string' },
+        },
+        required: ["name", "category"],
+      },
     }
-  }));
+  }, validateParsedIngredients);
 
-  const text = response.text;
-  if (!text) return [];
-  
-  try {
-    const rawIngredients = JSON.parse(text);
-    const validCategories = ['skill', 'experience', 'education', 'certification', 'project'];
-
-    return rawIngredients.map((i: any) => {
-      let category = i.category ? i.category.toLowerCase() : 'skill';
-      if (!validCategories.includes(category)) {
-        // Fallback logic for miscategorized items
-        if (category.includes('work') || category.includes('intern')) category = 'experience';
-        else if (category.includes('school') || category.includes('degree')) category = 'education';
-        else if (category.includes('project')) category = 'project';
-        else category = 'skill'; 
-      }
-      return {
-        name: i.name || 'Unknown',
-        category,
-        details: i.details || '',
-        id: Date.now().toString() + Math.random().toString(36).substr(2, 9)
-      };
-    });
-  } catch (e) {
-    throw new Error("Failed to read the chef's handwriting (JSON Parse Error).");
-  }
+  return rawIngredients.map(i => ({
+    ...i,
+    id: Date.now().toString() + Math.random().toString(36).substr(2, 9)
+  }));
 };
 
 export const extractJobDescriptionFromImage = async (base64Data: string, mimeType: string): Promise<string> => {
-  const prompt = `
-    You are an OCR assistant used in a job application app.
-    Extract the text from this job description screenshot.
-    
-    1. Maintain the logical structure (headers, bullet points) using Markdown.
-    2. Ignore irrelevant UI elements (like "Apply Now" buttons, navigation bars, ads) if they appear in the screenshot.
-    3. Return ONLY the raw extracted text in Markdown format.
-  `;
-
-  const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
-    model: 'gemini-2.5-flash',
-    contents: {
-      parts: [
-        { inlineData: { mimeType: mimeType, data: base64Data } },
-        { text: prompt }
-      ]
-    },
-  }));
+  if (isProxyEnabled()) return callApi('ocr', { data: base64Data, mimeType });
+
+  const { prompt } = renderPrompt('jdOcr', {});
+
+  const response: AIResponse = await callProvider({
+    task: 'jdOcr',
+    prompt,
+    media: { mimeType, data: base64Data },
+  });
 
   return response.text || "";
 };
@@ -319,126 +519,75 @@ export const getInterviewQuestion = async (
   ingredients: Ingredient[],
   jobDescription: string,
   history: InterviewMessage[]
-): Promise<string> => {
-  const ingredientsList = ingredients.map(i => i.name).join(', ');
-  
+): Promise<GeneratedText> => {
+  if (isProxyEnabled()) return callApi('interview-question', { ingredients: withoutHistory(ingredients), jobDescription, history });
+
   // Filter history to only include text content to save tokens
   const conversationContext = history
     .map(msg => `${msg.role === 'chef' ? 'Interviewer' : 'Candidate'}: ${msg.content}`)
     .join('\n');
 
-  const prompt = `
-    You are a tough but fair Hiring Manager conducting an interview for the following job:
-    "${jobDescription.substring(0, 500)}..."
+  const { prompt, promptVersion } = renderPrompt('interviewQuestion', {
+    jobExcerpt: jobDescription.substring(0, 500),
+    ingredientsList: listIngredientNames(ingredients),
+    conversationContext,
+  });
 
-    Candidate's Resume Highlights: ${ingredientsList}
+  const response: AIResponse = await callProvider({
+    task: 'interviewQuestion',
+    prompt,
+  });
 
-    Current Conversation History:
-    ${conversationContext}
-
-    Your Task:
-    Based on the context, ask the NEXT single interview question.
-    - If this is the start, ask a "Tell me about yourself" or introductory question relevant to the role.
-    - If the candidate just answered, ask a follow-up probing question OR move to a new topic (Technical, Behavioral, or Situational) based on the job requirements.
-    - Keep the question professional, direct, and challenging.
-    - Do NOT provide feedback yet, just ask the question.
-  `;
-
-  const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
-    model: 'gemini-2.5-flash',
-    contents: prompt,
-  }));
-
-  return response.text || "Could you tell me a bit more about your background?";
+  return { text: response.text || "Could you tell me a bit more about your background?", promptVersion };
 };
 
 export const evaluateAudioAnswer = async (
   question: string,
   audioBase64: string,
   mimeType: string
-): Promise<{ feedback: string; score: number; transcription: string }> => {
-  const prompt = `
-    You are an Expert Interview Coach using the HireVue methodology.
-    
-    Context:
-    The interviewer asked: "${question}"
-    
-    Task:
-    1. Listen to the candidate's audio answer carefully.
-    2. Transcribe the main points of what they said.
-    3. Evaluate the answer using the STAR method (Situation, Task, Action, Result).
-    4. Provide a score from 1-10.
-    5. Provide brief, constructive feedback on both content and delivery (clarity, confidence).
-
-    Return JSON format only:
-    { 
-      "transcription": "Summary of what was said",
-      "feedback": "Constructive feedback...", 
-      "score": number 
-    }
-  `;
-
-  const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
-    model: 'gemini-2.5-flash',
-    contents: {
-      parts: [
-        { inlineData: { mimeType: mimeType, data: audioBase64 } },
-        { text: prompt }
-      ]
-    },
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          transcription: { type: Type.STRING },
-          feedback: { type: Type.STRING },
-          score: { type: Type.NUMBER },
-        },
-        required: ["transcription", "feedback", "score"],
-      }
+): Promise<AudioAnswerEvaluation> => {
+  if (isProxyEnabled()) return callApi('evaluate-audio', { question, data: audioBase64, mimeType });
+
+  const { prompt, promptVersion } = renderPrompt('evaluateAudio', { question });
+
+  const { value: evaluation } = await generateValidated({
+    task: 'evaluateAudio',
+    prompt,
+    media: { mimeType, data: audioBase64 },
+    responseSchema: {
+      type: 'object',
+      properties: {
+        transcription: { type: 'string' },
+        feedback: { type: 'string' },
+        score: { type: 'number' },
+      },
+      required: ["transcription", "feedback", "score"],
     }
-  }));
+  }, validateAudioAnswerEvaluation);
 
-  const text = response.text;
-  if (!text) throw new Error("Could not evaluate answer.");
-  return JSON.parse(text);
+  return { ...evaluation, promptVersion };
 };
 
 export const evaluateAnswer = async (
   question: string,
   answer: string
-): Promise<{ feedback: string; score: number }> => {
-  const prompt = `
-    You are an Expert Interview Coach.
-    
-    Question Asked: "${question}"
-    Candidate's Answer: "${answer}"
-
-    Evaluate the answer using the STAR method (Situation, Task, Action, Result) principles.
-    1. Provide a score from 1-10.
-    2. Provide brief, constructive feedback. Highlight what was good and what was missing (e.g., "You didn't mention the result" or "Great detailed action").
-    
-    Return JSON format: { "feedback": string, "score": number }
-  `;
-
-  const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
-    model: 'gemini-2.5-flash',
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          feedback: { type: Type.STRING },
-          score: { type: Type.NUMBER },
-        },
-        required: ["feedback", "score"],
-      }
+): Promise<AnswerEvaluation> => {
+  if (isProxyEnabled()) return callApi('evaluate-text', { question, answer });
+
+  const { prompt, promptVersion } = renderPrompt('evaluateText', { question, answer });
+
+  const { value: evaluation } = await generateValidated({
+    task: 'evaluateText',
+    prompt,
+    responseSchema: {
+      type: 'object',
+      properties: {
+        feedback: { type: 'string' },
+        score: { type: 'number' },
+      },
+      required: ["feedback", "score"],
     }
-  }));
+  }, validateAnswerEvaluation);
 
-  const text = response.text;
-  if (!text) throw new Error("Could not evaluate answer.");
-  return JSON.parse(text);
+  return { ...evaluation, promptVersion };
 };
\ No newline at end of file
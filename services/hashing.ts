@@ -0,0 +1,22 @@
+/** Stable 32-bit string hash. Not cryptographic; used for keys and seeds. */
+export const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+/**
+ * SHA-256 hex digest, for content-addressed keys where a 32-bit collision
+ * would serve the wrong answer. Falls back to two independent 32-bit hashes
+ * where SubtleCrypto is unavailable (plain-http origins).
+ */
+export const sha256Hex = async (value: string): Promise<string> => {
+  if (typeof crypto !== 'undefined' && crypto.subtle) {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+    return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+  }
+  const reversed = [...value].reverse().join('');
+  return `${hashString(value).toString(16)}${hashString(reversed).toString(16)}${value.length.toString(16)}`;
+};
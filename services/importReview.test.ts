@@ -0,0 +1,106 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Ingredient } from "../types.ts";
+import { applyImport, defaultAction, reviewImport } from "./importReview.ts";
+
+const ingredient = (fields: Partial<Ingredient> & Pick<Ingredient, 'id' | 'name'>): Ingredient => ({
+  category: 'experience',
+  ...fields,
+});
+
+const pantry: Ingredient[] = [
+  ingredient({
+    id: 'acme',
+    name: 'Software Engineer at Acme',
+    role: 'Software Engineer',
+    organization: 'Acme',
+    startDate: '2021',
+    endDate: '2023',
+    bullets: ['Built the billing service'],
+  }),
+  ingredient({ id: 'react', name: 'React', category: 'skill' }),
+];
+
+test('classifies incoming items as new, duplicate or update', () => {
+  const candidates = reviewImport(pantry, [
+    ingredient({ id: 'in-1', name: 'React', category: 'skill' }),
+    ingredient({
+      id: 'in-2',
+      name: 'Acme — Software Engineer',
+      role: 'Software Engineer',
+      organization: 'Acme',
+      startDate: '2021',
+      endDate: '2023',
+      bullets: ['Built the billing service', 'Cut p95 latency in half'],
+    }),
+    ingredient({ id: 'in-3', name: 'Data Analyst at Globex', role: 'Data Analyst', organization: 'Globex' }),
+  ]);
+
+  assert.deepEqual(candidates.map(c => [c.kind, c.match?.id ?? null]), [
+    ['duplicate', 'react'],
+    ['update', 'acme'],
+    ['new', null],
+  ]);
+  assert.deepEqual(candidates.map(defaultAction), ['skip', 'merge', 'accept']);
+});
+
+test('treats another stint at the same place in different years as new', () => {
+  const [candidate] = reviewImport(pantry, [
+    ingredient({ id: 'in', name: 'Software Engineer at Acme', role: 'Software Engineer', organization: 'Acme', startDate: '2016', endDate: '2018' }),
+  ]);
+  assert.equal(candidate.kind, 'new');
+});
+
+test('matches each existing item at most once', () => {
+  const candidates = reviewImport(pantry, [
+    ingredient({ id: 'in-1', name: 'React', category: 'skill' }),
+    ingredient({ id: 'in-2', name: 'React', category: 'skill' }),
+  ]);
+  assert.deepEqual(candidates.map(c => c.kind), ['duplicate', 'new']);
+});
+
+test('applies accept, merge and skip decisions', () => {
+  const incoming = [
+    ingredient({ id: 'in-1', name: 'React', category: 'skill', tags: ['Hooks'] }),
+    ingredient({
+      id: 'in-2',
+      name: 'Acme — Software Engineer',
+      role: 'Software Engineer',
+      organization: 'Acme',
+      location: 'Berlin',
+      startDate: '2021',
+      endDate: '2023',
+      bullets: ['built the billing service', 'Cut p95 latency in half'],
+    }),
+    ingredient({ id: 'in-3', name: 'Data Analyst at Globex', role: 'Data Analyst', organization: 'Globex' }),
+  ];
+  const candidates = reviewImport(pantry, incoming);
+  const result = applyImport(pantry, candidates, ['skip', 'merge', 'accept']);
+
+  assert.deepEqual(result.map(i => i.id), ['acme', 'react', 'in-3']);
+
+  // Merge keeps the existing wording, fills gaps and adds only new bullets
+  const merged = result[0];
+  assert.equal(merged.name, 'Software Engineer at Acme');
+  assert.equal(merged.location, 'Berlin');
+  assert.deepEqual(merged.bullets, ['Built the billing service', 'Cut p95 latency in half']);
+  assert.deepEqual(merged.revisions?.map(r => [r.source, r.note]), [['original', undefined], ['import', 'Merged from import']]);
+
+  // Skipped items stay exactly as they were
+  assert.equal(result[1], pantry[1]);
+
+  assert.equal(result[2].name, 'Data Analyst at Globex');
+  assert.deepEqual(result[2].revisions?.map(r => r.source), ['import']);
+});
+
+test('accepting an update replaces the match but keeps its id', () => {
+  const candidates = reviewImport(pantry, [
+    ingredient({ id: 'in', name: 'Software Engineer at Acme', role: 'Software Engineer', organization: 'Acme', startDate: '2021', endDate: '2023', bullets: ['Rewrote billing'] }),
+  ]);
+  assert.equal(candidates[0].kind, 'update');
+
+  const [replaced] = applyImport(pantry, candidates, ['accept']);
+  assert.equal(replaced.id, 'acme');
+  assert.deepEqual(replaced.bullets, ['Rewrote billing']);
+  assert.equal(replaced.revisions?.slice(-1)[0]?.note, 'Replaced by import');
+});
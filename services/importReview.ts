@@ -0,0 +1,176 @@
+import { Ingredient } from "../types.ts";
+import { formatIngredientLines } from "./ingredientFields.ts";
+import { recordRevision } from "./revisions.ts";
+
+/**
+ * Compares imported ingredients with the pantry so a re-imported resume
+ * doesn't duplicate every job and skill. Matching is fuzzy: same category,
+ * similar name or role and organization, and no conflicting years.
+ */
+
+export type ImportKind = 'new' | 'duplicate' | 'update';
+
+/** accept: add as new, or replace the match. merge: keep the match, fill its gaps and add new bullets, tags and detail lines. */
+export type ImportAction = 'accept' | 'merge' | 'skip';
+
+export interface ImportCandidate {
+  incoming: Ingredient;
+  match: Ingredient | null;
+  kind: ImportKind;
+  similarity: number; // 0-1 against the match
+}
+
+const MATCH_THRESHOLD = 0.72;
+
+const normalize = (text: string) =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const bigrams = (text: string): Map<string, number> => {
+  const grams = new Map<string, number>();
+  const compact = text.replace(/ /g, '');
+  for (let i = 0; i < compact.length - 1; i++) {
+    const gram = compact.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) ?? 0) + 1);
+  }
+  return grams;
+};
+
+/** Sørensen–Dice over character bigrams; tolerant of reordering and small typos. */
+const dice = (a: string, b: string): number => {
+  if (a === b) return 1;
+  const gramsA = bigrams(a);
+  const gramsB = bigrams(b);
+  let overlap = 0;
+  let total = 0;
+  for (const [gram, count] of gramsA) {
+    overlap += Math.min(count, gramsB.get(gram) ?? 0);
+    total += count;
+  }
+  for (const count of gramsB.values()) total += count;
+  return total === 0 ? 0 : (2 * overlap) / total;
+};
+
+/** Share of the shorter name's words found in the longer one, so "React" ~ "React.js" and "Acme" ~ "Engineer, Acme". */
+const tokenContainment = (a: string, b: string): number => {
+  const wordsA = new Set(a.split(' ').filter(Boolean));
+  const wordsB = new Set(b.split(' ').filter(Boolean));
+  const [shorter, longer] = wordsA.size <= wordsB.size ? [wordsA, wordsB] : [wordsB, wordsA];
+  if (shorter.size === 0) return 0;
+  let found = 0;
+  for (const word of shorter) if (longer.has(word)) found++;
+  // A one-word name fully contained in a long one is weak evidence on its own
+  return (found / shorter.size) * (shorter.size === 1 && longer.size > 2 ? 0.7 : 1);
+};
+
+const years = (item: Ingredient) => {
+  const dated = [item.startDate, item.endDate].filter(Boolean).map(date => date!.slice(0, 4));
+  return new Set(dated.length ? dated : `${item.name} ${item.details ?? ''}`.match(/\b(19|20)\d{2}\b/g) ?? []);
+};
+
+const sharesYear = (a: Set<string>, b: Set<string>) => [...a].some(year => b.has(year));
+
+export const similarity = (a: Ingredient, b: Ingredient): number => {
+  if (a.category !== b.category) return 0;
+  const nameA = normalize(a.name);
+  const nameB = normalize(b.name);
+  let score = Math.max(dice(nameA, nameB), tokenContainment(nameA, nameB));
+  // Headlines vary ("Engineer, Acme" vs "Acme — Software Engineer"); role and organization don't
+  if (a.organization && b.organization && normalize(a.organization) === normalize(b.organization)) {
+    const roleScore = a.role && b.role ? dice(normalize(a.role), normalize(b.role)) : 0.8;
+    score = Math.max(score, roleScore);
+  }
+  // Two stints at the same place in different years are different items
+  const yearsA = years(a);
+  const yearsB = years(b);
+  if (yearsA.size > 0 && yearsB.size > 0 && !sharesYear(yearsA, yearsB)) score *= 0.6;
+  return score;
+};
+
+/** True when every line of the incoming item is already in the existing one. */
+const sameDetails = (existing: Ingredient, incoming: Ingredient) => {
+  const existingLines = new Set(formatIngredientLines(existing).split('\n').map(normalize));
+  return formatIngredientLines(incoming).split('\n').every(line => !normalize(line) || existingLines.has(normalize(line)));
+};
+
+export const reviewImport = (existing: Ingredient[], incoming: Ingredient[]): ImportCandidate[] => {
+  const claimed = new Set<string>();
+  return incoming.map(item => {
+    let best: Ingredient | null = null;
+    let bestScore = 0;
+    for (const candidate of existing) {
+      if (claimed.has(candidate.id)) continue;
+      const score = similarity(candidate, item);
+      if (score > bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    }
+    if (!best || bestScore < MATCH_THRESHOLD) return { incoming: item, match: null, kind: 'new', similarity: bestScore };
+    claimed.add(best.id);
+    return {
+      incoming: item,
+      match: best,
+      kind: sameDetails(best, item) ? 'duplicate' : 'update',
+      similarity: bestScore,
+    };
+  });
+};
+
+export const defaultAction = (candidate: ImportCandidate): ImportAction =>
+  candidate.kind === 'new' ? 'accept' : candidate.kind === 'duplicate' ? 'skip' : 'merge';
+
+const mergeLists = (existing?: string[], incoming?: string[]): string[] | undefined => {
+  const merged = [...(existing ?? [])];
+  const seen = new Set(merged.map(normalize));
+  for (const item of incoming ?? []) {
+    if (!seen.has(normalize(item))) {
+      merged.push(item);
+      seen.add(normalize(item));
+    }
+  }
+  return merged.length ? merged : undefined;
+};
+
+/** Existing fields win; gaps are filled from the incoming item and lists are unioned. */
+export const mergeIngredient = (existing: Ingredient, incoming: Ingredient): Ingredient => ({
+  ...incoming,
+  ...Object.fromEntries(Object.entries(existing).filter(([, value]) => value !== undefined && value !== '')),
+  bullets: mergeLists(existing.bullets, incoming.bullets),
+  tags: mergeLists(existing.tags, incoming.tags),
+  details: mergeDetails(existing.details, incoming.details),
+  id: existing.id,
+});
+
+/** Existing detail lines first, then incoming lines that aren't already there. */
+export const mergeDetails = (existing?: string, incoming?: string): string | undefined => {
+  const lines = (existing ?? '').split('\n').filter(line => line.trim());
+  const seen = new Set(lines.map(normalize));
+  for (const line of (incoming ?? '').split('\n')) {
+    if (line.trim() && !seen.has(normalize(line))) {
+      lines.push(line);
+      seen.add(normalize(line));
+    }
+  }
+  return lines.length ? lines.join('\n') : undefined;
+};
+
+export const applyImport = (
+  ingredients: Ingredient[],
+  candidates: ImportCandidate[],
+  actions: ImportAction[]
+): Ingredient[] => {
+  const replacements = new Map<string, Ingredient>();
+  const additions: Ingredient[] = [];
+  candidates.forEach((candidate, index) => {
+    const action = actions[index];
+    if (action === 'skip') return;
+    if (!candidate.match) {
+      additions.push(recordRevision(undefined, candidate.incoming, 'import'));
+    } else if (action === 'accept') {
+      replacements.set(candidate.match.id, recordRevision(candidate.match, { ...candidate.incoming, id: candidate.match.id }, 'import', 'Replaced by import'));
+    } else {
+      replacements.set(candidate.match.id, recordRevision(candidate.match, mergeIngredient(candidate.match, candidate.incoming), 'import', 'Merged from import'));
+    }
+  });
+  return [...ingredients.map(i => replacements.get(i.id) ?? i), ...additions];
+};
@@ -0,0 +1,172 @@
+import { Ingredient, IngredientContent } from "../types.ts";
+import { formatSkillLevel } from "./skillTaxonomy.ts";
+
+/**
+ * Helpers for the structured Ingredient fields: partial ISO dates
+ * ("2023", "2023-04"), date ranges for display and prompts, date sorting,
+ * and the splitter that turns an old free-text `details` blob into fields.
+ */
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const CURRENT_WORDS = /^(present|current|now|ongoing|today)$/i;
+
+/** Which structured fields each category's form shows, in order. */
+export const CATEGORY_FIELDS: Record<Ingredient['category'], (keyof Ingredient)[]> = {
+  experience: ['role', 'organization', 'location', 'startDate', 'endDate', 'bullets', 'tags', 'url'],
+  education: ['role', 'organization', 'location', 'startDate', 'endDate', 'bullets'],
+  project: ['role', 'organization', 'startDate', 'endDate', 'bullets', 'tags', 'url'],
+  certification: ['organization', 'startDate', 'url'],
+  skill: ['proficiency', 'yearsOfUse', 'tags'],
+};
+
+/**
+ * Reads a loose date like "Jan 2023", "01/2023", "2023-1" or "2023" as
+ * "YYYY-MM" or "YYYY". Returns undefined when there's no year in it.
+ */
+export const parseLooseDate = (text: string): string | undefined => {
+  const value = text.trim().toLowerCase();
+  const iso = value.match(/^((?:19|20)\d{2})(?:[-/.](\d{1,2}))?/);
+  if (iso) return iso[2] ? `${iso[1]}-${iso[2].padStart(2, '0')}` : iso[1];
+  const numeric = value.match(/^(\d{1,2})[-/.]((?:19|20)\d{2})$/);
+  if (numeric) return `${numeric[2]}-${numeric[1].padStart(2, '0')}`;
+  const named = value.match(/^([a-z]{3})[a-z]*\.?,?\s+((?:19|20)\d{2})$/);
+  if (named && MONTHS.includes(named[1])) return `${named[2]}-${String(MONTHS.indexOf(named[1]) + 1).padStart(2, '0')}`;
+  const year = value.match(/\b((?:19|20)\d{2})\b/);
+  return year?.[1];
+};
+
+export const formatDate = (date?: string): string => {
+  if (!date) return '';
+  const [year, month] = date.split('-');
+  return month ? `${MONTH_LABELS[Number(month) - 1] ?? month} ${year}` : year;
+};
+
+/** "Jan 2022 – Present", "2019 – 2023", "Mar 2021", or '' when undated. */
+export const formatDateRange = (ingredient: IngredientContent): string => {
+  const start = formatDate(ingredient.startDate);
+  const end = ingredient.isCurrent ? 'Present' : formatDate(ingredient.endDate);
+  if (start && end && start !== end) return `${start} – ${end}`;
+  return start || end;
+};
+
+/** Sort key: the latest date an item covers. Current items sort as "now". */
+const dateKey = (ingredient: Ingredient): string =>
+  ingredient.isCurrent ? '9999' : ingredient.endDate || ingredient.startDate || '';
+
+/** Most recent first; undated items keep their relative order at the end. */
+export const compareByDate = (a: Ingredient, b: Ingredient): number => {
+  const keyA = dateKey(a);
+  const keyB = dateKey(b);
+  if (keyA !== keyB) {
+    if (!keyA) return 1;
+    if (!keyB) return -1;
+    return keyB.localeCompare(keyA);
+  }
+  return (b.startDate || '').localeCompare(a.startDate || '');
+};
+
+/** Everything known about an ingredient as plain text, for prompts and keyword matching. */
+export const describeIngredient = (ingredient: Ingredient): string => {
+  const context = [
+    [ingredient.role, ingredient.organization].filter(Boolean).join(', '),
+    formatDateRange(ingredient),
+    ingredient.location,
+    formatSkillLevel(ingredient),
+  ].filter(Boolean).join(' | ');
+  return [
+    ingredient.name,
+    context && `(${context})`,
+    ingredient.bullets?.length ? ingredient.bullets.map(b => `• ${b}`).join(' ') : '',
+    ingredient.tags?.length ? `[${ingredient.tags.join(', ')}]` : '',
+    ingredient.details,
+    ingredient.url,
+  ].filter(Boolean).join(' ');
+};
+
+/** Multi-line form of an ingredient's content, one fact per line, for side-by-side diffs. */
+export const formatIngredientLines = (ingredient: IngredientContent): string =>
+  [
+    [ingredient.role, ingredient.organization].filter(Boolean).join(' · '),
+    [formatDateRange(ingredient), ingredient.location].filter(Boolean).join(' · '),
+    formatSkillLevel(ingredient),
+    ...(ingredient.bullets ?? []).map(b => `• ${b}`),
+    ingredient.tags?.length ? `Tags: ${ingredient.tags.join(', ')}` : '',
+    ingredient.url,
+    ingredient.details,
+  ].filter(Boolean).join('\n');
+
+const BULLET = /^\s*(?:[-*•▪◦‣]|\d+[.)])\s+/;
+const RANGE_SEPARATOR = /\s+(?:-|–|—|to)\s+|\s*[–—]\s*/i;
+
+/** Splits "Jan 2022 - Present" into start, end and current. */
+const parseRange = (text: string): Pick<Ingredient, 'startDate' | 'endDate' | 'isCurrent'> | null => {
+  const parts = text.split(RANGE_SEPARATOR).map(p => p.trim()).filter(Boolean);
+  if (parts.length === 1) {
+    const single = parseLooseDate(parts[0]);
+    return single && parts[0].length <= 20 ? { startDate: single } : null;
+  }
+  if (parts.length !== 2) return null;
+  const startDate = parseLooseDate(parts[0]);
+  if (!startDate) return null;
+  if (CURRENT_WORDS.test(parts[1])) return { startDate, isCurrent: true };
+  const endDate = parseLooseDate(parts[1]);
+  return endDate ? { startDate, endDate } : null;
+};
+
+/**
+ * Splits an old `details` string of the shape `parseResume` used to produce
+ * ("Jan 2023 - Present | City, Country\n- Bullet\n- Bullet") into fields.
+ * Whatever isn't recognised stays in `details`.
+ */
+export const splitLegacyDetails = (details: string): Partial<Ingredient> => {
+  const fields: Partial<Ingredient> = {};
+  const bullets: string[] = [];
+  const rest: string[] = [];
+
+  details.split('\n').forEach((line, index) => {
+    if (!line.trim()) return;
+    if (BULLET.test(line)) {
+      bullets.push(line.replace(BULLET, '').trim());
+      return;
+    }
+    // Dates and location only come first, as "dates | location"
+    if (index === 0 && !fields.startDate) {
+      const [first, ...others] = line.split('|').map(p => p.trim());
+      const range = parseRange(first);
+      if (range) {
+        Object.assign(fields, range);
+        const location = others.join(' | ');
+        if (location) {
+          if (/^gpa\b/i.test(location)) rest.push(location);
+          else fields.location = location;
+        }
+        return;
+      }
+    }
+    rest.push(line.trim());
+  });
+
+  if (bullets.length) fields.bullets = bullets;
+  fields.details = rest.length ? rest.join('\n') : undefined;
+  return fields;
+};
+
+const SCHOOL_WORDS = /\b(university|college|school|institute|academy|polytechnic|universit[äa]t|école)\b/i;
+
+/**
+ * Guesses role and organization from a headline like "Intern — Acme",
+ * "Engineer at Acme" or "Acme University, B.S. CS". Returns {} when unsure.
+ */
+export const splitHeadline = (name: string, category: Ingredient['category']): Pick<Ingredient, 'role' | 'organization'> => {
+  if (category !== 'experience' && category !== 'education') return {};
+  const atMatch = name.match(/^(.+?)\s+(?:at|@)\s+(.+)$/i);
+  const parts = atMatch ? [atMatch[1], atMatch[2]] : name.split(/\s+[—–|-]\s+|,\s+/);
+  if (parts.length !== 2) return {};
+  const [left, right] = parts.map(p => p.trim());
+  if (category === 'education' && SCHOOL_WORDS.test(left) && !SCHOOL_WORDS.test(right)) {
+    return { role: right, organization: left };
+  }
+  return { role: left, organization: right };
+};
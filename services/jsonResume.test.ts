@@ -0,0 +1,94 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Ingredient } from "../types.ts";
+import { JsonResume, fromJsonResume, toJsonResume } from "./jsonResume.ts";
+
+const source: JsonResume = {
+  basics: { name: 'Sam Doe' },
+  work: [
+    {
+      name: 'Acme',
+      position: 'Senior Engineer',
+      location: 'Berlin',
+      startDate: '2021-03',
+      highlights: ['Led the billing rewrite', 'Mentored four engineers'],
+      keywords: ['TypeScript', 'AWS'],
+    },
+    {
+      name: 'Globex',
+      position: 'Engineer',
+      startDate: '2018-06',
+      endDate: '2021-02',
+      summary: 'Payments team',
+    },
+  ],
+  education: [
+    { institution: 'State University', studyType: 'B.S.', area: 'Computer Science', startDate: '2014', endDate: '2018' },
+  ],
+  skills: [
+    { name: 'TypeScript', level: 'Advanced', keywords: ['Node.js'] },
+    { name: 'Kubernetes' },
+  ],
+};
+
+const withoutIds = (ingredients: Ingredient[]) => ingredients.map(({ id: _id, ...rest }) => rest);
+
+const pick = (entries: unknown, keys: string[]) =>
+  (entries as Record<string, unknown>[]).map(entry => Object.fromEntries(keys.map(key => [key, entry[key]])));
+
+test('JSON Resume → ingredients → JSON Resume keeps work, education, skills and dates', () => {
+  const ingredients = fromJsonResume(source);
+  const exported = toJsonResume(ingredients);
+
+  assert.deepEqual(pick(exported.work, ['name', 'position', 'location', 'startDate', 'endDate', 'summary', 'highlights', 'keywords']), [
+    {
+      name: 'Acme',
+      position: 'Senior Engineer',
+      location: 'Berlin',
+      startDate: '2021-03',
+      endDate: undefined,
+      summary: undefined,
+      highlights: ['Led the billing rewrite', 'Mentored four engineers'],
+      keywords: ['TypeScript', 'AWS'],
+    },
+    {
+      name: 'Globex',
+      position: 'Engineer',
+      location: undefined,
+      startDate: '2018-06',
+      endDate: '2021-02',
+      summary: 'Payments team',
+      highlights: undefined,
+      keywords: undefined,
+    },
+  ]);
+  // The open-ended job stays current through the export's extension
+  assert.equal((exported.work![0]['x-jobcook'] as { isCurrent?: boolean }).isCurrent, true);
+
+  // Degree and field are one role in the pantry, so they come back together
+  assert.deepEqual(pick(exported.education, ['institution', 'studyType', 'startDate', 'endDate']), [
+    { institution: 'State University', studyType: 'B.S. in Computer Science', startDate: '2014', endDate: '2018' },
+  ]);
+
+  assert.deepEqual(pick(exported.skills, ['name', 'level', 'keywords']), [
+    { name: 'TypeScript', level: 'Advanced', keywords: ['Node.js'] },
+    { name: 'Kubernetes', level: undefined, keywords: undefined },
+  ]);
+});
+
+test('re-importing an export gives back the same pantry', () => {
+  const ingredients = fromJsonResume(source);
+  const reimported = fromJsonResume(toJsonResume(ingredients));
+
+  assert.deepEqual(withoutIds(reimported), withoutIds(ingredients));
+  assert.deepEqual(
+    reimported.map(i => [i.name, i.startDate, i.endDate, i.isCurrent]),
+    [
+      ['Senior Engineer at Acme', '2021-03', undefined, true],
+      ['Engineer at Globex', '2018-06', '2021-02', undefined],
+      ['B.S. in Computer Science, State University', '2014', '2018', undefined],
+      ['TypeScript', undefined, undefined, undefined],
+      ['Kubernetes', undefined, undefined, undefined],
+    ]
+  );
+});
@@ -0,0 +1,274 @@
+import { Ingredient } from "../types.ts";
+import { createId } from "./applications.ts";
+import { parseLooseDate, splitHeadline, splitLegacyDetails } from "./ingredientFields.ts";
+import { SKILL_LEVELS, parseSkillLevel } from "./skillTaxonomy.ts";
+
+/**
+ * Converts the pantry to and from the JSON Resume format
+ * (https://jsonresume.org/schema). No model call is involved.
+ *
+ * Structured fields map onto the standard properties (organization to
+ * `name`/`institution`/`issuer`, bullets to `highlights`, and so on). The
+ * card headline, the "current" flag and a skill's years of use have no
+ * standard home, so export
+ * adds an `x-jobcook` object to each entry; other tools ignore it, and it
+ * makes exporting and re-importing give back the same pantry.
+ */
+
+const SCHEMA_URL = 'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json';
+const EXTENSION_KEY = 'x-jobcook';
+
+type Entry = Record<string, unknown>;
+
+export interface JsonResume {
+  $schema?: string;
+  basics?: Entry;
+  work?: Entry[];
+  education?: Entry[];
+  projects?: Entry[];
+  certificates?: Entry[];
+  skills?: Entry[];
+  meta?: Entry;
+  [section: string]: unknown;
+}
+
+type Section = 'work' | 'education' | 'projects' | 'certificates' | 'skills';
+
+interface Extension {
+  name: string;
+  isCurrent?: boolean;
+  yearsOfUse?: number;
+}
+
+const SECTION_BY_CATEGORY: Record<Ingredient['category'], Section> = {
+  experience: 'work',
+  education: 'education',
+  project: 'projects',
+  certification: 'certificates',
+  skill: 'skills',
+};
+
+/** Drops empty values so exports only carry what the ingredient has. */
+const compact = (entry: Entry): Entry =>
+  Object.fromEntries(Object.entries(entry).filter(([, value]) =>
+    value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0)
+  ));
+
+const WRITERS: Record<Section, (i: Ingredient) => Entry> = {
+  work: (i) => ({
+    name: i.organization,
+    position: i.role,
+    location: i.location,
+    url: i.url,
+    startDate: i.startDate,
+    endDate: i.endDate,
+    summary: i.details,
+    highlights: i.bullets,
+    keywords: i.tags,
+  }),
+  education: (i) => ({
+    institution: i.organization,
+    studyType: i.role,
+    location: i.location,
+    url: i.url,
+    startDate: i.startDate,
+    endDate: i.endDate,
+    summary: i.details,
+    highlights: i.bullets,
+    keywords: i.tags,
+  }),
+  projects: (i) => ({
+    name: i.name,
+    roles: i.role ? [i.role] : undefined,
+    entity: i.organization,
+    location: i.location,
+    url: i.url,
+    startDate: i.startDate,
+    endDate: i.endDate,
+    description: i.details,
+    highlights: i.bullets,
+    keywords: i.tags,
+  }),
+  certificates: (i) => ({
+    name: i.name,
+    issuer: i.organization,
+    date: i.startDate,
+    url: i.url,
+    summary: i.details,
+    keywords: i.tags,
+  }),
+  skills: (i) => ({
+    name: i.name,
+    level: SKILL_LEVELS.find(level => level.value === i.proficiency)?.label,
+    keywords: i.tags,
+    summary: i.details,
+  }),
+};
+
+export const toJsonResume = (ingredients: Ingredient[]): JsonResume => {
+  const resume: JsonResume = { $schema: SCHEMA_URL, basics: {} };
+  for (const ingredient of ingredients) {
+    const section = SECTION_BY_CATEGORY[ingredient.category] ?? 'skills';
+    const extension: Extension = {
+      name: ingredient.name,
+      ...(ingredient.isCurrent ? { isCurrent: true } : {}),
+      ...(ingredient.yearsOfUse ? { yearsOfUse: ingredient.yearsOfUse } : {}),
+    };
+    const entry = { ...compact(WRITERS[section](ingredient)), [EXTENSION_KEY]: extension };
+    resume[section] = [...((resume[section] as Entry[] | undefined) ?? []), entry];
+  }
+  resume.meta = { version: 'v1.0.0', lastModified: new Date().toISOString() };
+  return resume;
+};
+
+const text = (value: unknown): string | undefined => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+
+const list = (value: unknown): string[] | undefined => {
+  const items = Array.isArray(value) ? value.map(text).filter((item): item is string => !!item) : [];
+  return items.length ? items : undefined;
+};
+
+const date = (value: unknown): string | undefined => parseLooseDate(text(value) ?? '');
+
+type Fields = Omit<Ingredient, 'id' | 'category'>;
+
+const READERS: Record<Section, { category: Ingredient['category']; read: (entry: Entry) => Fields }> = {
+  work: {
+    category: 'experience',
+    read: (e) => {
+      const organization = text(e.name) ?? text(e.company);
+      const role = text(e.position);
+      return {
+        name: [role, organization].filter(Boolean).join(' at '),
+        organization,
+        role,
+        location: text(e.location),
+        url: text(e.url),
+        startDate: date(e.startDate),
+        endDate: date(e.endDate),
+        details: text(e.summary) ?? text(e.description),
+        bullets: list(e.highlights),
+        tags: list(e.keywords),
+      };
+    },
+  },
+  education: {
+    category: 'education',
+    read: (e) => {
+      const organization = text(e.institution);
+      const role = [text(e.studyType), text(e.area)].filter(Boolean).join(' in ') || undefined;
+      const courses = list(e.courses);
+      return {
+        name: [role, organization].filter(Boolean).join(', '),
+        organization,
+        role,
+        location: text(e.location),
+        url: text(e.url),
+        startDate: date(e.startDate),
+        endDate: date(e.endDate),
+        details: [
+          text(e.summary),
+          text(e.score) && `Score: ${text(e.score)}`,
+          courses && `Courses: ${courses.join(', ')}`,
+        ].filter(Boolean).join('\n') || undefined,
+        bullets: list(e.highlights),
+        tags: list(e.keywords),
+      };
+    },
+  },
+  projects: {
+    category: 'project',
+    read: (e) => ({
+      name: text(e.name) ?? '',
+      role: list(e.roles)?.join(', '),
+      organization: text(e.entity),
+      location: text(e.location),
+      url: text(e.url),
+      startDate: date(e.startDate),
+      endDate: date(e.endDate),
+      details: text(e.description) ?? text(e.summary),
+      bullets: list(e.highlights),
+      tags: list(e.keywords),
+    }),
+  },
+  certificates: {
+    category: 'certification',
+    read: (e) => ({
+      name: text(e.name) ?? '',
+      organization: text(e.issuer),
+      startDate: date(e.date),
+      url: text(e.url),
+      details: text(e.summary),
+      tags: list(e.keywords),
+    }),
+  },
+  skills: {
+    category: 'skill',
+    read: (e) => {
+      const level = text(e.level);
+      const proficiency = level ? parseSkillLevel(level) : undefined;
+      return {
+        name: text(e.name) ?? '',
+        proficiency,
+        tags: list(e.keywords),
+        details: [proficiency ? undefined : level, text(e.summary)].filter(Boolean).join('\n') || undefined,
+      };
+    },
+  },
+};
+
+// Exports made before structured fields wrote only the headline and a details blob
+const LEGACY_FIELDS: Record<Section, [string, string]> = {
+  work: ['name', 'summary'],
+  education: ['institution', 'summary'],
+  projects: ['name', 'description'],
+  certificates: ['name', 'summary'],
+  skills: ['name', 'summary'],
+};
+
+const readLegacy = (entry: Entry, section: Section, category: Ingredient['category']): Fields => {
+  const [nameKey, detailsKey] = LEGACY_FIELDS[section];
+  const name = typeof entry[nameKey] === 'string' ? entry[nameKey] as string : '';
+  const details = typeof entry[detailsKey] === 'string' ? entry[detailsKey] as string : '';
+  return { name, ...splitHeadline(name, category), ...splitLegacyDetails(details) };
+};
+
+const isLegacyEntry = (entry: Entry, section: Section) =>
+  section !== 'skills' && Object.keys(entry).every(key => LEGACY_FIELDS[section].includes(key));
+
+/**
+ * Reads a JSON Resume document. Entries without a usable name are skipped.
+ * Throws when the input has none of the supported sections.
+ */
+export const fromJsonResume = (input: unknown): Ingredient[] => {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new Error("This file isn't a JSON Resume document.");
+  }
+  const resume = input as JsonResume;
+  const sections = (Object.keys(READERS) as Section[]).filter(section => Array.isArray(resume[section]));
+  if (sections.length === 0) {
+    throw new Error("No work, education, projects, certificates or skills found in this JSON Resume.");
+  }
+
+  const ingredients: Ingredient[] = [];
+  for (const section of sections) {
+    const { category, read } = READERS[section];
+    for (const raw of resume[section] as unknown[]) {
+      if (typeof raw !== 'object' || raw === null) continue;
+      const entry = raw as Entry;
+      const extension = entry[EXTENSION_KEY] as Partial<Extension> | undefined;
+      const fields = isLegacyEntry(entry, section) ? readLegacy(entry, section, category) : read(entry);
+
+      if (typeof extension?.name === 'string') fields.name = extension.name;
+      if (typeof extension?.yearsOfUse === 'number' && extension.yearsOfUse > 0) fields.yearsOfUse = extension.yearsOfUse;
+      // Without our marker, an open-ended date range means the item is ongoing
+      const isCurrent = extension ? extension.isCurrent === true : !!fields.startDate && !fields.endDate && section !== 'certificates';
+      if (isCurrent) fields.isCurrent = true;
+      if (!fields.name.trim()) continue;
+
+      const defined = Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)) as Fields;
+      ingredients.push({ id: createId(), category, ...defined });
+    }
+  }
+  return ingredients;
+};
@@ -0,0 +1,23 @@
+/**
+ * Synchronous string storage for usage records, the budget and AI fixtures.
+ * The browser uses localStorage; the API server, which has none, installs a
+ * file-backed store at startup (server/fileStore.ts).
+ */
+
+export interface KeyValueStore {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+let store: KeyValueStore | null = null;
+
+export const setKeyValueStore = (next: KeyValueStore) => {
+  store = next;
+};
+
+export const getKeyValueStore = (): KeyValueStore => {
+  if (store) return store;
+  if (typeof localStorage === 'undefined') throw new Error("No key-value store is installed and localStorage is unavailable.");
+  return localStorage;
+};
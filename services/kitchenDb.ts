@@ -0,0 +1,90 @@
+/**
+ * Thin promise wrapper around the app's IndexedDB database. Each store uses
+ * out-of-line keys, so callers decide what a record is keyed by. Add new
+ * stores to STORES and bump DB_VERSION; existing stores are left untouched.
+ * Where there is no IndexedDB (the API server), a backend with the same
+ * operations can be installed instead.
+ */
+
+const DB_NAME = 'jobcook';
+const DB_VERSION = 2;
+
+export type StoreName = 'responseCache' | 'chefState';
+
+const STORES: StoreName[] = ['responseCache', 'chefState'];
+
+export interface KitchenDbBackend {
+  get<T>(store: StoreName, key: string): Promise<T | undefined>;
+  put<T>(store: StoreName, key: string, value: T): Promise<void>;
+  delete(store: StoreName, key: string): Promise<void>;
+  clear(store: StoreName): Promise<void>;
+  count(store: StoreName): Promise<number>;
+}
+
+let backend: KitchenDbBackend | null = null;
+
+export const setKitchenDbBackend = (next: KitchenDbBackend) => {
+  backend = next;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available in this browser."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        for (const store of STORES) {
+          if (!request.result.objectStoreNames.contains(store)) request.result.createObjectStore(store);
+        }
+      };
+      request.onsuccess = () => {
+        // Let a newer tab upgrade the schema instead of blocking on this connection
+        request.result.onversionchange = () => {
+          request.result.close();
+          dbPromise = null;
+        };
+        resolve(request.result);
+      };
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      dbPromise = null; // Let the next call try again
+      throw error;
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(store: StoreName, mode: IDBTransactionMode, action: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const dbGet = <T>(store: StoreName, key: string): Promise<T | undefined> =>
+  backend ? backend.get<T>(store, key) : run(store, 'readonly', s => s.get(key));
+
+export const dbPut = async <T>(store: StoreName, key: string, value: T): Promise<void> => {
+  if (backend) return backend.put(store, key, value);
+  await run(store, 'readwrite', s => s.put(value, key));
+};
+
+export const dbDelete = async (store: StoreName, key: string): Promise<void> => {
+  if (backend) return backend.delete(store, key);
+  await run(store, 'readwrite', s => s.delete(key));
+};
+
+export const dbClear = async (store: StoreName): Promise<void> => {
+  if (backend) return backend.clear(store);
+  await run(store, 'readwrite', s => s.clear());
+};
+
+export const dbCount = (store: StoreName): Promise<number> =>
+  backend ? backend.count(store) : run(store, 'readonly', s => s.count());
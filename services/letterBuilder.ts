@@ -0,0 +1,140 @@
+import { Application, LetterDateFormat, LetterRecipient, Letterhead } from "../types.ts";
+
+/**
+ * Turns a cover letter draft (Markdown from the model) into a laid-out
+ * business letter: letterhead, date, recipient block and body paragraphs.
+ * Placeholders the model leaves, like "[Your Name]", are filled from the
+ * letterhead and recipient. The draft itself is never changed.
+ */
+
+export interface LetterRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+/** A paragraph is a list of lines; the letter's single line breaks (e.g. "Sincerely,\nJane") are kept. */
+export interface LetterParagraph {
+  lines: LetterRun[][];
+}
+
+export interface LetterDocument {
+  sender: { name: string; lines: string[] };
+  date: string;
+  recipient: string[];
+  body: LetterParagraph[];
+}
+
+export const LETTER_DATE_FORMATS: LetterDateFormat[] = ['long', 'day-first', 'iso', 'numeric'];
+
+export const formatLetterDate = (date: Date, format: LetterDateFormat): string => {
+  switch (format) {
+    case 'long': return date.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+    case 'day-first': return date.toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' });
+    case 'iso': return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+    case 'numeric': return date.toLocaleDateString('en-US', { month: '2-digit', day: '2-digit', year: 'numeric' });
+  }
+};
+
+export const createLetterhead = (): Letterhead => ({ name: '', email: '', phone: '', website: '', address: '', dateFormat: 'long' });
+
+/** The application's recipient, or one addressed to its company until the user fills it in. */
+export const getLetterRecipient = (application: Application): LetterRecipient =>
+  application.letterRecipient ?? { name: '', title: '', company: application.companyName, address: '' };
+
+const splitLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+export const senderLines = (letterhead: Letterhead): string[] => [
+  [letterhead.email, letterhead.phone, letterhead.website].map(s => s.trim()).filter(Boolean).join(' · '),
+  splitLines(letterhead.address).join(', '),
+].filter(Boolean);
+
+export const recipientLines = (recipient: LetterRecipient): string[] =>
+  [recipient.name, recipient.title, recipient.company, ...recipient.address.split('\n')].map(s => s.trim()).filter(Boolean);
+
+/** Placeholder spellings models commonly use, keyed in lower case. */
+const placeholderValues = (letterhead: Letterhead | null, recipient: LetterRecipient, date?: string): Record<string, string> => {
+  const values: Record<string, string> = {};
+  const add = (keys: string[], value: string | undefined) => {
+    if (value?.trim()) keys.forEach(key => { values[key] = value.trim(); });
+  };
+  add(['your name', 'name', 'full name', 'your full name'], letterhead?.name);
+  add(['your email', 'email', 'email address', 'your email address'], letterhead?.email);
+  add(['your phone', 'phone', 'phone number', 'your phone number'], letterhead?.phone);
+  add(['your address', 'address'], letterhead ? splitLines(letterhead.address).join(', ') : '');
+  add(['date', "today's date", 'current date'], date);
+  add(['company name', 'company', "company's name"], recipient.company);
+  add(['hiring manager', 'hiring manager name', "hiring manager's name", 'recipient name'], recipient.name);
+  return values;
+};
+
+/**
+ * Fills known placeholders and addresses the salutation to the named recipient.
+ * Unknown placeholders stay for the user to see, as does [Date] when no date is given.
+ */
+export const fillPlaceholders = (content: string, letterhead: Letterhead | null, recipient: LetterRecipient, date?: string): string => {
+  const values = placeholderValues(letterhead, recipient, date);
+  const filled = content.replace(/\[([^\]\n]+)\](?!\()/g, (match, key: string) => values[key.trim().toLowerCase()] ?? match);
+  return recipient.name.trim() ? filled.replace(/^Dear Hiring (Manager|Team)\b/m, `Dear ${recipient.name.trim()}`) : filled;
+};
+
+const parseInline = (text: string): LetterRun[] => {
+  const plain = text
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1') // Links keep their text
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/\\([\\`*_[\]#+\-.!])/g, '$1');
+  const runs: LetterRun[] = [];
+  let last = 0;
+  for (const match of plain.matchAll(/(\*\*|__)(.+?)\1|(?<![\w*])([*_])(?!\s)(.+?)\3(?![\w*])/g)) {
+    if (match.index! > last) runs.push({ text: plain.slice(last, match.index) });
+    runs.push(match[2] !== undefined ? { text: match[2], bold: true } : { text: match[4], italic: true });
+    last = match.index! + match[0].length;
+  }
+  if (last < plain.length) runs.push({ text: plain.slice(last) });
+  return runs;
+};
+
+const parseLine = (line: string): LetterRun[] => {
+  const heading = line.match(/^#{1,6}\s+(.*)$/);
+  if (heading) return parseInline(heading[1]).map(run => ({ ...run, bold: true }));
+  const bullet = line.match(/^[-*+]\s+(.*)$/);
+  if (bullet) return [{ text: '• ' }, ...parseInline(bullet[1])];
+  return parseInline(line);
+};
+
+/**
+ * Drops a leading block made only of placeholders: the model's own sender
+ * address, which the letterhead replaces.
+ */
+export const stripSenderBlock = (markdown: string): string => {
+  const [first, ...rest] = markdown.trimStart().split(/\n\s*\n/);
+  const lines = first.split('\n').map(line => line.trim()).filter(Boolean);
+  return rest.length > 0 && lines.every(line => /^\[[^\]]+\]$/.test(line)) ? rest.join('\n\n') : markdown;
+};
+
+/** A draft's paragraphs as Markdown, for picking between alternatives. */
+export const splitDraftParagraphs = (markdown: string): string[] =>
+  markdown.split(/\n\s*\n/).map(block => block.trim()).filter(Boolean);
+
+/** Splits Markdown into paragraphs of formatted lines; horizontal rules are dropped. */
+export const parseLetterBody = (markdown: string): LetterParagraph[] =>
+  markdown
+    .split(/\n\s*\n/)
+    .map(block => block.split('\n').map(line => line.trim()).filter(line => line && !/^([-*_])\1{2,}$/.test(line)))
+    .filter(lines => lines.length > 0)
+    .map(lines => ({ lines: lines.map(parseLine) }));
+
+export const buildLetterDocument = (
+  content: string,
+  letterhead: Letterhead | null,
+  recipient: LetterRecipient,
+  date = new Date()
+): LetterDocument => {
+  const formattedDate = formatLetterDate(date, letterhead?.dateFormat ?? 'long');
+  return {
+    sender: { name: letterhead?.name.trim() ?? '', lines: letterhead ? senderLines(letterhead) : [] },
+    date: formattedDate,
+    recipient: recipientLines(recipient),
+    body: parseLetterBody(fillPlaceholders(stripSenderBlock(content), letterhead, recipient, formattedDate)),
+  };
+};
@@ -0,0 +1,65 @@
+/**
+ * Targeted rewrites of a passage selected in the cover letter editor. Only
+ * the selected text is sent for rewriting (the full letter goes along as
+ * context), and an accepted suggestion replaces exactly that span, so the
+ * rest of the letter is never touched.
+ */
+
+export type PassageEditKind = 'shorten' | 'specific' | 'metric' | 'requirement';
+
+export const PASSAGE_EDITS: { id: PassageEditKind; label: string; instruction: string }[] = [
+  { id: 'shorten', label: 'Shorten', instruction: 'Make it noticeably shorter, about half the length, while keeping its main point.' },
+  { id: 'specific', label: 'More specific', instruction: "Replace generic claims with concrete details from the candidate's profile." },
+  {
+    id: 'metric',
+    label: 'Add a metric',
+    instruction: 'Add a measurable result. Use a number from the profile if one fits; otherwise insert a bracketed placeholder such as [X%] for the candidate to fill in. Never invent figures.',
+  },
+  { id: 'requirement', label: 'Match a requirement', instruction: 'Tie it directly to this requirement from the job description: ' },
+];
+
+export const passageInstruction = (kind: PassageEditKind, requirement?: string): string => {
+  const edit = PASSAGE_EDITS.find(e => e.id === kind)!;
+  return kind === 'requirement' ? `${edit.instruction}"${requirement ?? ''}"` : edit.instruction;
+};
+
+export interface PassageSelection {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** The selection without surrounding whitespace, or null if nothing worth rewriting is selected. */
+export const trimSelection = (content: string, start: number, end: number): PassageSelection | null => {
+  const raw = content.slice(start, end);
+  const leading = raw.length - raw.trimStart().length;
+  const text = raw.trim();
+  if (text.length < 3) return null;
+  return { start: start + leading, end: start + leading + text.length, text };
+};
+
+/**
+ * Puts the replacement where the passage was. If the letter was edited since
+ * the selection, the passage is looked up again; null means it's gone or no
+ * longer unique.
+ */
+export const replacePassage = (content: string, selection: PassageSelection, replacement: string): string | null => {
+  let start = selection.start;
+  if (content.slice(start, selection.end) !== selection.text) {
+    start = content.indexOf(selection.text);
+    if (start === -1 || content.indexOf(selection.text, start + 1) !== -1) return null;
+  }
+  return content.slice(0, start) + replacement.trim() + content.slice(start + selection.text.length);
+};
+
+/**
+ * Requirements listed in a job description: its bullet and numbered lines.
+ * Descriptions written as prose have none.
+ */
+export const jobRequirements = (jobDescription: string): string[] => {
+  const lines = jobDescription
+    .split('\n')
+    .map(line => line.match(/^\s*(?:[-*•·▪◦]|\d+[.)])\s+(.+)$/)?.[1].trim())
+    .filter((line): line is string => !!line && line.length >= 8 && line.length <= 200);
+  return [...new Set(lines)].slice(0, 20);
+};
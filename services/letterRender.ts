@@ -0,0 +1,132 @@
+import { LetterDocument, LetterRun } from "./letterBuilder.ts";
+import { escapeHtml } from "./documentExport.ts";
+import { createZip } from "./zip.ts";
+
+/**
+ * Renders a LetterDocument as print-ready HTML (for PDF) and as a DOCX
+ * package. Both read the same typography settings so the two exports look
+ * alike.
+ */
+
+const TYPE = {
+  font: 'Georgia',
+  fallback: "'Times New Roman', serif",
+  bodyPt: 11,
+  namePt: 18,
+  metaPt: 9.5,
+  lineHeight: 1.35,
+  paragraphGapPt: 10,
+  marginIn: 1,
+  text: '1E293B',
+  muted: '475569',
+};
+
+// --- HTML (printed to PDF by the browser) ---
+
+const runHtml = (run: LetterRun) => {
+  const text = escapeHtml(run.text);
+  if (run.bold && run.italic) return `<strong><em>${text}</em></strong>`;
+  if (run.bold) return `<strong>${text}</strong>`;
+  if (run.italic) return `<em>${text}</em>`;
+  return text;
+};
+
+export const renderLetterHtml = (letter: LetterDocument): string => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(letter.sender.name || 'Cover Letter')}</title>
+<style>
+  @page { size: letter; margin: ${TYPE.marginIn}in; }
+  @media screen { body { padding: ${TYPE.marginIn}in; } }
+  body { margin: 0; font-family: ${TYPE.font}, ${TYPE.fallback}; font-size: ${TYPE.bodyPt}pt; line-height: ${TYPE.lineHeight}; color: #${TYPE.text}; }
+  p { margin: 0 0 ${TYPE.paragraphGapPt}pt; }
+  header { text-align: center; border-bottom: 0.75pt solid #${TYPE.text}; padding-bottom: 4pt; margin-bottom: ${TYPE.paragraphGapPt * 2}pt; }
+  header h1 { margin: 0; font-size: ${TYPE.namePt}pt; font-weight: normal; letter-spacing: 1px; }
+  header p { margin: 0; font-size: ${TYPE.metaPt}pt; color: #${TYPE.muted}; }
+</style>
+</head>
+<body>
+  ${letter.sender.name || letter.sender.lines.length ? `
+  <header>
+    ${letter.sender.name ? `<h1>${escapeHtml(letter.sender.name)}</h1>` : ''}
+    ${letter.sender.lines.map(line => `<p>${escapeHtml(line)}</p>`).join('')}
+  </header>` : ''}
+  <p>${escapeHtml(letter.date)}</p>
+  ${letter.recipient.length ? `<p>${letter.recipient.map(escapeHtml).join('<br>')}</p>` : ''}
+  ${letter.body.map(paragraph => `<p>${paragraph.lines.map(line => line.map(runHtml).join('')).join('<br>')}</p>`).join('\n  ')}
+</body>
+</html>`;
+
+// --- DOCX ---
+
+const xml = escapeHtml;
+const halfPoints = (pt: number) => Math.round(pt * 2);
+const twips = (pt: number) => Math.round(pt * 20);
+
+interface RunStyle {
+  color?: string;
+  letterSpacing?: number; // Twips
+  sizePt?: number;
+}
+
+// Word rejects run and paragraph properties that are out of schema order, so they're written in that order
+const runXml = (run: LetterRun, style: RunStyle) =>
+  `<w:r><w:rPr>${run.bold ? '<w:b/>' : ''}${run.italic ? '<w:i/>' : ''}${
+    style.color ? `<w:color w:val="${style.color}"/>` : ''}${
+    style.letterSpacing ? `<w:spacing w:val="${style.letterSpacing}"/>` : ''}${
+    style.sizePt ? `<w:sz w:val="${halfPoints(style.sizePt)}"/>` : ''
+  }</w:rPr><w:t xml:space="preserve">${xml(run.text)}</w:t></w:r>`;
+
+const paragraphXml = (lines: LetterRun[][], pPr = '', style: RunStyle = {}) =>
+  `<w:p><w:pPr>${pPr}</w:pPr>${lines.map(line => line.map(run => runXml(run, style)).join('')).join('<w:r><w:br/></w:r>')}</w:p>`;
+
+const plain = (lines: string[]) => lines.map(text => [{ text }]);
+
+const documentXml = (letter: LetterDocument) => {
+  const center = '<w:jc w:val="center"/>';
+  const tight = '<w:spacing w:after="0"/>';
+  const rule = `<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="4" w:color="${TYPE.text}"/></w:pBdr>`;
+  const headerGap = `<w:spacing w:after="${twips(TYPE.paragraphGapPt * 2)}"/>`;
+  const paragraphs = [
+    ...(letter.sender.name
+      ? [paragraphXml(
+          plain([letter.sender.name]),
+          letter.sender.lines.length ? tight + center : rule + headerGap + center,
+          { letterSpacing: 20, sizePt: TYPE.namePt }
+        )]
+      : []),
+    ...letter.sender.lines.map((line, index) =>
+      paragraphXml(plain([line]), (index === letter.sender.lines.length - 1 ? rule + headerGap : tight) + center, { color: TYPE.muted, sizePt: TYPE.metaPt })
+    ),
+    paragraphXml(plain([letter.date])),
+    ...(letter.recipient.length ? [paragraphXml(plain(letter.recipient))] : []),
+    ...letter.body.map(paragraph => paragraphXml(paragraph.lines)),
+  ];
+  const margin = twips(TYPE.marginIn * 72);
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${paragraphs.join('')}<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="${margin}" w:right="${margin}" w:bottom="${margin}" w:left="${margin}" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+};
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="${TYPE.font}" w:hAnsi="${TYPE.font}" w:cs="${TYPE.font}" w:eastAsia="${TYPE.font}"/><w:color w:val="${TYPE.text}"/><w:sz w:val="${halfPoints(TYPE.bodyPt)}"/><w:szCs w:val="${halfPoints(TYPE.bodyPt)}"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="${twips(TYPE.paragraphGapPt)}" w:line="${Math.round(240 * TYPE.lineHeight)}" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults><w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style></w:styles>`;
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/></Types>`;
+
+const PACKAGE_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`;
+
+const DOCUMENT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`;
+
+export const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+export const renderLetterDocx = (letter: LetterDocument): Uint8Array<ArrayBuffer> =>
+  createZip([
+    { name: '[Content_Types].xml', data: CONTENT_TYPES_XML },
+    { name: '_rels/.rels', data: PACKAGE_RELS_XML },
+    { name: 'word/document.xml', data: documentXml(letter) },
+    { name: 'word/_rels/document.xml.rels', data: DOCUMENT_RELS_XML },
+    { name: 'word/styles.xml', data: STYLES_XML },
+  ]);
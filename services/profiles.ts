@@ -0,0 +1,62 @@
+import { Application, ChefState, Ingredient, ResumeProfile } from "../types.ts";
+import { createId } from "./applications.ts";
+
+/**
+ * Resume profiles pick and order pantry ingredients for one kind of role.
+ * Profiles store ingredient ids, so editing an ingredient in the Pantry
+ * updates every profile that uses it unless the profile overrides its details.
+ */
+
+export const createProfile = (name: string, ingredientIds: string[] = []): ResumeProfile => {
+  const now = new Date().toISOString();
+  return {
+    id: createId(),
+    name,
+    items: ingredientIds.map(ingredientId => ({ ingredientId })),
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+export const patchProfile = (
+  state: ChefState,
+  id: string,
+  patch: Partial<ResumeProfile> | ((profile: ResumeProfile) => Partial<ResumeProfile>)
+): ChefState => ({
+  ...state,
+  profiles: state.profiles.map(profile =>
+    profile.id === id
+      ? {
+          ...profile,
+          ...(typeof patch === 'function' ? patch(profile) : patch),
+          updatedAt: new Date().toISOString(),
+        }
+      : profile
+  ),
+});
+
+/** Removes the profile and points applications that used it back at the whole pantry. */
+export const deleteProfile = (state: ChefState, id: string): ChefState => ({
+  ...state,
+  profiles: state.profiles.filter(p => p.id !== id),
+  applications: state.applications.map(a => (a.profileId === id ? { ...a, profileId: null } : a)),
+});
+
+/** The profile's ingredients in profile order with overrides applied. Deleted ingredients are skipped. */
+export const resolveProfile = (ingredients: Ingredient[], profile: ResumeProfile): Ingredient[] => {
+  const byId = new Map(ingredients.map(i => [i.id, i]));
+  return profile.items.flatMap(item => {
+    const ingredient = byId.get(item.ingredientId);
+    if (!ingredient) return [];
+    return [item.details !== undefined ? { ...ingredient, details: item.details } : ingredient];
+  });
+};
+
+export const getApplicationProfile = (state: ChefState, application: Application): ResumeProfile | null =>
+  state.profiles.find(p => p.id === application.profileId) ?? null;
+
+/** What the AI sees for this application: its profile, or the whole pantry when none is chosen. */
+export const getProfileIngredients = (state: ChefState, application: Application): Ingredient[] => {
+  const profile = getApplicationProfile(state, application);
+  return profile ? resolveProfile(state.ingredients, profile) : state.ingredients;
+};
@@ -0,0 +1,471 @@
+import { AITask } from "./aiProvider.ts";
+import { hashString } from "./hashing.ts";
+
+/**
+ * Named, versioned prompt templates for every AI task.
+ *
+ * Templates use {{variable}} placeholders and must only reference the
+ * variables they declare. Bump `version` whenever a built-in template's
+ * wording changes so saved results can be traced back to the prompt that
+ * produced them. Power users can override any template from Kitchen
+ * Settings; overrides are stored locally and tagged with a content hash.
+ */
+
+export interface PromptVariable {
+  name: string;
+  description: string;
+}
+
+export interface PromptTemplate {
+  task: AITask;
+  label: string;
+  version: number;
+  variables: PromptVariable[];
+  template: string;
+}
+
+export interface PromptOverride {
+  template: string;
+  basedOnVersion: number; // Built-in version the user started from
+  updatedAt: string;
+}
+
+export interface RenderedPrompt {
+  prompt: string;
+  promptVersion: string; // e.g. "analysis@v1" or "analysis@v1+custom.3k9x2a"
+}
+
+const BUILT_IN_TEMPLATES: Record<AITask, PromptTemplate> = {
+  analysis: {
+    task: 'analysis',
+    label: 'Job Analysis',
+    version: 1,
+    variables: [
+      { name: 'ingredientsList', description: "Pantry items, one per line with category and details" },
+      { name: 'jobDescription', description: "The full job description" },
+    ],
+    template: `
+    You are the Head Chef at a prestigious Career Kitchen. 
+    I have the following ingredients (resume data):
+    {{ingredientsList}}
+
+    I am trying to cook this dish (apply for this job):
+    {{jobDescription}}
+
+    Analyze the ingredients against the recipe with a focus on ATS (Applicant Tracking System) optimization.
+    1. Give a "Match Score" from 0 to 100 based on keyword matching and semantic relevance.
+    2. List "Missing Ingredients" (Critical keywords, skills, or experiences the job asks for but I lack).
+    3. Provide a "Taste Profile" (A summary of the fit, highlighting strengths).
+    4. Give 3 "Chef Tips" to improve the dish (Actionable advice to pass the ATS).
+    5. Extract the "Company Name" from the job description. If not explicitly stated, use "Unknown Company".
+  `,
+  },
+  research: {
+    task: 'research',
+    label: 'Company Research',
+    version: 1,
+    variables: [
+      { name: 'companyName', description: "Company extracted from the job description" },
+      { name: 'ingredientsList', description: "Comma-separated pantry item names" },
+    ],
+    template: `
+    You are an expert Career Strategist and Company Researcher.
+    Research the company "{{companyName}}".
+
+    Candidate Context (Skills/Experience):
+    {{ingredientsList}}
+
+    Provide a strategic "Establishment Review" (Company Analysis) tailored to this candidate.
+
+    Output Format (Markdown):
+
+    ### 🏢 Atmosphere & Values
+    Analyze the company's mission and culture.
+    *Crucial:* Explicitly identify which of the candidate's specific skills or values (from the context provided) align best with this company.
+
+    ### 📰 Daily Specials (News & Strategy)
+    Summarize recent headlines, financial performance, or product launches.
+
+    ### 🔍 Inspection Tips (Interview Questions)
+    List 3-5 specific, high-impact interview questions the candidate might be asked, based directly on the company's recent news/strategy and values.
+
+    ### 🥡 Chef's Key Takeaways
+    *   **Alignment:** The strongest selling point for this candidate.
+    *   **Conversation Starter:** An insightful question the candidate should ask the interviewer.
+    *   **Focus:** One key competency to emphasize during the interview.
+
+    Keep it professional, insightful, and actionable.
+  `,
+  },
+  coverLetter: {
+    task: 'coverLetter',
+    label: 'Cover Letter',
+    version: 2,
+    variables: [
+      { name: 'ingredientsList', description: "Pantry items, one per line with category and details" },
+      { name: 'jobDescription', description: "The full job description" },
+      { name: 'tone', description: "How the letter should sound" },
+      { name: 'length', description: "Target length in words" },
+      { name: 'language', description: "Language to write the letter in" },
+      { name: 'emphasis', description: "Pantry items the user wants featured, if any" },
+      { name: 'angle', description: "How to open this draft; differs between alternatives" },
+    ],
+    template: `
+    You are an expert executive career coach and professional copywriter.
+    Write a persuasive cover letter for this job application.
+
+    Candidate Profile (Ingredients):
+    {{ingredientsList}}
+
+    Job Description (The Order):
+    {{jobDescription}}
+
+    Directives:
+    1. Tone: {{tone}}
+    2. Length: {{length}}
+    3. Language: Write the entire letter, including the subject line, salutation and sign-off, in {{language}}.
+    4. Emphasis: {{emphasis}}
+    5. Opening: {{angle}}
+    6. Content: Focus strictly on the value proposition. Connect the candidate's skills directly to the company's needs found in the job description. Only claim experience the profile supports.
+    7. Structure: Use standard business letter formatting (Subject line, Salutation, Opening, Body Paragraphs, Closing).
+    8. CRITICAL: Do NOT use cooking metaphors, puns, or the "JobCook" theme in the actual letter text. The output must be a serious, polished document ready to send to a hiring manager.
+    9. Format: Markdown.
+  `,
+  },
+  refine: {
+    task: 'refine',
+    label: 'Refine Description',
+    version: 1,
+    variables: [
+      { name: 'category', description: "Ingredient category being refined" },
+      { name: 'text', description: "The original description" },
+    ],
+    template: `
+    You are a Resume Polish Expert.
+    Refine the following "{{category}}" description to be more professional, impactful, and ATS-friendly.
+
+    Original Text: "{{text}}"
+
+    Provide exactly 3 distinct variations:
+    1. **Action-Oriented:** Start with strong action verbs.
+    2. **Quantified/Result-Driven:** Emphasize numbers or outcomes (add placeholders like [X%] if needed).
+    3. **Professional/Concise:** Clean, formal, and direct.
+
+    Return JSON format only:
+    { "variations": ["Variation 1 text", "Variation 2 text", "Variation 3 text"] }
+  `,
+  },
+  resumeParse: {
+    task: 'resumeParse',
+    label: 'Resume Import',
+    version: 2,
+    variables: [],
+    template: `
+    You are an expert Resume Chef.
+    Analyze the attached resume document.
+    Extract key "ingredients" for a job application profile.
+
+    Categorize them into one of these EXACT categories:
+    - 'education' (Degrees, universities, high schools)
+    - 'experience' (Work history, internships, employment)
+    - 'project' (Academic projects, capstones, hackathons, personal projects)
+    - 'certification' (Certificates, online courses, bootcamps, awards, honors)
+    - 'skill' (Technical or soft skills, languages, tools)
+
+    For every item fill in the fields that apply:
+    - name: a short headline (e.g. "Frontend Intern at Acme", "B.S. Computer Science, MIT", "TypeScript").
+    - organization: employer, school, or issuer.
+    - role: job title, degree, or your role on the project.
+    - location: city/country or "Remote".
+    - startDate / endDate: "YYYY-MM" when the month is known, otherwise "YYYY". For a certification, put the date in startDate.
+    - isCurrent: true when the item is ongoing ("Present"); leave endDate empty then.
+    - bullets: for 'experience' and 'project', the FULL list of bullet points, responsibilities and achievements, one per entry. Do not summarize or truncate.
+    - tags: tools, technologies or related skills named for the item.
+    - url: a link if one is given.
+    - details: anything else worth keeping, such as GPA or skill proficiency.
+
+    Return a JSON array of objects with these fields. Omit fields you can't fill.
+    Do not generate IDs, I will handle them.
+  `,
+  },
+  jdOcr: {
+    task: 'jdOcr',
+    label: 'Job Description OCR',
+    version: 1,
+    variables: [],
+    template: `
+    You are an OCR assistant used in a job application app.
+    Extract the text from this job description screenshot.
+
+    1. Maintain the logical structure (headers, bullet points) using Markdown.
+    2. Ignore irrelevant UI elements (like "Apply Now" buttons, navigation bars, ads) if they appear in the screenshot.
+    3. Return ONLY the raw extracted text in Markdown format.
+  `,
+  },
+  interviewQuestion: {
+    task: 'interviewQuestion',
+    label: 'Interview Question',
+    version: 1,
+    variables: [
+      { name: 'jobExcerpt', description: "First 500 characters of the job description" },
+      { name: 'ingredientsList', description: "Comma-separated pantry item names" },
+      { name: 'conversationContext', description: "Interview transcript so far" },
+    ],
+    template: `
+    You are a tough but fair Hiring Manager conducting an interview for the following job:
+    "{{jobExcerpt}}..."
+
+    Candidate's Resume Highlights: {{ingredientsList}}
+
+    Current Conversation History:
+    {{conversationContext}}
+
+    Your Task:
+    Based on the context, ask the NEXT single interview question.
+    - If this is the start, ask a "Tell me about yourself" or introductory question relevant to the role.
+    - If the candidate just answered, ask a follow-up probing question OR move to a new topic (Technical, Behavioral, or Situational) based on the job requirements.
+    - Keep the question professional, direct, and challenging.
+    - Do NOT provide feedback yet, just ask the question.
+  `,
+  },
+  evaluateText: {
+    task: 'evaluateText',
+    label: 'Answer Evaluation (Text)',
+    version: 1,
+    variables: [
+      { name: 'question', description: "The interviewer question" },
+      { name: 'answer', description: "The candidate's typed answer" },
+    ],
+    template: `
+    You are an Expert Interview Coach.
+
+    Question Asked: "{{question}}"
+    Candidate's Answer: "{{answer}}"
+
+    Evaluate the answer using the STAR method (Situation, Task, Action, Result) principles.
+    1. Provide a score from 1-10.
+    2. Provide brief, constructive feedback. Highlight what was good and what was missing (e.g., "You didn't mention the result" or "Great detailed action").
+
+    Return JSON format: { "feedback": string, "score": number }
+  `,
+  },
+  evaluateAudio: {
+    task: 'evaluateAudio',
+    label: 'Answer Evaluation (Audio)',
+    version: 1,
+    variables: [
+      { name: 'question', description: "The interviewer question" },
+    ],
+    template: `
+    You are an Expert Interview Coach using the HireVue methodology.
+
+    Context:
+    The interviewer asked: "{{question}}"
+
+    Task:
+    1. Listen to the candidate's audio answer carefully.
+    2. Transcribe the main points of what they said.
+    3. Evaluate the answer using the STAR method (Situation, Task, Action, Result).
+    4. Provide a score from 1-10.
+    5. Provide brief, constructive feedback on both content and delivery (clarity, confidence).
+
+    Return JSON format only:
+    { 
+      "transcription": "Summary of what was said",
+      "feedback": "Constructive feedback...", 
+      "score": number 
+    }
+  `,
+  },
+  resumeTailor: {
+    task: 'resumeTailor',
+    label: 'Resume Tailoring',
+    version: 1,
+    variables: [
+      { name: 'jobDescription', description: "The job description" },
+      { name: 'keywords', description: "Comma-separated job keywords to work in where true" },
+      { name: 'bullets', description: "Resume bullets, one per line as \"id: text\"" },
+    ],
+    template: `
+    You are a Resume Writer tailoring an existing resume to one job.
+
+    Job Description:
+    {{jobDescription}}
+
+    Keywords the employer is looking for: {{keywords}}
+
+    Resume bullets (id: text):
+    {{bullets}}
+
+    Rewrite only the bullets that can honestly be brought closer to this job:
+    1. Use the job's wording and keywords where the bullet already describes that work.
+    2. Start with a strong action verb and keep any numbers exactly as given.
+    3. Never invent tools, results, numbers or responsibilities that the bullet doesn't state.
+    4. Keep each bullet to one line (under 30 words).
+    Leave out bullets that are already a good fit or can't be improved truthfully.
+
+    Return JSON format only:
+    { "rewrites": [{ "id": "bullet id", "text": "rewritten bullet" }] }
+  `,
+  },
+  letterEdit: {
+    task: 'letterEdit',
+    label: 'Cover Letter Edit',
+    version: 1,
+    variables: [
+      { name: 'ingredientsList', description: "Pantry items, one per line with category and details" },
+      { name: 'jobDescription', description: "The full job description" },
+      { name: 'letter', description: "The whole cover letter, for context" },
+      { name: 'passage', description: "The selected text to rewrite" },
+      { name: 'instruction', description: "What the user wants changed, e.g. shorten" },
+    ],
+    template: `
+    You are a professional copywriter editing one passage of a cover letter.
+
+    Candidate Profile:
+    {{ingredientsList}}
+
+    Job Description:
+    {{jobDescription}}
+
+    Full letter, for context only:
+    <letter>
+    {{letter}}
+    </letter>
+
+    Passage to rewrite:
+    <passage>
+    {{passage}}
+    </passage>
+
+    Instruction: {{instruction}}
+
+    Rules:
+    1. Rewrite only the passage. It must read naturally in place of the original within the letter.
+    2. Keep the letter's language, tone and point of view.
+    3. Only state facts the profile or the original passage supports.
+    4. Keep Markdown formatting the passage already uses, and add none.
+
+    Return two alternatives as JSON only:
+    { "suggestions": ["first rewrite", "second rewrite"] }
+  `,
+  },
+  claimCheck: {
+    task: 'claimCheck',
+    label: 'Cover Letter Claim Check',
+    version: 1,
+    variables: [
+      { name: 'pantry', description: "Pantry items, one per line as \"id: category: details\"" },
+      { name: 'sentences', description: "The letter's sentences, one per line as \"id: text\"" },
+    ],
+    template: `
+    You are a strict fact-checker reviewing a cover letter before it is sent to a hiring manager.
+    The candidate's pantry below is the only evidence of what they have done.
+
+    Pantry (id: category: details):
+    {{pantry}}
+
+    Letter sentences (id: text):
+    {{sentences}}
+
+    For every sentence that states something about the candidate (experience, skills, results,
+    responsibilities, qualifications, years, numbers), judge it against the pantry:
+    - "supported": the pantry states it, or it follows directly from what the pantry states.
+    - "exaggerated": the pantry backs part of it, but the sentence inflates scope, seniority,
+      numbers, duration or impact.
+    - "unsupported": nothing in the pantry backs it.
+    Enthusiasm, opinions about the company and courtesies are not claims; leave those sentences out.
+    A sentence with several claims is judged by its weakest one.
+
+    List the ids of the pantry items that back each claim in "evidence". For exaggerated and
+    unsupported claims, say in "note" what is overstated or missing, in one short sentence.
+
+    Return JSON format only:
+    { "claims": [{ "sentence": "s1", "claim": "short summary", "verdict": "supported", "evidence": ["p2"], "note": "" }] }
+  `,
+  },
+};
+
+const STORAGE_KEY = 'jobcook_prompt_overrides';
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/** Source templates are indented to sit inside this file; strip that before use. */
+const dedent = (text: string): string => text.replace(/^ {4}/gm, '').trim();
+
+let overrides: Partial<Record<AITask, PromptOverride>> | null = null;
+
+const loadOverrides = (): Partial<Record<AITask, PromptOverride>> => {
+  if (overrides) return overrides;
+  if (typeof localStorage === 'undefined') return (overrides = {}); // API server: built-in prompts only
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    overrides = saved ? JSON.parse(saved) : {};
+  } catch (e) {
+    console.error("Failed to load prompt overrides", e);
+    overrides = {};
+  }
+  return overrides!;
+};
+
+const saveOverrides = () => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(loadOverrides()));
+  } catch (e) {
+    console.error("Failed to save prompt overrides", e);
+  }
+};
+
+export const listPromptTemplates = (): PromptTemplate[] =>
+  Object.values(BUILT_IN_TEMPLATES).map(t => ({ ...t, template: dedent(t.template) }));
+
+export const getDefaultTemplate = (task: AITask): string => dedent(BUILT_IN_TEMPLATES[task].template);
+
+export const getPromptOverride = (task: AITask): PromptOverride | undefined => loadOverrides()[task];
+
+/** Returns the problems with a template, or an empty list if it can be saved. */
+export const validateTemplate = (task: AITask, template: string): string[] => {
+  const declared = BUILT_IN_TEMPLATES[task].variables.map(v => v.name);
+  const used = [...template.matchAll(PLACEHOLDER)].map(match => match[1]);
+  const issues: string[] = [];
+
+  if (!template.trim()) issues.push('Template cannot be empty.');
+  for (const name of new Set(used)) {
+    if (!declared.includes(name)) issues.push(`Unknown variable {{${name}}}.`);
+  }
+  for (const name of declared) {
+    if (!used.includes(name)) issues.push(`Missing variable {{${name}}}.`);
+  }
+  return issues;
+};
+
+export const setPromptOverride = (task: AITask, template: string) => {
+  const issues = validateTemplate(task, template);
+  if (issues.length > 0) throw new Error(issues.join(' '));
+
+  loadOverrides()[task] = {
+    template,
+    basedOnVersion: BUILT_IN_TEMPLATES[task].version,
+    updatedAt: new Date().toISOString(),
+  };
+  saveOverrides();
+};
+
+export const clearPromptOverride = (task: AITask) => {
+  delete loadOverrides()[task];
+  saveOverrides();
+};
+
+export const getPromptVersion = (task: AITask): string => {
+  const base = `${task}@v${BUILT_IN_TEMPLATES[task].version}`;
+  const override = getPromptOverride(task);
+  return override ? `${base}+custom.${hashString(override.template).toString(36)}` : base;
+};
+
+/** Fills the active template (override or built-in) for a task. */
+export const renderPrompt = (task: AITask, variables: Record<string, string>): RenderedPrompt => {
+  const template = getPromptOverride(task)?.template ?? getDefaultTemplate(task);
+  return {
+    prompt: template.replace(PLACEHOLDER, (placeholder, name) => variables[name] ?? placeholder),
+    promptVersion: getPromptVersion(task),
+  };
+};
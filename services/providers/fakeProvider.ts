@@ -0,0 +1,142 @@
+import { AIProvider, AIRequest, AITask, GenerateOptions } from "../aiProvider.ts";
+import { hashString } from "../hashing.ts";
+import { sleep } from "../timing.ts";
+
+const cannedAnswers: Record<AITask, (request: AIRequest, seed: number) => unknown> = {
+  analysis: (_, seed) => ({
+    matchScore: 55 + (seed % 40),
+    missingIngredients: ['Cloud infrastructure experience', 'Stakeholder communication examples'],
+    tasteProfile: 'Solid foundation with relevant hands-on experience. The profile covers the core requirements but could surface more measurable outcomes.',
+    chefTips: [
+      'Mirror the exact tool names from the job description in your experience bullets.',
+      'Add a quantified result (%, time saved, users served) to each recent role.',
+      'Move the most relevant project above older coursework.',
+    ],
+    companyName: 'Offline Kitchen Inc.',
+  }),
+  research: () => [
+    '### 🏢 Atmosphere & Values',
+    'Offline Kitchen Inc. values craftsmanship, ownership and clear communication.',
+    '',
+    '### 📰 Daily Specials (News & Strategy)',
+    'This is offline sample data. Connect a real provider for live company research.',
+    '',
+    '### 🔍 Inspection Tips (Interview Questions)',
+    '- Tell us about a time you shipped something end to end.',
+    '- How do you decide what not to build?',
+    '',
+    "### 🥡 Chef's Key Takeaways",
+    '*   **Alignment:** Hands-on delivery experience.',
+    '*   **Conversation Starter:** How does the team measure success in the first 90 days?',
+    '*   **Focus:** Ownership.',
+  ].join('\n'),
+  // Alternatives differ in their opening, which the prompt's angle changes
+  coverLetter: (_, seed) => [
+    '**Subject:** Application for the Advertised Position',
+    '',
+    'Dear Hiring Manager,',
+    '',
+    [
+      'I am writing to express my interest in the role described in your posting. My experience aligns closely with the responsibilities outlined, and I am confident I can contribute from day one.',
+      'Last year I took a struggling internal tool from an idea to something forty engineers rely on every day. That is the kind of ownership I would bring to this role.',
+      'Your team\'s focus on building products people actually enjoy using is why this posting stood out to me, and it matches how I have approached my own work.',
+    ][seed % 3],
+    '',
+    'In my recent work I delivered projects end to end, collaborated across teams and focused on measurable outcomes.',
+    '',
+    'Thank you for your consideration. I look forward to discussing how I can support your team.',
+    '',
+    'Sincerely,',
+    '[Your Name]',
+  ].join('\n'),
+  refine: () => ({
+    variations: [
+      'Led the end-to-end delivery of the described work, driving adoption across the team.',
+      'Delivered the described work, improving key metrics by [X%] within [N] months.',
+      'Responsible for the described work, delivering reliable results on schedule.',
+    ],
+  }),
+  resumeParse: () => [
+    { name: 'B.S. Computer Science, Sample University', category: 'education', role: 'B.S. Computer Science', organization: 'Sample University', startDate: '2019', endDate: '2023', details: 'GPA 3.8' },
+    { name: 'Software Engineering Intern at Sample Corp', category: 'experience', role: 'Software Engineering Intern', organization: 'Sample Corp', location: 'Remote', startDate: '2022-06', endDate: '2022-08', bullets: ['Built internal tooling used by 40 engineers.'], tags: ['TypeScript', 'React'] },
+    { name: 'TypeScript', category: 'skill', details: 'Advanced' },
+  ],
+  jdOcr: () => '## Sample Job Description\n\n- 2+ years of TypeScript experience\n- Familiarity with React\n- Strong communication skills',
+  interviewQuestion: (request, seed) => {
+    const questions = [
+      'Tell me about yourself and why this role interests you.',
+      'Describe a project where you had to learn a new technology quickly.',
+      'Tell me about a time you disagreed with a teammate. How did you resolve it?',
+      'What is the most impactful thing you shipped in the last year?',
+    ];
+    return questions[seed % questions.length];
+  },
+  evaluateText: (_, seed) => ({
+    feedback: 'Clear situation and action. Add the measurable result to complete the STAR structure.',
+    score: 5 + (seed % 5),
+  }),
+  evaluateAudio: (_, seed) => ({
+    transcription: '(Offline Kitchen does not transcribe audio.)',
+    feedback: 'Good pacing. Make the result of your story more explicit.',
+    score: 5 + (seed % 5),
+  }),
+  // Trims the passage to its first clause, then appends a placeholder metric
+  letterEdit: (request) => {
+    const passage = request.prompt.match(/<passage>\n([\s\S]*?)\n<\/passage>/)?.[1] ?? '';
+    const shorter = passage.split(/(?<=[,.;])\s/)[0].replace(/[,;]$/, '.');
+    return { suggestions: [shorter, `${passage.replace(/\.$/, '')}, improving delivery time by [X%].`] };
+  },
+  // Backs each first-person sentence with the pantry item sharing the most long words with it
+  claimCheck: (request) => {
+    const words = (text: string) => new Set(text.toLowerCase().match(/[a-z]{5,}/g) ?? []);
+    const pantry = [...request.prompt.matchAll(/^\s*(p\d+): (.+)$/gm)].map(([, id, text]) => ({ id, words: words(text) }));
+    return {
+      claims: [...request.prompt.matchAll(/^\s*(s\d+): (.+)$/gm)].filter(([, , text]) => /\b(I|I've|I'm|my|me)\b/i.test(text)).map(([, id, text]) => {
+        const sentence = words(text);
+        const best = pantry
+          .map(item => ({ id: item.id, overlap: [...sentence].filter(w => item.words.has(w)).length }))
+          .sort((a, b) => b.overlap - a.overlap)[0];
+        const supported = !!best && best.overlap >= 2;
+        return {
+          sentence: id,
+          claim: text.length > 80 ? `${text.slice(0, 77)}...` : text,
+          verdict: supported ? 'supported' : 'unsupported',
+          evidence: supported ? [best.id] : [],
+          note: supported ? '' : 'Nothing in the pantry mentions this.',
+        };
+      }),
+    };
+  },
+  // Rewrites the first two bullets listed in the prompt
+  resumeTailor: (request) => ({
+    rewrites: [...request.prompt.matchAll(/^\s*(b\d+): (.+)$/gm)].slice(0, 2).map(([, id, text]) => ({
+      id,
+      text: `Delivered ${text.charAt(0).toLowerCase()}${text.slice(1).replace(/\.$/, '')}, aligned with the team's core stack.`,
+    })),
+  }),
+};
+
+const answerFor = (request: AIRequest): string => {
+  const answer = cannedAnswers[request.task](request, hashString(request.prompt));
+  return typeof answer === 'string' ? answer : JSON.stringify(answer);
+};
+
+/**
+ * Deterministic offline provider for demos, local development and tests.
+ * Answers depend only on the request, never on time or randomness.
+ */
+export const createFakeProvider = (model: string): AIProvider => ({
+  id: 'fake',
+  model,
+  generate: async (request: AIRequest, options?: GenerateOptions) => {
+    // Small fixed delay so loading states are visible during demos
+    await sleep(300, options?.signal);
+    return { text: answerFor(request) };
+  },
+  generateStream: async function* (request: AIRequest, options?: GenerateOptions) {
+    for (const word of answerFor(request).split(/(?<=\s)/)) {
+      await sleep(20, options?.signal);
+      yield word;
+    }
+  },
+});
@@ -0,0 +1,81 @@
+import { GoogleGenAI, Type, Schema, GenerateContentResponse } from "@google/genai";
+import { AIProvider, AIRequest, GenerateOptions, ResponseSchema, SchemaType, TokenUsage } from "../aiProvider.ts";
+import { AIError } from "../aiErrors.ts";
+
+const TYPE_MAP: Record<SchemaType, Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  boolean: Type.BOOLEAN,
+};
+
+const toGeminiSchema = (schema: ResponseSchema): Schema => ({
+  type: TYPE_MAP[schema.type],
+  properties: schema.properties
+    ? Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+    : undefined,
+  items: schema.items ? toGeminiSchema(schema.items) : undefined,
+  required: schema.required,
+});
+
+export const createGeminiProvider = ({ model, apiKey }: { model: string; apiKey?: string }): AIProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const buildParams = (request: AIRequest, options?: GenerateOptions) => ({
+    model,
+    contents: request.media
+      ? {
+          parts: [
+            { inlineData: { mimeType: request.media.mimeType, data: request.media.data } },
+            { text: request.prompt }
+          ]
+        }
+      : request.prompt,
+    config: {
+      abortSignal: options?.signal,
+      ...(request.responseSchema
+        ? { responseMimeType: "application/json", responseSchema: toGeminiSchema(request.responseSchema) }
+        : {}),
+    },
+  });
+
+  /** Gemini reports blocked prompts/answers in the payload rather than as an HTTP error. */
+  const assertNotBlocked = (response: GenerateContentResponse) => {
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (response.promptFeedback?.blockReason || finishReason === 'SAFETY' || finishReason === 'PROHIBITED_CONTENT') {
+      throw new AIError('safety', { detail: response.promptFeedback?.blockReasonMessage || finishReason });
+    }
+  };
+
+  const readUsage = (response: GenerateContentResponse): TokenUsage | undefined => {
+    const metadata = response.usageMetadata;
+    if (!metadata) return undefined;
+    return {
+      inputTokens: metadata.promptTokenCount || 0,
+      // Thinking models bill their thoughts as output
+      outputTokens: (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0),
+    };
+  };
+
+  return {
+    id: 'gemini',
+    model,
+    generate: async (request: AIRequest, options?: GenerateOptions) => {
+      const response: GenerateContentResponse = await ai.models.generateContent(buildParams(request, options));
+      assertNotBlocked(response);
+      return { text: response.text || '', usage: readUsage(response) };
+    },
+    generateStream: async function* (request: AIRequest, options?: GenerateOptions) {
+      const stream = await ai.models.generateContentStream(buildParams(request, options));
+      let usage: TokenUsage | undefined;
+      for await (const chunk of stream) {
+        assertNotBlocked(chunk);
+        // Each chunk carries the running totals; the last one is final
+        usage = readUsage(chunk) || usage;
+        if (chunk.text) yield chunk.text;
+      }
+      if (usage) options?.onUsage?.(usage);
+    },
+  };
+};
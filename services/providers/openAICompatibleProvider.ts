@@ -0,0 +1,102 @@
+import { AIProvider, AIRequest, GenerateOptions, ProviderConfig, TokenUsage } from "../aiProvider.ts";
+import { AIError } from "../aiErrors.ts";
+
+/**
+ * Talks to any OpenAI-style /chat/completions endpoint (OpenAI, Azure proxies,
+ * Ollama, LM Studio, vLLM...). Errors carry the HTTP status so withRetry can
+ * classify them the same way it does Gemini errors.
+ */
+export const createOpenAICompatibleProvider = (config: ProviderConfig & { model: string }): AIProvider => {
+  const baseUrl = (config.baseUrl || 'http://localhost:11434/v1').replace(/\/+$/, '');
+
+  const buildContent = (request: AIRequest) => {
+    if (!request.media) return request.prompt;
+
+    const { mimeType, data } = request.media;
+    if (mimeType.startsWith('image/')) {
+      return [
+        { type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } },
+        { type: 'text', text: request.prompt },
+      ];
+    }
+    if (mimeType === 'audio/wav' || mimeType === 'audio/mpeg' || mimeType === 'audio/mp3') {
+      return [
+        { type: 'input_audio', input_audio: { data, format: mimeType === 'audio/wav' ? 'wav' : 'mp3' } },
+        { type: 'text', text: request.prompt },
+      ];
+    }
+    throw new Error(`The selected AI provider cannot read ${mimeType} files. Switch to Gemini for this step.`);
+  };
+
+  const post = async (request: AIRequest, options: GenerateOptions | undefined, stream: boolean) => {
+    const res = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      signal: options?.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: config.model,
+        stream,
+        stream_options: stream ? { include_usage: true } : undefined,
+        messages: [{ role: 'user', content: buildContent(request) }],
+        response_format: request.responseSchema
+          ? { type: 'json_schema', json_schema: { name: request.task, schema: request.responseSchema } }
+          : undefined,
+      }),
+    });
+
+    if (!res.ok) {
+      const body = await res.json().catch(() => null);
+      const error: any = new Error(body?.error?.message || `${res.status} ${res.statusText}`);
+      error.status = res.status;
+      const retryAfter = Number(res.headers.get('retry-after'));
+      if (retryAfter > 0) error.retryAfterMs = retryAfter * 1000;
+      throw error;
+    }
+    return res;
+  };
+
+  const readUsage = (json: any): TokenUsage | undefined =>
+    json?.usage
+      ? { inputTokens: json.usage.prompt_tokens || 0, outputTokens: json.usage.completion_tokens || 0 }
+      : undefined;
+
+  return {
+    id: 'openai',
+    model: config.model,
+    generate: async (request: AIRequest, options?: GenerateOptions) => {
+      const res = await post(request, options, false);
+      const json = await res.json();
+      const choice = json?.choices?.[0];
+      if (choice?.finish_reason === 'content_filter') throw new AIError('safety');
+      return { text: choice?.message?.content || '', usage: readUsage(json) };
+    },
+    generateStream: async function* (request: AIRequest, options?: GenerateOptions) {
+      const res = await post(request, options, true);
+      if (!res.body) return;
+
+      // Server-sent events: "data: {...}" lines terminated by "data: [DONE]"
+      const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const data = line.replace(/^data:\s*/, '').trim();
+          if (!data || data === '[DONE]' || !line.startsWith('data:')) continue;
+          const json = JSON.parse(data);
+          // With include_usage the final event has empty choices and the totals
+          const usage = readUsage(json);
+          if (usage) options?.onUsage?.(usage);
+          const delta = json?.choices?.[0]?.delta?.content;
+          if (delta) yield delta as string;
+        }
+      }
+    },
+  };
+};
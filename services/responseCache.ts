@@ -0,0 +1,126 @@
+import { AIProvider, AIRequest, AIResponse, AITask, GenerateOptions } from "./aiProvider.ts";
+import { sha256Hex } from "./hashing.ts";
+import { dbGet, dbPut, dbDelete, dbClear, dbCount } from "./kitchenDb.ts";
+
+/**
+ * Persistent, content-addressed cache for AI answers.
+ *
+ * The key is a hash of provider, model, task, the rendered prompt (which
+ * already contains the pantry and job description), any media and the
+ * response schema. Editing an ingredient or a prompt template therefore
+ * misses naturally; TTLs only bound how stale an identical request may get.
+ * Creative and conversational tasks are never cached.
+ */
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const CACHE_TTLS: Partial<Record<AITask, number>> = {
+  analysis: 7 * DAY,
+  research: 3 * DAY, // Company news goes stale
+  jdOcr: 30 * DAY,
+  resumeParse: 30 * DAY,
+};
+
+interface CacheEntry {
+  task: AITask;
+  model: string;
+  text: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export const isCacheable = (task: AITask): boolean => CACHE_TTLS[task] !== undefined;
+
+const getCacheKey = (provider: AIProvider, request: AIRequest): Promise<string> =>
+  sha256Hex(JSON.stringify([
+    provider.id,
+    provider.model,
+    request.task,
+    request.prompt,
+    request.media ? [request.media.mimeType, request.media.data] : null,
+    request.responseSchema ?? null,
+  ]));
+
+/** Cache failures are never fatal; the call just goes to the network. */
+const readEntry = async (key: string): Promise<CacheEntry | undefined> => {
+  try {
+    const entry = await dbGet<CacheEntry>('responseCache', key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      await dbDelete('responseCache', key);
+      return undefined;
+    }
+    return entry;
+  } catch (e) {
+    console.error("Failed to read the AI response cache", e);
+    return undefined;
+  }
+};
+
+const writeEntry = async (key: string, provider: AIProvider, request: AIRequest, text: string) => {
+  if (!text) return;
+  const now = Date.now();
+  try {
+    await dbPut<CacheEntry>('responseCache', key, {
+      task: request.task,
+      model: provider.model,
+      text,
+      createdAt: now,
+      expiresAt: now + CACHE_TTLS[request.task]!,
+    });
+  } catch (e) {
+    console.error("Failed to write the AI response cache", e);
+  }
+};
+
+export const getCacheSize = async (): Promise<number> => {
+  try {
+    return await dbCount('responseCache');
+  } catch (e) {
+    console.error("Failed to read the AI response cache", e);
+    return 0;
+  }
+};
+
+export const clearResponseCache = () => dbClear('responseCache');
+
+/**
+ * Serves cacheable tasks from IndexedDB when possible. Hits skip the inner
+ * provider entirely, so they are not metered or budgeted.
+ * `options.forceRefresh` bypasses the lookup but still stores the new answer.
+ */
+export const createCachingProvider = (inner: AIProvider): AIProvider => ({
+  ...inner,
+  generate: async (request: AIRequest, options?: GenerateOptions): Promise<AIResponse> => {
+    if (!isCacheable(request.task)) return inner.generate(request, options);
+
+    const key = await getCacheKey(inner, request);
+    const hit = options?.forceRefresh ? undefined : await readEntry(key);
+    if (hit) return { text: hit.text, cachedAt: hit.createdAt };
+
+    const response = await inner.generate(request, options);
+    await writeEntry(key, inner, request, response.text);
+    return response;
+  },
+  generateStream: async function* (request: AIRequest, options?: GenerateOptions) {
+    if (!isCacheable(request.task)) {
+      yield* inner.generateStream(request, options);
+      return;
+    }
+
+    const key = await getCacheKey(inner, request);
+    const hit = options?.forceRefresh ? undefined : await readEntry(key);
+    if (hit) {
+      options?.onCacheHit?.(hit.createdAt);
+      yield hit.text;
+      return;
+    }
+
+    let text = '';
+    for await (const chunk of inner.generateStream(request, options)) {
+      text += chunk;
+      yield chunk;
+    }
+    await writeEntry(key, inner, request, text);
+  },
+});
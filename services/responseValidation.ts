@@ -0,0 +1,252 @@
+import { DishAnalysis, Ingredient, AnswerEvaluation, AudioAnswerEvaluation, BulletSuggestion, ClaimVerdict, LetterClaim } from "../types.ts";
+import { parseLooseDate, splitLegacyDetails } from "./ingredientFields.ts";
+
+/**
+ * Runtime checks for structured AI output. Each validator coerces what it
+ * safely can (numeric strings, "7/10", out-of-range scores, a lone string
+ * where a list was expected) and reports what it can't, so the caller can
+ * ask the model for a repaired answer.
+ */
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; issues: string[] };
+export type Validator<T> = (raw: unknown) => ValidationResult<T>;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Reads a number out of the shapes models actually return:
+ * 85, "85", "85%", "7/10" (scaled to `scale`), "7.5 out of 10".
+ */
+const coerceNumber = (value: unknown, scale: number): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+
+  const ratio = value.match(/(-?\d+(?:\.\d+)?)\s*(?:\/|out of)\s*(\d+(?:\.\d+)?)/i);
+  if (ratio) {
+    const denominator = parseFloat(ratio[2]);
+    return denominator > 0 ? (parseFloat(ratio[1]) / denominator) * scale : null;
+  }
+  const plain = value.match(/-?\d+(?:\.\d+)?/);
+  return plain ? parseFloat(plain[0]) : null;
+};
+
+const coerceString = (value: unknown): string | null => {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return null;
+};
+
+const coerceStringList = (value: unknown): string[] | null => {
+  if (typeof value === 'string') return value.trim() ? [value.trim()] : [];
+  if (!Array.isArray(value)) return null;
+  return value.map(coerceString).filter((item): item is string => !!item);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// --- Job Analysis ---
+
+export const validateDishAnalysis: Validator<DishAnalysis> = (raw) => {
+  if (!isRecord(raw)) return { ok: false, issues: ['Expected a JSON object.'] };
+  const issues: string[] = [];
+
+  let matchScore = coerceNumber(raw.matchScore, 100);
+  if (matchScore === null) {
+    issues.push('matchScore must be a number from 0 to 100.');
+  } else if (matchScore > 0 && matchScore <= 1 && !Number.isInteger(matchScore)) {
+    matchScore *= 100; // 0.85 meant 85%
+  }
+
+  const missingIngredients = coerceStringList(raw.missingIngredients);
+  if (!missingIngredients) issues.push('missingIngredients must be an array of strings.');
+
+  const tasteProfile = coerceString(raw.tasteProfile);
+  if (!tasteProfile) issues.push('tasteProfile must be a non-empty string.');
+
+  const chefTips = coerceStringList(raw.chefTips);
+  if (!chefTips || chefTips.length === 0) issues.push('chefTips must be a non-empty array of strings.');
+
+  if (issues.length > 0) return { ok: false, issues };
+  return {
+    ok: true,
+    value: {
+      matchScore: Math.round(clamp(matchScore!, 0, 100)),
+      missingIngredients: missingIngredients!,
+      tasteProfile: tasteProfile!,
+      chefTips: chefTips!,
+      companyName: coerceString(raw.companyName) || 'Unknown Company',
+    },
+  };
+};
+
+// --- Mock Interview ---
+
+export const validateAnswerEvaluation: Validator<AnswerEvaluation> = (raw) => {
+  if (!isRecord(raw)) return { ok: false, issues: ['Expected a JSON object.'] };
+  const issues: string[] = [];
+
+  const score = coerceNumber(raw.score, 10);
+  if (score === null) issues.push('score must be a number from 1 to 10.');
+
+  const feedback = coerceString(raw.feedback);
+  if (!feedback) issues.push('feedback must be a non-empty string.');
+
+  if (issues.length > 0) return { ok: false, issues };
+  return {
+    ok: true,
+    value: { feedback: feedback!, score: Math.round(clamp(score!, 1, 10)) },
+  };
+};
+
+export const validateAudioAnswerEvaluation: Validator<AudioAnswerEvaluation> = (raw) => {
+  const base = validateAnswerEvaluation(raw);
+  if (!base.ok) return base;
+  return {
+    ok: true,
+    value: { ...base.value, transcription: coerceString((raw as Record<string, unknown>).transcription) || '' },
+  };
+};
+
+// --- Pantry Refine ---
+
+const REFINE_VARIATION_COUNT = 3; // One per style the refine prompt asks for
+
+export const validateRefineVariations: Validator<string[]> = (raw) => {
+  const list = isRecord(raw) ? raw.variations : raw;
+  const variations = coerceStringList(list)?.filter(Boolean);
+  if (!variations || variations.length === 0) return { ok: false, issues: ['variations must be a non-empty array of strings.'] };
+  return { ok: true, value: variations.slice(0, REFINE_VARIATION_COUNT) };
+};
+
+// --- Tailored Resume ---
+
+export const validateBulletRewrites: Validator<BulletSuggestion[]> = (raw) => {
+  const list = isRecord(raw) ? raw.rewrites : raw;
+  if (!Array.isArray(list)) return { ok: false, issues: ['rewrites must be an array of { id, text } objects.'] };
+  const rewrites = list
+    .filter(isRecord)
+    .map(item => ({ id: coerceString(item.id) || '', text: coerceString(item.text) || '' }))
+    .filter(item => item.id && item.text);
+  if (list.length > 0 && rewrites.length === 0) {
+    return { ok: false, issues: ['Each rewrite needs a non-empty "id" and "text".'] };
+  }
+  return { ok: true, value: rewrites };
+};
+
+// --- Cover Letter Editing ---
+
+export const validatePassageSuggestions: Validator<string[]> = (raw) => {
+  const list = isRecord(raw) ? raw.suggestions : raw;
+  const suggestions = (Array.isArray(list) ? list : [list])
+    .map(item => coerceString(item) || '')
+    .map(text => text.trim())
+    .filter(Boolean);
+  if (suggestions.length === 0) return { ok: false, issues: ['suggestions must be a non-empty array of strings.'] };
+  return { ok: true, value: [...new Set(suggestions)].slice(0, 3) };
+};
+
+const VALID_VERDICTS: ClaimVerdict[] = ['supported', 'exaggerated', 'unsupported'];
+
+/**
+ * Claims keep the prompt's short ids in "sentence" and "ingredientIds"; the
+ * caller maps them back. An unrecognized verdict counts as unsupported, so a
+ * sloppy answer can only flag more, never less.
+ */
+export const validateLetterClaims: Validator<LetterClaim[]> = (raw) => {
+  const list = isRecord(raw) ? raw.claims : raw;
+  if (!Array.isArray(list)) return { ok: false, issues: ['claims must be an array of { sentence, claim, verdict, evidence, note } objects.'] };
+  const claims = list
+    .filter(isRecord)
+    .map((item): LetterClaim => {
+      const verdict = (coerceString(item.verdict) || '').toLowerCase() as ClaimVerdict;
+      return {
+        sentence: coerceString(item.sentence) || '',
+        claim: coerceString(item.claim) || '',
+        verdict: VALID_VERDICTS.includes(verdict) ? verdict : 'unsupported',
+        ingredientIds: coerceStringList(item.evidence) ?? [],
+        note: coerceString(item.note) || '',
+      };
+    })
+    .filter(claim => claim.sentence);
+  if (list.length > 0 && claims.length === 0) {
+    return { ok: false, issues: ['Each claim needs the "sentence" id it comes from.'] };
+  }
+  return { ok: true, value: claims };
+};
+
+// --- Resume Import ---
+
+const VALID_CATEGORIES: Ingredient['category'][] = ['skill', 'experience', 'education', 'certification', 'project'];
+
+const normalizeCategory = (value: unknown): Ingredient['category'] => {
+  const category = (coerceString(value) || 'skill').toLowerCase();
+  if ((VALID_CATEGORIES as string[]).includes(category)) return category as Ingredient['category'];
+  // Fallback logic for miscategorized items
+  if (category.includes('work') || category.includes('intern') || category.includes('employ')) return 'experience';
+  if (category.includes('school') || category.includes('degree') || category.includes('educat')) return 'education';
+  if (category.includes('project')) return 'project';
+  if (category.includes('cert') || category.includes('award') || category.includes('course')) return 'certification';
+  return 'skill';
+};
+
+const optionalString = (value: unknown) => coerceString(value) || undefined;
+
+const optionalList = (value: unknown) => {
+  const items = (coerceStringList(value) ?? []).flatMap(item => item.split('\n')).map(item => item.replace(/^[-*•]\s*/, '').trim()).filter(Boolean);
+  return items.length ? items : undefined;
+};
+
+const readParsedIngredient = (item: Record<string, unknown>): Omit<Ingredient, 'id'> => {
+  const parsed: Omit<Ingredient, 'id'> = {
+    name: coerceString(item.name) || '',
+    category: normalizeCategory(item.category),
+    organization: optionalString(item.organization),
+    role: optionalString(item.role),
+    location: optionalString(item.location),
+    startDate: parseLooseDate(coerceString(item.startDate) || ''),
+    endDate: parseLooseDate(coerceString(item.endDate) || ''),
+    isCurrent: item.isCurrent === true || /^(present|current)$/i.test(coerceString(item.endDate) || '') || undefined,
+    bullets: optionalList(item.bullets),
+    tags: optionalList(item.tags),
+    url: optionalString(item.url),
+    details: optionalString(item.details),
+  };
+  if (parsed.isCurrent) parsed.endDate = undefined;
+  // Older or customised prompts still pack dates and bullets into details
+  if (parsed.details && !parsed.startDate && !parsed.bullets) {
+    Object.assign(parsed, splitLegacyDetails(parsed.details));
+  }
+  // Leave unset fields out rather than storing explicit undefineds
+  return Object.fromEntries(Object.entries(parsed).filter(([, value]) => value !== undefined)) as Omit<Ingredient, 'id'>;
+};
+
+export const validateParsedIngredients: Validator<Omit<Ingredient, 'id'>[]> = (raw) => {
+  // Some models wrap the list in an object ({ "ingredients": [...] })
+  const list = isRecord(raw) ? Object.values(raw).find(Array.isArray) : raw;
+  if (!Array.isArray(list)) return { ok: false, issues: ['Expected a JSON array of resume items.'] };
+
+  const items = list
+    .filter(isRecord)
+    .map(readParsedIngredient)
+    .filter(item => item.name.length > 0);
+
+  // An empty document legitimately yields nothing; a list of nameless junk does not
+  if (list.length > 0 && items.length === 0) {
+    return { ok: false, issues: ['Every item needs a non-empty "name".'] };
+  }
+  return { ok: true, value: items };
+};
+
+/** Parses raw model text and runs a validator over it. */
+export const validateJsonText = <T>(text: string, validate: Validator<T>): ValidationResult<T> => {
+  if (!text) return { ok: false, issues: ['The response was empty.'] };
+  let raw: unknown;
+  try {
+    // Tolerate models that wrap JSON in a ```json fence
+    raw = JSON.parse(text.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''));
+  } catch (e) {
+    return { ok: false, issues: ['The response was not valid JSON.'] };
+  }
+  return validate(raw);
+};
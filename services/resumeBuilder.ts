@@ -0,0 +1,208 @@
+import { BulletRewrite, BulletSuggestion, DishAnalysis, Ingredient, TailoredResume } from "../types.ts";
+import { matchKeywords } from "./atsMatcher.ts";
+import { compareByDate, formatDateRange } from "./ingredientFields.ts";
+
+/**
+ * Builds a tailored resume from the pantry without a model call: scores each
+ * ingredient against the job description with the keyword matcher, keeps
+ * what fits the page limit, and orders it the way recruiters expect. The AI
+ * is only used for optional bullet rewrites, which the user approves one by
+ * one before they appear on the resume.
+ */
+
+export interface ResumeEntry {
+  id: string; // Ingredient id
+  title: string;
+  subtitle: string;
+  dates: string;
+  location: string;
+  bullets: string[];
+}
+
+export interface ResumeSection {
+  category: Ingredient['category'];
+  title: string;
+  entries: ResumeEntry[];
+}
+
+export interface ResumeDocument {
+  header: TailoredResume['header'];
+  sections: ResumeSection[];
+}
+
+export const SECTION_ORDER: Ingredient['category'][] = ['experience', 'project', 'education', 'certification', 'skill'];
+
+export const SECTION_TITLES: Record<Ingredient['category'], string> = {
+  experience: 'Experience',
+  project: 'Projects',
+  education: 'Education',
+  certification: 'Certifications',
+  skill: 'Skills',
+};
+
+// Rough line budget per page at the templates' font sizes
+const PAGE_LINES: Record<TailoredResume['pageLimit'], number> = { 1: 48, 2: 100 };
+const MAX_BULLETS: Record<TailoredResume['pageLimit'], number> = { 1: 3, 2: 5 };
+const HEADER_LINES = 4;
+const SECTION_LINES = 2;
+const SKILLS_PER_LINE = 8;
+const MAX_SKILLS = 16;
+const MAX_EDUCATION = 2;
+
+/** Weight of the job's keywords an ingredient covers. */
+export const scoreIngredient = (ingredient: Ingredient, jobDescription: string): number =>
+  matchKeywords(jobDescription, [ingredient]).matched.reduce((sum, term) => sum + term.weight, 0);
+
+const scoreText = (text: string, jobDescription: string): number =>
+  scoreIngredient({ id: '', name: text, category: 'experience' }, jobDescription);
+
+/** Indexes of the bullets to show: the most relevant ones, kept in their original order. */
+export const pickBullets = (ingredient: Ingredient, jobDescription: string, pageLimit: TailoredResume['pageLimit']): number[] => {
+  const bullets = ingredient.bullets ?? [];
+  const limit = MAX_BULLETS[pageLimit];
+  if (bullets.length <= limit) return bullets.map((_, index) => index);
+  return bullets
+    .map((text, index) => ({ index, score: scoreText(text, jobDescription) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, limit)
+    .map(bullet => bullet.index)
+    .sort((a, b) => a - b);
+};
+
+const entryLines = (ingredient: Ingredient, pageLimit: TailoredResume['pageLimit']) =>
+  2 + Math.min(ingredient.bullets?.length ?? 0, MAX_BULLETS[pageLimit]);
+
+/** Experience and education read newest first; the other sections lead with what fits the job best. */
+const orderSection = (category: Ingredient['category'], items: { ingredient: Ingredient; score: number }[]) =>
+  [...items].sort((a, b) =>
+    category === 'experience' || category === 'education'
+      ? compareByDate(a.ingredient, b.ingredient)
+      : b.score - a.score || compareByDate(a.ingredient, b.ingredient)
+  );
+
+/**
+ * Picks and orders the pantry items for a resume. Analysis gaps the pantry
+ * mentions count as keywords too, so items that address them rank higher.
+ */
+export const selectItems = (
+  ingredients: Ingredient[],
+  jobDescription: string,
+  analysis: DishAnalysis | null,
+  pageLimit: TailoredResume['pageLimit']
+): string[] => {
+  const target = [jobDescription, ...(analysis?.missingIngredients ?? [])].join('\n');
+  const scored = ingredients.map(ingredient => ({ ingredient, score: scoreIngredient(ingredient, target) }));
+  const byCategory = (category: Ingredient['category']) => scored.filter(s => s.ingredient.category === category);
+
+  const skills = orderSection('skill', byCategory('skill')).slice(0, MAX_SKILLS);
+  const education = [...byCategory('education')].sort((a, b) => compareByDate(a.ingredient, b.ingredient)).slice(0, MAX_EDUCATION);
+  let budget = PAGE_LINES[pageLimit] - HEADER_LINES
+    - (skills.length ? SECTION_LINES + Math.ceil(skills.length / SKILLS_PER_LINE) : 0)
+    - (education.length ? SECTION_LINES + education.reduce((sum, s) => sum + entryLines(s.ingredient, pageLimit), 0) : 0);
+
+  // Experience, projects and certifications compete for the rest, best match first
+  const chosen = new Set<Ingredient>();
+  const sections = new Set<Ingredient['category']>();
+  const rest = scored
+    .filter(s => ['experience', 'project', 'certification'].includes(s.ingredient.category))
+    .sort((a, b) => b.score - a.score || compareByDate(a.ingredient, b.ingredient));
+  for (const { ingredient } of rest) {
+    const lines = entryLines(ingredient, pageLimit) + (sections.has(ingredient.category) ? 0 : SECTION_LINES);
+    if (lines > budget) continue;
+    budget -= lines;
+    chosen.add(ingredient);
+    sections.add(ingredient.category);
+  }
+
+  const picked = [...skills, ...education, ...scored.filter(s => chosen.has(s.ingredient))];
+  return SECTION_ORDER.flatMap(category =>
+    orderSection(category, picked.filter(s => s.ingredient.category === category)).map(s => s.ingredient.id)
+  );
+};
+
+/** Accepted rewrites still match the pantry text they were written from. */
+const rewriteFor = (rewrites: BulletRewrite[], ingredientId: string, index: number, original: string) =>
+  rewrites.find(r => r.ingredientId === ingredientId && r.index === index && r.original === original);
+
+const toEntry = (ingredient: Ingredient, resume: TailoredResume, jobDescription: string): ResumeEntry => {
+  const bullets = ingredient.bullets ?? [];
+  const [title, subtitle] =
+    ingredient.category === 'experience' ? [ingredient.role || ingredient.name, ingredient.organization] :
+    ingredient.category === 'education' ? [ingredient.organization || ingredient.name, ingredient.role] :
+    [ingredient.name, ingredient.category === 'project' ? ingredient.role : ingredient.organization];
+  return {
+    id: ingredient.id,
+    title,
+    subtitle: subtitle && subtitle !== title ? subtitle : '',
+    dates: formatDateRange(ingredient),
+    location: ingredient.location ?? '',
+    bullets: pickBullets(ingredient, jobDescription, resume.pageLimit).map(index => {
+      const rewrite = rewriteFor(resume.rewrites, ingredient.id, index, bullets[index]);
+      return rewrite?.status === 'accepted' ? rewrite.rewritten : bullets[index];
+    }),
+  };
+};
+
+/** The resume's content, section by section. Items deleted from the pantry since are skipped. */
+export const buildResumeDocument = (ingredients: Ingredient[], resume: TailoredResume, jobDescription: string): ResumeDocument => {
+  const byId = new Map(ingredients.map(i => [i.id, i]));
+  const items = resume.itemIds.map(id => byId.get(id)).filter((i): i is Ingredient => !!i);
+  return {
+    header: resume.header,
+    sections: SECTION_ORDER
+      .map(category => ({
+        category,
+        title: SECTION_TITLES[category],
+        entries: items.filter(i => i.category === category).map(i => toEntry(i, resume, jobDescription)),
+      }))
+      .filter(section => section.entries.length > 0),
+  };
+};
+
+/**
+ * The bullets on the resume with short ids for the rewrite prompt, and a
+ * lookup back to where each one came from.
+ */
+export const collectBullets = (ingredients: Ingredient[], resume: TailoredResume, jobDescription: string) => {
+  const byId = new Map(ingredients.map(i => [i.id, i]));
+  const bullets: BulletSuggestion[] = [];
+  const sources = new Map<string, Pick<BulletRewrite, 'ingredientId' | 'index' | 'original'>>();
+  for (const id of resume.itemIds) {
+    const ingredient = byId.get(id);
+    if (!ingredient?.bullets?.length) continue;
+    for (const index of pickBullets(ingredient, jobDescription, resume.pageLimit)) {
+      const bulletId = `b${bullets.length + 1}`;
+      bullets.push({ id: bulletId, text: ingredient.bullets[index] });
+      sources.set(bulletId, { ingredientId: id, index, original: ingredient.bullets[index] });
+    }
+  }
+  return { bullets, sources };
+};
+
+/** Skill keywords from the job, plus the analysis's gaps, for the rewrite prompt. */
+export const targetKeywords = (ingredients: Ingredient[], jobDescription: string, analysis: DishAnalysis | null): string[] => {
+  const { matched, missing } = matchKeywords(jobDescription, ingredients);
+  const skills = [...matched, ...missing].filter(term => term.isSkill).map(term => term.term);
+  return [...new Set([...skills, ...(analysis?.missingIngredients ?? [])])].slice(0, 20);
+};
+
+/** Merges fresh suggestions into the resume, replacing earlier ones for the same bullet. */
+export const mergeRewrites = (
+  existing: BulletRewrite[],
+  suggestions: BulletSuggestion[],
+  sources: ReturnType<typeof collectBullets>['sources']
+): BulletRewrite[] => {
+  const fresh: BulletRewrite[] = suggestions.flatMap(suggestion => {
+    const source = sources.get(suggestion.id);
+    if (!source || suggestion.text.trim() === source.original.trim()) return [];
+    return [{ ...source, rewritten: suggestion.text.trim(), status: 'pending' as const }];
+  });
+  const replaced = (r: BulletRewrite) => fresh.some(f => f.ingredientId === r.ingredientId && f.index === r.index);
+  return [...existing.filter(r => !replaced(r)), ...fresh];
+};
+
+/** Rewrites that still apply to the current pantry text. */
+export const liveRewrites = (ingredients: Ingredient[], resume: TailoredResume): BulletRewrite[] => {
+  const byId = new Map(ingredients.map(i => [i.id, i]));
+  return resume.rewrites.filter(r => byId.get(r.ingredientId)?.bullets?.[r.index] === r.original && resume.itemIds.includes(r.ingredientId));
+};
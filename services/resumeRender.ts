@@ -0,0 +1,116 @@
+import { ResumeTemplate } from "../types.ts";
+import { ResumeDocument, ResumeEntry } from "./resumeBuilder.ts";
+import { escapeHtml } from "./documentExport.ts";
+
+/**
+ * Renders a ResumeDocument as a standalone HTML page (preview and PDF) or as
+ * plain text (ATS upload forms, email). Templates only change the styling;
+ * every template has the same content and order.
+ */
+
+export const RESUME_TEMPLATES: { id: ResumeTemplate; label: string; description: string }[] = [
+  { id: 'classic', label: 'Classic', description: 'Serif, centered header' },
+  { id: 'modern', label: 'Modern', description: 'Sans-serif with a blue accent' },
+  { id: 'compact', label: 'Compact', description: 'Smaller type, fits more' },
+];
+
+const BASE_CSS = `
+  @page { size: letter; margin: 0.5in; }
+  * { box-sizing: border-box; }
+  body { margin: 0; color: #1e293b; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  h1 { margin: 0; }
+  h2 { margin: 0; }
+  ul { margin: 0; }
+  .contact { margin: 2px 0 0; }
+  .entry { break-inside: avoid; }
+  .row { display: flex; justify-content: space-between; gap: 12px; }
+  .title { font-weight: bold; }
+  .sub { font-style: italic; }
+  .dates, .location { white-space: nowrap; }
+  .skills { margin: 0; }
+  @media screen { body { padding: 0.5in; } }
+`;
+
+const TEMPLATE_CSS: Record<ResumeTemplate, string> = {
+  classic: `
+    body { font-family: Georgia, 'Times New Roman', serif; font-size: 10.5pt; line-height: 1.35; }
+    header { text-align: center; margin-bottom: 10px; }
+    h1 { font-size: 20pt; font-weight: normal; letter-spacing: 1px; }
+    .contact { font-size: 9.5pt; color: #475569; }
+    h2 { font-size: 10.5pt; text-transform: uppercase; letter-spacing: 1.5px; border-bottom: 1px solid #1e293b; padding-bottom: 2px; margin: 12px 0 6px; }
+    .entry { margin-bottom: 7px; }
+    ul { padding-left: 18px; margin-top: 2px; }
+  `,
+  modern: `
+    body { font-family: 'Helvetica Neue', Helvetica, Arial, sans-serif; font-size: 10pt; line-height: 1.4; }
+    header { border-left: 4px solid #1d4ed8; padding-left: 10px; margin-bottom: 12px; }
+    h1 { font-size: 22pt; color: #1d4ed8; }
+    .contact { font-size: 9pt; color: #64748b; }
+    h2 { font-size: 9.5pt; color: #1d4ed8; text-transform: uppercase; letter-spacing: 2px; margin: 14px 0 6px; }
+    .entry { margin-bottom: 8px; }
+    .sub { font-style: normal; color: #475569; }
+    .dates, .location { color: #64748b; font-size: 9pt; }
+    ul { padding-left: 16px; margin-top: 3px; }
+  `,
+  compact: `
+    body { font-family: Arial, Helvetica, sans-serif; font-size: 9pt; line-height: 1.25; }
+    header { display: flex; justify-content: space-between; align-items: baseline; border-bottom: 1.5px solid #1e293b; padding-bottom: 4px; margin-bottom: 6px; }
+    h1 { font-size: 16pt; }
+    .contact { font-size: 8.5pt; color: #475569; }
+    h2 { font-size: 9pt; text-transform: uppercase; letter-spacing: 1px; margin: 8px 0 3px; }
+    .entry { margin-bottom: 4px; }
+    ul { padding-left: 14px; margin-top: 1px; }
+  `,
+};
+
+const renderEntry = (entry: ResumeEntry) => `
+  <div class="entry">
+    <div class="row"><span class="title">${escapeHtml(entry.title)}</span><span class="dates">${escapeHtml(entry.dates)}</span></div>
+    ${entry.subtitle || entry.location
+      ? `<div class="row"><span class="sub">${escapeHtml(entry.subtitle)}</span><span class="location">${escapeHtml(entry.location)}</span></div>`
+      : ''}
+    ${entry.bullets.length ? `<ul>${entry.bullets.map(b => `<li>${escapeHtml(b)}</li>`).join('')}</ul>` : ''}
+  </div>`;
+
+export const renderResumeHtml = (doc: ResumeDocument, template: ResumeTemplate): string => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(doc.header.name || 'Resume')}</title>
+<style>${BASE_CSS}${TEMPLATE_CSS[template]}</style>
+</head>
+<body>
+  <header>
+    <h1>${escapeHtml(doc.header.name || 'Your Name')}</h1>
+    ${doc.header.contact ? `<p class="contact">${escapeHtml(doc.header.contact)}</p>` : ''}
+  </header>
+  ${doc.sections.map(section => `
+  <section>
+    <h2>${escapeHtml(section.title)}</h2>
+    ${section.category === 'skill'
+      ? `<p class="skills">${section.entries.map(e => escapeHtml(e.title)).join(' · ')}</p>`
+      : section.entries.map(renderEntry).join('')}
+  </section>`).join('')}
+</body>
+</html>`;
+
+const entryText = (entry: ResumeEntry): string => {
+  const heading = [entry.title, entry.subtitle].filter(Boolean).join(' — ');
+  const meta = [entry.dates, entry.location].filter(Boolean).join(', ');
+  return [
+    meta ? `${heading} (${meta})` : heading,
+    ...entry.bullets.map(b => `  • ${b}`),
+  ].join('\n');
+};
+
+/** Plain text with no layout, which ATS upload forms and emails keep intact. */
+export const renderResumeText = (doc: ResumeDocument): string =>
+  [
+    [doc.header.name, doc.header.contact].filter(Boolean).join('\n'),
+    ...doc.sections.map(section => [
+      section.title.toUpperCase(),
+      section.category === 'skill'
+        ? section.entries.map(e => e.title).join(', ')
+        : section.entries.map(entryText).join('\n\n'),
+    ].join('\n')),
+  ].filter(Boolean).join('\n\n') + '\n';
@@ -0,0 +1,62 @@
+import { Ingredient, IngredientContent, IngredientRevision } from "../types.ts";
+import { createId } from "./applications.ts";
+
+/**
+ * Per-ingredient revision history. Each revision is a full snapshot of the
+ * ingredient's content after a change, so any two can be diffed and any one
+ * restored. Unlike the Pantry's undo stack, the history is saved with the
+ * ingredient and survives reloads.
+ */
+
+export const MAX_REVISIONS = 20;
+
+export const contentOf = (ingredient: Ingredient | IngredientContent): IngredientContent => {
+  const { id: _id, revisions: _revisions, ...content } = ingredient as Ingredient;
+  return content;
+};
+
+const sameContent = (a: IngredientContent, b: IngredientContent) => JSON.stringify(a) === JSON.stringify(b);
+
+const snapshot = (
+  ingredient: Ingredient | IngredientContent,
+  source: IngredientRevision['source'],
+  note?: string
+): IngredientRevision => ({
+  id: createId(),
+  createdAt: Date.now(),
+  source,
+  ...(note ? { note } : {}),
+  content: contentOf(ingredient),
+});
+
+/** The oldest revision is the user's own wording, so it's kept when trimming. */
+const trim = (revisions: IngredientRevision[]) =>
+  revisions.length <= MAX_REVISIONS ? revisions : [revisions[0], ...revisions.slice(-(MAX_REVISIONS - 1))];
+
+/**
+ * Returns `after` with a revision for the change from `before` appended.
+ * Items saved before history existed get their previous content recorded
+ * as the original first. Unchanged content records nothing.
+ */
+export const recordRevision = (
+  before: Ingredient | undefined,
+  after: Ingredient,
+  source: IngredientRevision['source'],
+  note?: string
+): Ingredient => {
+  const history = before?.revisions ?? (before ? [snapshot(before, 'original')] : []);
+  if (before && sameContent(contentOf(before), contentOf(after))) return { ...after, revisions: before.revisions };
+  return { ...after, revisions: trim([...history, snapshot(after, source, note)]) };
+};
+
+/** Puts a revision's content back as the current content, recording the restore as a new revision. */
+export const restoreRevision = (ingredient: Ingredient, revisionId: string): Ingredient => {
+  const revision = ingredient.revisions?.find(r => r.id === revisionId);
+  if (!revision) return ingredient;
+  const restored: Ingredient = { ...revision.content, id: ingredient.id, revisions: ingredient.revisions };
+  return recordRevision(ingredient, restored, 'restore', `Restored from ${new Date(revision.createdAt).toLocaleString()}`);
+};
+
+/** Drops revision histories before ingredients are sent to the API server, which never needs them. */
+export const withoutHistory = (ingredients: Ingredient[]): Ingredient[] =>
+  ingredients.map(ingredient => (ingredient.revisions ? { ...contentOf(ingredient), id: ingredient.id } : ingredient));
@@ -0,0 +1,219 @@
+import { Ingredient, SkillLevel } from "../types.ts";
+
+/**
+ * Bundled skill taxonomy: one canonical name per skill, the spellings that
+ * mean the same thing, and a group for related skills. Skill names and tags
+ * are normalized against it on add and import, and the keyword matcher uses
+ * it to recognise skills in job descriptions.
+ */
+
+export type SkillGroup =
+  | 'Languages'
+  | 'Frontend'
+  | 'Backend'
+  | 'Databases'
+  | 'Cloud & DevOps'
+  | 'Data & AI'
+  | 'Design'
+  | 'Practices'
+  | 'Tools';
+
+export interface SkillEntry {
+  name: string; // Canonical spelling, used on cards and in prompts
+  aliases: string[];
+  group: SkillGroup;
+  // Forms to look for in running text. Defaults to the name and aliases; set
+  // for skills whose name or an alias is also an ordinary word ("Go", "rest").
+  inText?: string[];
+}
+
+export const SKILL_TAXONOMY: SkillEntry[] = [
+  // Languages
+  { name: 'JavaScript', aliases: ['js', 'javascript es6', 'ecmascript', 'es6', 'vanilla js'], group: 'Languages' },
+  { name: 'TypeScript', aliases: ['ts'], group: 'Languages' },
+  { name: 'Python', aliases: ['python3', 'py'], group: 'Languages' },
+  { name: 'Java', aliases: [], group: 'Languages' },
+  { name: 'Kotlin', aliases: [], group: 'Languages' },
+  { name: 'Go', aliases: ['golang'], group: 'Languages', inText: ['golang'] },
+  { name: 'Rust', aliases: [], group: 'Languages' },
+  { name: 'C++', aliases: ['cpp'], group: 'Languages' },
+  { name: 'C#', aliases: ['csharp', 'c sharp'], group: 'Languages' },
+  { name: 'Ruby', aliases: [], group: 'Languages' },
+  { name: 'PHP', aliases: [], group: 'Languages' },
+  { name: 'Scala', aliases: [], group: 'Languages' },
+  { name: 'R', aliases: ['r language', 'rstudio'], group: 'Languages', inText: ['r language', 'rstudio'] },
+  { name: 'SQL', aliases: ['structured query language'], group: 'Languages' },
+
+  // Frontend
+  { name: 'HTML', aliases: ['html5'], group: 'Frontend' },
+  { name: 'CSS', aliases: ['css3'], group: 'Frontend' },
+  { name: 'React', aliases: ['react.js', 'reactjs'], group: 'Frontend' },
+  { name: 'React Native', aliases: [], group: 'Frontend' },
+  { name: 'Vue', aliases: ['vue.js', 'vuejs'], group: 'Frontend' },
+  { name: 'Angular', aliases: ['angularjs', 'angular.js'], group: 'Frontend' },
+  { name: 'Svelte', aliases: ['sveltekit'], group: 'Frontend' },
+  { name: 'Next.js', aliases: ['nextjs', 'next'], group: 'Frontend', inText: ['next.js', 'nextjs'] },
+  { name: 'Redux', aliases: [], group: 'Frontend' },
+  { name: 'Tailwind CSS', aliases: ['tailwind', 'tailwindcss'], group: 'Frontend' },
+
+  // Backend
+  { name: 'Node.js', aliases: ['node', 'nodejs'], group: 'Backend', inText: ['node.js', 'nodejs'] },
+  { name: 'Express', aliases: ['express.js', 'expressjs'], group: 'Backend', inText: ['express.js', 'expressjs'] },
+  { name: 'Django', aliases: [], group: 'Backend' },
+  { name: 'Flask', aliases: [], group: 'Backend' },
+  { name: 'Spring Boot', aliases: ['spring', 'spring framework'], group: 'Backend', inText: ['spring boot', 'spring framework'] },
+  { name: 'Ruby on Rails', aliases: ['rails', 'ror'], group: 'Backend' },
+  { name: '.NET', aliases: ['dotnet', 'asp.net'], group: 'Backend' },
+  { name: 'REST APIs', aliases: ['rest api', 'restful', 'restful api', 'rest'], group: 'Backend', inText: ['rest api', 'rest apis', 'restful', 'restful api'] },
+  { name: 'GraphQL', aliases: ['gql'], group: 'Backend' },
+
+  // Databases
+  { name: 'PostgreSQL', aliases: ['postgres', 'psql'], group: 'Databases' },
+  { name: 'MySQL', aliases: [], group: 'Databases' },
+  { name: 'MongoDB', aliases: ['mongo'], group: 'Databases' },
+  { name: 'Redis', aliases: [], group: 'Databases' },
+
+  // Cloud & DevOps
+  { name: 'AWS', aliases: ['amazon web services'], group: 'Cloud & DevOps' },
+  { name: 'Google Cloud', aliases: ['gcp', 'google cloud platform'], group: 'Cloud & DevOps' },
+  { name: 'Azure', aliases: ['microsoft azure'], group: 'Cloud & DevOps' },
+  { name: 'Docker', aliases: [], group: 'Cloud & DevOps' },
+  { name: 'Kubernetes', aliases: ['k8s'], group: 'Cloud & DevOps' },
+  { name: 'Terraform', aliases: [], group: 'Cloud & DevOps' },
+  { name: 'CI/CD', aliases: ['continuous integration', 'continuous delivery', 'ci', 'cicd'], group: 'Cloud & DevOps' },
+  { name: 'Linux', aliases: [], group: 'Cloud & DevOps' },
+
+  // Data & AI
+  { name: 'Machine Learning', aliases: ['ml'], group: 'Data & AI' },
+  { name: 'Deep Learning', aliases: [], group: 'Data & AI' },
+  { name: 'Artificial Intelligence', aliases: ['ai'], group: 'Data & AI' },
+  { name: 'Natural Language Processing', aliases: ['nlp'], group: 'Data & AI' },
+  { name: 'Data Analysis', aliases: ['data analytics', 'analytics'], group: 'Data & AI' },
+  { name: 'Data Visualization', aliases: ['data viz'], group: 'Data & AI' },
+  { name: 'Statistics', aliases: [], group: 'Data & AI' },
+  { name: 'pandas', aliases: [], group: 'Data & AI' },
+  { name: 'NumPy', aliases: [], group: 'Data & AI' },
+  { name: 'TensorFlow', aliases: [], group: 'Data & AI' },
+  { name: 'PyTorch', aliases: [], group: 'Data & AI' },
+  { name: 'Tableau', aliases: [], group: 'Data & AI' },
+  { name: 'Power BI', aliases: ['powerbi'], group: 'Data & AI' },
+  { name: 'Excel', aliases: ['microsoft excel', 'ms excel'], group: 'Data & AI' },
+
+  // Design
+  { name: 'User Experience', aliases: ['ux', 'ux design'], group: 'Design' },
+  { name: 'User Interface', aliases: ['ui', 'ui design'], group: 'Design' },
+  { name: 'Figma', aliases: [], group: 'Design' },
+  { name: 'Photoshop', aliases: ['adobe photoshop'], group: 'Design' },
+
+  // Practices
+  { name: 'Agile', aliases: [], group: 'Practices' },
+  { name: 'Scrum', aliases: [], group: 'Practices' },
+  { name: 'Kanban', aliases: [], group: 'Practices' },
+  { name: 'Test-Driven Development', aliases: ['tdd'], group: 'Practices' },
+  { name: 'Object-Oriented Programming', aliases: ['oop'], group: 'Practices' },
+  { name: 'A/B Testing', aliases: ['ab testing', 'split testing'], group: 'Practices' },
+  { name: 'Project Management', aliases: [], group: 'Practices' },
+  { name: 'Search Engine Optimization', aliases: ['seo'], group: 'Practices' },
+
+  // Tools
+  { name: 'Git', aliases: ['version control'], group: 'Tools' },
+  { name: 'GitHub', aliases: [], group: 'Tools' },
+  { name: 'GitLab', aliases: [], group: 'Tools' },
+  { name: 'Jira', aliases: [], group: 'Tools' },
+];
+
+export const SKILL_LEVELS: { value: SkillLevel; label: string }[] = [
+  { value: 'beginner', label: 'Beginner' },
+  { value: 'intermediate', label: 'Intermediate' },
+  { value: 'advanced', label: 'Advanced' },
+  { value: 'expert', label: 'Expert' },
+];
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const BY_SPELLING = new Map<string, SkillEntry>();
+for (const entry of SKILL_TAXONOMY) {
+  for (const spelling of [entry.name, ...entry.aliases]) BY_SPELLING.set(normalize(spelling), entry);
+}
+
+// "3", "v2", "2.7", "es2020": versions that don't change which skill it is
+const VERSION = /^(v?\d+(\.\d+)*|es20\d\d|es\d)$/;
+
+/**
+ * Looks up a skill by any of its spellings. Also accepts a spelling plus
+ * version words ("JavaScript ES6", "Python 3"); anything else is unknown.
+ */
+export const findSkill = (name: string): SkillEntry | undefined => {
+  const key = normalize(name);
+  const exact = BY_SPELLING.get(key);
+  if (exact) return exact;
+  const words = key.split(' ').filter(word => !VERSION.test(word));
+  const named = BY_SPELLING.get(words.join(' '));
+  if (named) return named;
+  // Every word a spelling of the same skill, e.g. "JavaScript ES6"
+  const entries = words.map(word => BY_SPELLING.get(word));
+  return entries.length > 0 && entries.every(entry => entry === entries[0]) ? entries[0] : undefined;
+};
+
+/** Canonical spelling for a known skill; unknown names are returned trimmed. */
+export const canonicalSkillName = (name: string): string => findSkill(name)?.name ?? name.trim();
+
+const canonicalTags = (tags?: string[]): string[] | undefined => {
+  if (!tags) return tags;
+  const seen = new Set<string>();
+  return tags.map(canonicalSkillName).filter(tag => {
+    const key = normalize(tag);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/** Renames a skill to its canonical spelling and normalizes tags on any ingredient. */
+export const canonicalizeIngredient = <T extends Pick<Ingredient, 'name' | 'category' | 'tags'>>(ingredient: T): T => {
+  const name = ingredient.category === 'skill' ? canonicalSkillName(ingredient.name) : ingredient.name;
+  const tags = canonicalTags(ingredient.tags);
+  return tags === undefined ? { ...ingredient, name } : { ...ingredient, name, tags };
+};
+
+/** Taxonomy skills the pantry covers, by canonical name, with the ingredient that covers each. */
+export const pantrySkills = (ingredients: Ingredient[]): Map<string, Ingredient> => {
+  const covered = new Map<string, Ingredient>();
+  const add = (spelling: string, ingredient: Ingredient) => {
+    const entry = findSkill(spelling);
+    if (entry && !covered.has(entry.name)) covered.set(entry.name, ingredient);
+  };
+  // Skill cards first so they win over tags on experience items
+  for (const ingredient of ingredients) if (ingredient.category === 'skill') add(ingredient.name, ingredient);
+  for (const ingredient of ingredients) ingredient.tags?.forEach(tag => add(tag, ingredient));
+  return covered;
+};
+
+// Wording around a skill in a requirement like "Strong experience with JS"
+const FILLER = /\b(strong|solid|proven|hands-on|experience|experienced|with|in|of|using|knowledge|proficiency|proficient|familiarity|familiar|skills?|background|expertise|years?|\d+\+?)\b/gi;
+
+/**
+ * The pantry ingredient that already covers a requirement, when the
+ * requirement is just a known skill under any spelling. Used to drop
+ * "missing" skills the model didn't recognise.
+ */
+export const findCoveringIngredient = (requirement: string, ingredients: Ingredient[]): Ingredient | undefined => {
+  const entry = findSkill(requirement) ?? findSkill(requirement.replace(FILLER, ' '));
+  return entry ? pantrySkills(ingredients).get(entry.name) : undefined;
+};
+
+/** Reads a free-text level like "Expert" or "Intermediate level" from other tools. */
+export const parseSkillLevel = (text: string): SkillLevel | undefined => {
+  const value = normalize(text);
+  if (/\b(expert|master|native|fluent)\b/.test(value)) return 'expert';
+  if (/\b(advanced|proficient|senior)\b/.test(value)) return 'advanced';
+  if (/\b(intermediate|working|competent|conversational)\b/.test(value)) return 'intermediate';
+  if (/\b(beginner|basic|novice|elementary|familiar)\b/.test(value)) return 'beginner';
+  return undefined;
+};
+
+export const formatSkillLevel = (ingredient: Pick<Ingredient, 'proficiency' | 'yearsOfUse'>): string =>
+  [
+    SKILL_LEVELS.find(level => level.value === ingredient.proficiency)?.label,
+    ingredient.yearsOfUse ? `${ingredient.yearsOfUse} ${ingredient.yearsOfUse === 1 ? 'year' : 'years'}` : '',
+  ].filter(Boolean).join(', ');
@@ -0,0 +1,157 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { KitchenDbBackend, setKitchenDbBackend } from "./kitchenDb.ts";
+import { SCHEMA_VERSION, loadChefState, migrateState, saveChefState } from "./statePersistence.ts";
+
+const storedAt = (schemaVersion: number, data: any) => ({ schemaVersion, savedAt: '2024-01-01T00:00:00.000Z', data });
+
+const legacyApplication = {
+  id: 'app-1',
+  companyName: 'Acme',
+  jobTitle: 'Engineer',
+  jobDescription: 'Build things.',
+  createdAt: 1700000000000,
+};
+
+test('migrates a schema 0 document all the way to the current schema', () => {
+  const state: any = migrateState(storedAt(0, {
+    ingredients: [
+      { id: 'a', name: 'Engineer at Acme', category: 'experience', details: 'Jan 2022 - Present | Berlin\n- Shipped the app' },
+      { name: 'TypeScript', category: 'not-a-category' },
+      { name: '   ' },
+      { category: 'skill' },
+    ],
+    applications: [legacyApplication],
+    activeApplicationId: 'app-1',
+  }));
+
+  assert.equal(state.ingredients.length, 2);
+  assert.deepEqual(state.ingredients[0], {
+    id: 'a',
+    name: 'Engineer at Acme',
+    category: 'experience',
+    role: 'Engineer',
+    organization: 'Acme',
+    startDate: '2022-01',
+    isCurrent: true,
+    location: 'Berlin',
+    bullets: ['Shipped the app'],
+    details: undefined,
+  });
+  assert.equal(state.ingredients[1].category, 'skill');
+  assert.equal(typeof state.ingredients[1].id, 'string');
+
+  assert.deepEqual(state.profiles, []);
+  assert.equal(state.letterhead, null);
+  assert.equal(state.activeApplicationId, 'app-1');
+  assert.deepEqual(state.applications, [{
+    ...legacyApplication,
+    stage: 'saved',
+    stageHistory: { saved: legacyApplication.createdAt },
+    deadline: null,
+    followUpDate: null,
+    coverLetters: [],
+    interviewSessions: [],
+    profileId: null,
+    resume: null,
+    letterRecipient: null,
+    coverLetterOptions: null,
+  }]);
+});
+
+test('a mid-chain document keeps its data and gains only the later fields', () => {
+  const resume = { profileId: null, sections: [] };
+  const state: any = migrateState(storedAt(4, {
+    ingredients: [{ id: 'i', name: 'Engineer at Acme', category: 'experience', details: 'Kept as written' }],
+    profiles: [{ id: 'p', name: 'Frontend' }],
+    applications: [{ id: 'x', profileId: 'p', resume, coverLetters: [], interviewSessions: [] }],
+    activeApplicationId: 'x',
+  }));
+
+  // Schema 2 already ran for this document, so its ingredients aren't split again
+  assert.deepEqual(state.ingredients, [{ id: 'i', name: 'Engineer at Acme', category: 'experience', details: 'Kept as written' }]);
+  assert.deepEqual(state.profiles, [{ id: 'p', name: 'Frontend' }]);
+  assert.equal(state.letterhead, null);
+  assert.deepEqual(state.applications[0], {
+    id: 'x',
+    profileId: 'p',
+    resume,
+    coverLetters: [],
+    interviewSessions: [],
+    letterRecipient: null,
+    coverLetterOptions: null,
+  });
+});
+
+test('splits legacy details and headlines the way schema 2 shipped', () => {
+  const state: any = migrateState(storedAt(2, {
+    ingredients: [
+      { id: 'e', name: 'State University, B.S. Computer Science', category: 'education', details: '2015 – 2019 | GPA 3.9' },
+      { id: 's', name: 'React', category: 'skill', details: 'Hooks and context' },
+    ],
+    profiles: [],
+    applications: [],
+    activeApplicationId: null,
+  }));
+
+  assert.deepEqual(state.ingredients[0], {
+    id: 'e',
+    name: 'State University, B.S. Computer Science',
+    category: 'education',
+    role: 'B.S. Computer Science',
+    organization: 'State University',
+    startDate: '2015',
+    endDate: '2019',
+    details: 'GPA 3.9',
+  });
+  assert.deepEqual(state.ingredients[1], { id: 's', name: 'React', category: 'skill', details: 'Hooks and context' });
+});
+
+test('leaves current documents untouched', () => {
+  const data = { ingredients: [], profiles: [], letterhead: null, applications: [], activeApplicationId: 'x' };
+  assert.equal(migrateState(storedAt(SCHEMA_VERSION, data)), data);
+});
+
+test('loads documents from a newer schema as-is', (t) => {
+  t.mock.method(console, 'warn', () => {});
+  const data = { ingredients: [], futureField: true };
+  assert.equal(migrateState(storedAt(SCHEMA_VERSION + 1, data)), data);
+});
+
+test('fails on a schema version it has no migration for', () => {
+  assert.throws(() => migrateState(storedAt(-1, {})), /No migration from schema version -1/);
+});
+
+test('saving over a newer document backs it up and keeps its version and unknown keys', async (t) => {
+  t.mock.method(console, 'warn', () => {});
+  const records = new Map<string, any>();
+  const memory: KitchenDbBackend = {
+    get: async (_store, key) => records.get(key),
+    put: async (_store, key, value) => { records.set(key, value); },
+    delete: async (_store, key) => { records.delete(key); },
+    clear: async () => records.clear(),
+    count: async () => records.size,
+  };
+  setKitchenDbBackend(memory);
+
+  const newer = storedAt(SCHEMA_VERSION + 1, {
+    ingredients: [],
+    profiles: [],
+    letterhead: null,
+    applications: [{ id: 'x', coverLetters: [], interviewSessions: [] }],
+    activeApplicationId: 'x',
+    futureField: { kept: true },
+  });
+  records.set('current', newer);
+
+  const state = await loadChefState();
+  const backups = [...records.keys()].filter(key => key.startsWith(`backup-v${SCHEMA_VERSION + 1}-`));
+  assert.equal(backups.length, 1);
+  assert.deepEqual(records.get(backups[0]), newer);
+
+  await saveChefState({ ...state, ingredients: [{ id: 'i', name: 'Rust', category: 'skill' }] });
+  const saved = records.get('current');
+  assert.equal(saved.schemaVersion, SCHEMA_VERSION + 1);
+  assert.deepEqual(saved.data.futureField, { kept: true });
+  assert.deepEqual(saved.data.ingredients, [{ id: 'i', name: 'Rust', category: 'skill' }]);
+});
@@ -0,0 +1,280 @@
+import { ChefState, Ingredient } from "../types.ts";
+import { dbGet, dbPut } from "./kitchenDb.ts";
+import { createApplication, createId } from "./applications.ts";
+
+/**
+ * Saves everything in ChefState except transient flags to IndexedDB as one
+ * versioned document. Loading runs the document through MIGRATIONS until it
+ * reaches SCHEMA_VERSION, so a change to a stored type ships with a
+ * migration instead of breaking old data.
+ *
+ * To change the stored shape: bump SCHEMA_VERSION and add a migration keyed
+ * by the version it upgrades from. Migrations must not call helpers whose
+ * behaviour may change later; spell out the fields they add.
+ */
+
+export const SCHEMA_VERSION = 6;
+
+/** The ChefState fields that are saved. Everything else is transient. */
+export const PERSISTED_KEYS = ['ingredients', 'profiles', 'letterhead', 'applications', 'activeApplicationId'] as const;
+
+export type PersistedState = Pick<ChefState, typeof PERSISTED_KEYS[number]>;
+
+interface StoredDocument {
+  schemaVersion: number;
+  savedAt: string;
+  data: any;
+}
+
+const STATE_KEY = 'current';
+const LEGACY_INGREDIENTS_KEY = 'jobcook_ingredients';
+const LEGACY_APPLICATIONS_KEY = 'jobcook_applications';
+
+const INGREDIENT_CATEGORIES: Ingredient['category'][] = ['skill', 'experience', 'education', 'certification', 'project'];
+
+const asArray = (value: unknown): any[] => (Array.isArray(value) ? value : []);
+
+// --- Migration 2 helpers ---
+// Frozen copies of the ingredientFields.ts splitters as they were when schema 2
+// shipped. The live ones keep evolving for imports; these must not.
+
+const V2_MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const V2_CURRENT_WORDS = /^(present|current|now|ongoing|today)$/i;
+const V2_BULLET = /^\s*(?:[-*•▪◦‣]|\d+[.)])\s+/;
+const V2_RANGE_SEPARATOR = /\s+(?:-|–|—|to)\s+|\s*[–—]\s*/i;
+const V2_SCHOOL_WORDS = /\b(university|college|school|institute|academy|polytechnic|universit[äa]t|école)\b/i;
+
+const parseLooseDateV2 = (text: string): string | undefined => {
+  const value = text.trim().toLowerCase();
+  const iso = value.match(/^((?:19|20)\d{2})(?:[-/.](\d{1,2}))?/);
+  if (iso) return iso[2] ? `${iso[1]}-${iso[2].padStart(2, '0')}` : iso[1];
+  const numeric = value.match(/^(\d{1,2})[-/.]((?:19|20)\d{2})$/);
+  if (numeric) return `${numeric[2]}-${numeric[1].padStart(2, '0')}`;
+  const named = value.match(/^([a-z]{3})[a-z]*\.?,?\s+((?:19|20)\d{2})$/);
+  if (named && V2_MONTHS.includes(named[1])) return `${named[2]}-${String(V2_MONTHS.indexOf(named[1]) + 1).padStart(2, '0')}`;
+  const year = value.match(/\b((?:19|20)\d{2})\b/);
+  return year?.[1];
+};
+
+const parseRangeV2 = (text: string): Record<string, unknown> | null => {
+  const parts = text.split(V2_RANGE_SEPARATOR).map(p => p.trim()).filter(Boolean);
+  if (parts.length === 1) {
+    const single = parseLooseDateV2(parts[0]);
+    return single && parts[0].length <= 20 ? { startDate: single } : null;
+  }
+  if (parts.length !== 2) return null;
+  const startDate = parseLooseDateV2(parts[0]);
+  if (!startDate) return null;
+  if (V2_CURRENT_WORDS.test(parts[1])) return { startDate, isCurrent: true };
+  const endDate = parseLooseDateV2(parts[1]);
+  return endDate ? { startDate, endDate } : null;
+};
+
+const splitDetailsV2 = (details: string): Record<string, unknown> => {
+  const fields: Record<string, unknown> = {};
+  const bullets: string[] = [];
+  const rest: string[] = [];
+
+  details.split('\n').forEach((line, index) => {
+    if (!line.trim()) return;
+    if (V2_BULLET.test(line)) {
+      bullets.push(line.replace(V2_BULLET, '').trim());
+      return;
+    }
+    if (index === 0 && !fields.startDate) {
+      const [first, ...others] = line.split('|').map(p => p.trim());
+      const range = parseRangeV2(first);
+      if (range) {
+        Object.assign(fields, range);
+        const location = others.join(' | ');
+        if (location) {
+          if (/^gpa\b/i.test(location)) rest.push(location);
+          else fields.location = location;
+        }
+        return;
+      }
+    }
+    rest.push(line.trim());
+  });
+
+  if (bullets.length) fields.bullets = bullets;
+  fields.details = rest.length ? rest.join('\n') : undefined;
+  return fields;
+};
+
+const splitHeadlineV2 = (name: string, category: string): Record<string, string> => {
+  if (category !== 'experience' && category !== 'education') return {};
+  const atMatch = name.match(/^(.+?)\s+(?:at|@)\s+(.+)$/i);
+  const parts = atMatch ? [atMatch[1], atMatch[2]] : name.split(/\s+[—–|-]\s+|,\s+/);
+  if (parts.length !== 2) return {};
+  const [left, right] = parts.map(p => p.trim());
+  if (category === 'education' && V2_SCHOOL_WORDS.test(left) && !V2_SCHOOL_WORDS.test(right)) {
+    return { role: right, organization: left };
+  }
+  return { role: left, organization: right };
+};
+
+/** Upgrades data stored at version N to version N + 1. */
+const MIGRATIONS: Record<number, (data: any) => any> = {
+  // 0: the localStorage keys used before IndexedDB. Drops unreadable
+  // ingredients and fills in application fields added after launch.
+  0: (data) => ({
+    ingredients: asArray(data?.ingredients)
+      .filter(i => typeof i?.name === 'string' && i.name.trim())
+      .map(i => ({
+        ...i,
+        id: typeof i.id === 'string' ? i.id : createId(),
+        category: INGREDIENT_CATEGORIES.includes(i.category) ? i.category : 'skill',
+      })),
+    applications: asArray(data?.applications).map(a => ({
+      stage: 'saved',
+      stageHistory: { saved: a.createdAt },
+      deadline: null,
+      followUpDate: null,
+      ...a,
+      coverLetters: asArray(a.coverLetters),
+      interviewSessions: asArray(a.interviewSessions),
+    })),
+    activeApplicationId: data?.activeApplicationId ?? null,
+  }),
+  // 1: resume profiles; existing applications keep using the whole pantry
+  1: (data) => ({
+    ...data,
+    profiles: [],
+    applications: data.applications.map((a: any) => ({ ...a, profileId: null })),
+  }),
+  // 2: structured ingredient fields, split out of the old details text and headline
+  2: (data) => ({
+    ...data,
+    ingredients: data.ingredients.map((i: any) => ({
+      ...i,
+      ...splitHeadlineV2(i.name, i.category),
+      ...(typeof i.details === 'string' ? splitDetailsV2(i.details) : {}),
+    })),
+  }),
+  // 3: tailored resumes; none exist yet
+  3: (data) => ({
+    ...data,
+    applications: data.applications.map((a: any) => ({ ...a, resume: null })),
+  }),
+  // 4: cover letter letterhead and per-application recipients
+  4: (data) => ({
+    ...data,
+    letterhead: null,
+    applications: data.applications.map((a: any) => ({ ...a, letterRecipient: null })),
+  }),
+  // 5: cover letter options; existing drafts keep no batch or label
+  5: (data) => ({
+    ...data,
+    applications: data.applications.map((a: any) => ({ ...a, coverLetterOptions: null })),
+  }),
+};
+
+export const migrateState = (document: StoredDocument): PersistedState => {
+  let { schemaVersion: version, data } = document;
+  if (version > SCHEMA_VERSION) {
+    console.warn(`Saved state is from a newer version (schema ${version}); loading it as-is.`);
+    return data;
+  }
+  while (version < SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration from schema version ${version}.`);
+    data = migrate(data);
+    version++;
+  }
+  return data;
+};
+
+/** A usable state even if the stored data had no open application. */
+const ensureApplication = (state: PersistedState): PersistedState => {
+  const open = state.applications.filter(a => !a.archived);
+  if (open.some(a => a.id === state.activeApplicationId)) return state;
+  if (open.length > 0) return { ...state, activeApplicationId: open[0].id };
+  const first = createApplication();
+  return { ...state, applications: [...state.applications, first], activeApplicationId: first.id };
+};
+
+const readLegacyState = (): StoredDocument | null => {
+  try {
+    const ingredients = localStorage.getItem(LEGACY_INGREDIENTS_KEY);
+    const applications = localStorage.getItem(LEGACY_APPLICATIONS_KEY);
+    if (!ingredients && !applications) return null;
+    const workspace = applications ? JSON.parse(applications) : {};
+    return {
+      schemaVersion: 0,
+      savedAt: new Date().toISOString(),
+      data: {
+        ingredients: ingredients ? JSON.parse(ingredients) : [],
+        applications: workspace.applications,
+        activeApplicationId: workspace.activeApplicationId,
+      },
+    };
+  } catch (e) {
+    console.error("Failed to read legacy state from localStorage", e);
+    return null;
+  }
+};
+
+export const createEmptyState = (): PersistedState => ensureApplication({ ingredients: [], profiles: [], letterhead: null, applications: [], activeApplicationId: '' });
+
+// Set when the stored document came from a newer release (say, before a
+// rollback). Saves then keep its schema version and the keys this release
+// doesn't know, so the newer release can still read what it wrote.
+let newerDocument: StoredDocument | null = null;
+
+const backupKey = (document: StoredDocument) => `backup-v${document.schemaVersion}-${Date.now()}`;
+
+/**
+ * Loads and migrates the saved state. A document that fails to migrate is
+ * kept under a backup key rather than overwritten, and the app starts empty.
+ * A document from a newer schema is backed up too, then loaded as-is.
+ */
+export const loadChefState = async (): Promise<PersistedState> => {
+  let document: StoredDocument | null = null;
+  try {
+    document = (await dbGet<StoredDocument>('chefState', STATE_KEY)) ?? null;
+  } catch (e) {
+    console.error("Failed to load state from IndexedDB", e);
+  }
+  const isLegacy = !document;
+  document = document ?? readLegacyState();
+  if (!document) return createEmptyState();
+
+  let state: PersistedState;
+  try {
+    state = ensureApplication(migrateState(document));
+  } catch (e) {
+    console.error(`Failed to migrate saved state from schema version ${document.schemaVersion}`, e);
+    await dbPut('chefState', backupKey(document), document).catch(() => {});
+    return createEmptyState();
+  }
+
+  newerDocument = document.schemaVersion > SCHEMA_VERSION ? document : null;
+  if (newerDocument) {
+    await dbPut('chefState', backupKey(newerDocument), newerDocument)
+      .catch(e => console.error("Failed to back up state from a newer version", e));
+  }
+
+  if (isLegacy || document.schemaVersion < SCHEMA_VERSION) {
+    try {
+      await saveChefState(state);
+      if (isLegacy) {
+        localStorage.removeItem(LEGACY_INGREDIENTS_KEY);
+        localStorage.removeItem(LEGACY_APPLICATIONS_KEY);
+      }
+    } catch (e) {
+      console.error("Failed to save migrated state", e); // Old data stays where it was
+    }
+  }
+  return state;
+};
+
+export const saveChefState = async (state: PersistedState): Promise<void> => {
+  const data = Object.fromEntries(PERSISTED_KEYS.map(key => [key, state[key]]));
+  const document: StoredDocument = {
+    schemaVersion: newerDocument?.schemaVersion ?? SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    data: newerDocument ? { ...newerDocument.data, ...data } : data,
+  };
+  await dbPut('chefState', STATE_KEY, document);
+};
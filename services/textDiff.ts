@@ -0,0 +1,48 @@
+/**
+ * Minimal LCS diff for short texts like ingredient details or a cover letter
+ * paragraph. Quadratic in the number of tokens, which is fine at that size.
+ */
+
+export type DiffOp = { type: 'equal' | 'insert' | 'delete'; text: string };
+
+const diffTokens = (a: string[], b: string[]): DiffOp[] => {
+  // lcs[i][j] = length of the LCS of a[i:] and b[j:]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  const push = (type: DiffOp['type'], text: string) => {
+    const last = ops[ops.length - 1];
+    if (last?.type === type) last.text += text;
+    else ops.push({ type, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('delete', a[i++]);
+    } else {
+      push('insert', b[j++]);
+    }
+  }
+  while (i < a.length) push('delete', a[i++]);
+  while (j < b.length) push('insert', b[j++]);
+  return ops;
+};
+
+/** Line-level diff. Each op's text keeps its trailing newlines. */
+export const diffLines = (before: string, after: string): DiffOp[] =>
+  diffTokens(before.match(/[^\n]*\n|[^\n]+$/g) ?? [], after.match(/[^\n]*\n|[^\n]+$/g) ?? []);
+
+/** Word-level diff. Whitespace is kept as its own token so joining the ops restores the text. */
+export const diffWords = (before: string, after: string): DiffOp[] =>
+  diffTokens(before.match(/\s+|[^\s]+/g) ?? [], after.match(/\s+|[^\s]+/g) ?? []);
@@ -0,0 +1,38 @@
+/**
+ * Snapshot-based undo/redo. Each entry stores the whole value before and
+ * after a change, which keeps undo exact for small collections like the
+ * pantry without per-action inverse logic.
+ */
+
+export interface UndoEntry<T> {
+  label: string; // Shown in toasts and button titles, e.g. "Delete React"
+  before: T;
+  after: T;
+}
+
+export interface UndoHistory<T> {
+  past: UndoEntry<T>[];
+  future: UndoEntry<T>[];
+}
+
+export const MAX_UNDO_STEPS = 50;
+
+export const emptyHistory = <T>(): UndoHistory<T> => ({ past: [], future: [] });
+
+/** Records a change. Any redo steps are dropped, as in an editor. */
+export const pushEntry = <T>(history: UndoHistory<T>, entry: UndoEntry<T>): UndoHistory<T> => ({
+  past: [...history.past, entry].slice(-MAX_UNDO_STEPS),
+  future: [],
+});
+
+export const undoEntry = <T>(history: UndoHistory<T>): { entry: UndoEntry<T>; history: UndoHistory<T> } | null => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return { entry, history: { past: history.past.slice(0, -1), future: [entry, ...history.future] } };
+};
+
+export const redoEntry = <T>(history: UndoHistory<T>): { entry: UndoEntry<T>; history: UndoHistory<T> } | null => {
+  const entry = history.future[0];
+  if (!entry) return null;
+  return { entry, history: { past: [...history.past, entry], future: history.future.slice(1) } };
+};
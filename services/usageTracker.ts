@@ -0,0 +1,290 @@
+import { AIProvider, AIRequest, AITask, GenerateOptions, ProviderId, TokenUsage } from "./aiProvider.ts";
+import { AIError } from "./aiErrors.ts";
+import { getKeyValueStore } from "./keyValueStore.ts";
+
+/**
+ * Per-call usage metering. Every live AI call is logged with its tokens,
+ * latency, model and the screen that triggered it, and an optional spend cap
+ * blocks new calls once the current day or month goes over budget.
+ *
+ * Providers that don't report usage get a rough chars/4 estimate, flagged
+ * as such in the log.
+ */
+
+export type UsageFeature = 'pantry' | 'jobAnalysis' | 'coverLetter' | 'mockInterview' | 'resume';
+
+export const FEATURE_LABELS: Record<UsageFeature, string> = {
+  pantry: 'Pantry Import',
+  jobAnalysis: 'Job Analysis',
+  coverLetter: 'Cover Letter',
+  mockInterview: 'Mock Interview',
+  resume: 'Tailored Resume',
+};
+
+// JD scanning counts toward Job Analysis wherever it is triggered
+const TASK_FEATURES: Record<AITask, UsageFeature> = {
+  resumeParse: 'pantry',
+  refine: 'pantry',
+  analysis: 'jobAnalysis',
+  research: 'jobAnalysis',
+  jdOcr: 'jobAnalysis',
+  coverLetter: 'coverLetter',
+  letterEdit: 'coverLetter',
+  claimCheck: 'coverLetter',
+  interviewQuestion: 'mockInterview',
+  evaluateText: 'mockInterview',
+  evaluateAudio: 'mockInterview',
+  resumeTailor: 'resume',
+};
+
+export interface UsageRecord {
+  timestamp: number;
+  task: AITask;
+  feature: UsageFeature;
+  provider: ProviderId;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  costUsd: number;
+  estimated: boolean; // Tokens guessed from text length
+  ok: boolean; // false for failed attempts, which are logged for latency but bill nothing
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  latencyMs: number; // Sum; divide by calls for the average
+}
+
+export type BudgetPeriod = 'day' | 'month';
+
+export interface UsageBudget {
+  limitUsd: number;
+  period: BudgetPeriod;
+}
+
+// USD per million tokens, matched by model-name prefix (longest first)
+const MODEL_PRICING: { prefix: string; input: number; output: number }[] = [
+  { prefix: 'gemini-2.5-flash-lite', input: 0.10, output: 0.40 },
+  { prefix: 'gemini-2.5-flash', input: 0.30, output: 2.50 },
+  { prefix: 'gemini-2.5-pro', input: 1.25, output: 10.00 },
+  { prefix: 'gemini-2.0-flash', input: 0.10, output: 0.40 },
+  { prefix: 'gpt-4o-mini', input: 0.15, output: 0.60 },
+  { prefix: 'gpt-4o', input: 2.50, output: 10.00 },
+  { prefix: 'gpt-4.1-mini', input: 0.40, output: 1.60 },
+  { prefix: 'gpt-4.1', input: 2.00, output: 8.00 },
+];
+
+const RECORDS_KEY = 'jobcook_ai_usage';
+const BUDGET_KEY = 'jobcook_ai_budget';
+const RETENTION_DAYS = 90;
+
+/** Whether we know what this model costs. Local and fake models are treated as free. */
+export const hasKnownPrice = (model: string): boolean =>
+  MODEL_PRICING.some(p => model.startsWith(p.prefix));
+
+export const estimateCost = (model: string, usage: TokenUsage): number => {
+  const price = MODEL_PRICING.find(p => model.startsWith(p.prefix));
+  if (!price) return 0;
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+};
+
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+/** Local calendar day, e.g. "2024-05-31". */
+export const toDayKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+let records: UsageRecord[] | null = null;
+
+const loadRecords = (): UsageRecord[] => {
+  if (records) return records;
+  try {
+    const saved = getKeyValueStore().getItem(RECORDS_KEY);
+    records = saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    console.error("Failed to load AI usage from storage", e);
+    records = [];
+  }
+  return records!;
+};
+
+const saveRecords = () => {
+  const cutoff = Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  records = loadRecords().filter(r => r.timestamp >= cutoff);
+  try {
+    getKeyValueStore().setItem(RECORDS_KEY, JSON.stringify(records));
+  } catch (e) {
+    console.error("Failed to save AI usage to storage", e);
+  }
+};
+
+export const getUsageRecords = (): UsageRecord[] => loadRecords();
+
+export const clearUsage = () => {
+  records = [];
+  saveRecords();
+};
+
+export const emptyTotals = (): UsageTotals => ({ calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, latencyMs: 0 });
+
+const addToTotals = (totals: UsageTotals, record: UsageRecord) => {
+  totals.calls++;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.costUsd += record.costUsd;
+  totals.latencyMs += record.latencyMs;
+};
+
+export interface UsageSummary {
+  total: UsageTotals;
+  byFeature: Record<UsageFeature, UsageTotals>;
+  byDay: { day: string; totals: UsageTotals }[]; // Newest first
+}
+
+export const getUsageSummary = (): UsageSummary => {
+  const total = emptyTotals();
+  const byFeature = Object.fromEntries(
+    (Object.keys(FEATURE_LABELS) as UsageFeature[]).map(feature => [feature, emptyTotals()])
+  ) as Record<UsageFeature, UsageTotals>;
+  const byDay = new Map<string, UsageTotals>();
+
+  for (const record of loadRecords()) {
+    addToTotals(total, record);
+    addToTotals(byFeature[record.feature], record);
+    const day = toDayKey(record.timestamp);
+    if (!byDay.has(day)) byDay.set(day, emptyTotals());
+    addToTotals(byDay.get(day)!, record);
+  }
+
+  return {
+    total,
+    byFeature,
+    byDay: [...byDay.entries()]
+      .sort((a, b) => b[0].localeCompare(a[0]))
+      .map(([day, totals]) => ({ day, totals })),
+  };
+};
+
+// --- Budget ---
+
+let budget: UsageBudget | null | undefined;
+
+export const getBudget = (): UsageBudget | null => {
+  if (budget !== undefined) return budget;
+  try {
+    const saved = getKeyValueStore().getItem(BUDGET_KEY);
+    budget = saved ? JSON.parse(saved) : null;
+  } catch (e) {
+    console.error("Failed to load AI budget", e);
+    budget = null;
+  }
+  return budget!;
+};
+
+/** Pass null to remove the cap. */
+export const setBudget = (next: UsageBudget | null) => {
+  budget = next;
+  try {
+    if (next) getKeyValueStore().setItem(BUDGET_KEY, JSON.stringify(next));
+    else getKeyValueStore().removeItem(BUDGET_KEY);
+  } catch (e) {
+    console.error("Failed to save AI budget", e);
+  }
+};
+
+/** Spend so far in the current budget period. */
+export const getPeriodSpend = (period: BudgetPeriod): number => {
+  const today = toDayKey(Date.now());
+  const matches = period === 'day'
+    ? (day: string) => day === today
+    : (day: string) => day.slice(0, 7) === today.slice(0, 7);
+  return loadRecords()
+    .filter(r => matches(toDayKey(r.timestamp)))
+    .reduce((sum, r) => sum + r.costUsd, 0);
+};
+
+export const assertWithinBudget = () => {
+  const cap = getBudget();
+  if (!cap) return;
+  const spent = getPeriodSpend(cap.period);
+  if (spent >= cap.limitUsd) {
+    throw new AIError('budget', {
+      detail: `Spent $${spent.toFixed(4)} of the $${cap.limitUsd.toFixed(2)} ${cap.period === 'day' ? 'daily' : 'monthly'} cap`,
+    });
+  }
+};
+
+// --- Metering ---
+
+const logCall = (
+  provider: AIProvider,
+  request: AIRequest,
+  startedAt: number,
+  outcome: { usage?: TokenUsage; outputText: string; ok: boolean }
+) => {
+  // Failed attempts bill nothing unless some output already streamed back
+  const billable = outcome.ok || outcome.outputText.length > 0;
+  const usage = outcome.usage ?? (billable
+    ? { inputTokens: estimateTokens(request.prompt), outputTokens: estimateTokens(outcome.outputText) }
+    : { inputTokens: 0, outputTokens: 0 });
+
+  loadRecords().push({
+    timestamp: startedAt,
+    task: request.task,
+    feature: TASK_FEATURES[request.task],
+    provider: provider.id,
+    model: provider.model,
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    latencyMs: Date.now() - startedAt,
+    costUsd: estimateCost(provider.model, usage),
+    estimated: !outcome.usage && billable,
+    ok: outcome.ok,
+  });
+  saveRecords();
+};
+
+/** Wraps a provider so every attempt is logged and calls past the budget cap are refused. */
+export const createMeteredProvider = (inner: AIProvider): AIProvider => ({
+  ...inner,
+  generate: async (request: AIRequest, options?: GenerateOptions) => {
+    assertWithinBudget();
+    const startedAt = Date.now();
+    try {
+      const response = await inner.generate(request, options);
+      logCall(inner, request, startedAt, { usage: response.usage, outputText: response.text, ok: true });
+      return response;
+    } catch (error) {
+      logCall(inner, request, startedAt, { outputText: '', ok: false });
+      throw error;
+    }
+  },
+  generateStream: async function* (request: AIRequest, options?: GenerateOptions) {
+    assertWithinBudget();
+    const startedAt = Date.now();
+    let usage: TokenUsage | undefined;
+    let text = '';
+    try {
+      for await (const chunk of inner.generateStream(request, {
+        ...options,
+        onUsage: (reported) => {
+          usage = reported;
+          options?.onUsage?.(reported);
+        },
+      })) {
+        text += chunk;
+        yield chunk;
+      }
+      logCall(inner, request, startedAt, { usage, outputText: text, ok: true });
+    } catch (error) {
+      logCall(inner, request, startedAt, { usage, outputText: text, ok: false });
+      throw error;
+    }
+  },
+});
@@ -1,28 +1,74 @@
 export enum CookMode {
+  APPLICATIONS = 'APPLICATIONS', // Workspace of job applications
+  PIPELINE = 'PIPELINE',  // Kanban board of application stages
   PANTRY = 'PANTRY',      // Resume/Profile
   RECIPE = 'RECIPE',      // Job Description & Analysis
+  RESUME = 'RESUME',      // Tailored resume for the job
   COVER_LETTER = 'COVER_LETTER', // Cover Letter Generation
   TASTE_TEST = 'TASTE_TEST', // Mock Interview (Careermizing feature)
 }
 
 export interface Ingredient {
   id: string;
-  name: string;
+  name: string; // Headline shown on the card, e.g. "Frontend Intern at Acme"
   category: 'skill' | 'experience' | 'education' | 'certification' | 'project';
-  details?: string;
+  organization?: string; // Employer, school or issuer
+  role?: string; // Job title, degree or project role
+  location?: string;
+  startDate?: string; // "YYYY" or "YYYY-MM"; also the date of a certification
+  endDate?: string; // "YYYY" or "YYYY-MM"; unset while isCurrent
+  isCurrent?: boolean;
+  bullets?: string[]; // Responsibilities and achievements
+  tags?: string[]; // Tools, technologies, related skills
+  url?: string;
+  proficiency?: SkillLevel; // Skills only
+  yearsOfUse?: number; // Skills only
+  details?: string; // Anything else: GPA, free-form notes
+  revisions?: IngredientRevision[]; // Oldest first; see services/revisions.ts
+}
+
+export type IngredientContent = Omit<Ingredient, 'id' | 'revisions'>;
+
+export interface IngredientRevision {
+  id: string;
+  createdAt: number;
+  source: 'original' | 'manual' | 'ai' | 'import' | 'restore';
+  note?: string; // e.g. the AI variation style, or which revision was restored
+  content: IngredientContent;
 }
 
+export type SkillLevel = 'beginner' | 'intermediate' | 'advanced' | 'expert';
+
 export interface DishAnalysis {
   matchScore: number; // 0-100
   missingIngredients: string[];
   tasteProfile: string; // Summary of fit
   chefTips: string[]; // Advice
   companyName: string; // Extracted company name
+  promptVersion?: string; // Template that produced it, e.g. "analysis@v1"
+  cachedAt?: number; // Set when served from the response cache
+}
+
+export interface AtsTerm {
+  term: string;
+  weight: number; // Contribution to the ATS score
+  count: number; // Occurrences in the job description
+  isSkill: boolean; // Known skill/tool vs. frequent keyword
+  matchedIn?: string; // Name of the ingredient that covers it
+  related?: string; // For a missing skill: a pantry skill from the same taxonomy group
+}
+
+export interface AtsMatchResult {
+  score: number; // 0-100, deterministic
+  matched: AtsTerm[];
+  missing: AtsTerm[];
 }
 
 export interface CompanyResearchResult {
   summary: string; // Markdown text
   sources: { title: string; uri: string }[];
+  promptVersion?: string;
+  cachedAt?: number;
 }
 
 export interface InterviewMessage {
@@ -31,23 +77,173 @@ export interface InterviewMessage {
   content: string;
   feedback?: string; // Feedback on candidate's answer
   score?: number; // 1-10 score for the answer
+  promptVersion?: string; // Template behind the question, or behind the feedback for answers
 }
 
-export interface ChefState {
-  ingredients: Ingredient[];
-  currentRecipe: string; // Job Description
+export interface AnswerEvaluation {
+  feedback: string;
+  score: number; // 1-10
+  promptVersion?: string;
+}
+
+export interface GeneratedText {
+  text: string;
+  promptVersion: string;
+}
+
+export interface AudioAnswerEvaluation extends AnswerEvaluation {
+  transcription: string;
+}
+
+export interface CoverLetterDraft {
+  id: string;
+  content: string; // Markdown
+  promptVersion: string | null;
+  createdAt: string; // ISO date
+  batchId?: string; // Shared by the alternatives generated in one run
+  label?: string; // Options it was written with, e.g. "Warm · ~300 words · Story-led"
+  claimCheck?: ClaimCheck; // Last unsupported-claim check of this draft
+}
+
+export type ClaimVerdict = 'supported' | 'exaggerated' | 'unsupported';
+
+export interface LetterClaim {
+  sentence: string; // The letter's sentence making the claim, as checked
+  claim: string; // What it says about the candidate, in brief
+  verdict: ClaimVerdict;
+  ingredientIds: string[]; // Pantry items that back it
+  note: string; // What's overstated or missing; empty when supported
+  confirmed?: boolean; // The user vouched for a flagged claim
+}
+
+export interface ClaimCheck {
+  contentHash: number; // hashString of the letter text that was checked
+  claims: LetterClaim[];
+  promptVersion: string;
+  checkedAt: string; // ISO date
+}
+
+export type LetterTone = 'formal' | 'warm' | 'startup';
+
+export interface CoverLetterOptions {
+  tone: LetterTone;
+  wordCount: number; // Target length
+  language: string; // Written out, e.g. "German"
+  emphasisIds: string[]; // Pantry items the letter should feature
+  draftCount: number; // Alternatives per run, 1-3
+}
+
+export interface InterviewSession {
+  id: string;
+  messages: InterviewMessage[]; // Chat history for mock interview
+  startedAt: string; // ISO date
+}
+
+/** One pantry ingredient as it appears in a profile. */
+export interface ProfileItem {
+  ingredientId: string;
+  details?: string; // Replaces the ingredient's details for this profile only
+}
+
+/** A named, ordered selection of pantry ingredients, e.g. "Frontend". */
+export interface ResumeProfile {
+  id: string;
+  name: string;
+  items: ProfileItem[];
+  createdAt: string; // ISO date
+  updatedAt: string; // ISO date
+}
+
+export type PipelineStage = 'saved' | 'applied' | 'screening' | 'interview' | 'offer' | 'rejected' | 'withdrawn';
+
+/** One job being applied to. Every mode except the Pantry works on the selected application. */
+export interface Application {
+  id: string;
+  title: string; // User-editable; falls back to the company name
+  jobDescription: string;
   companyName: string;
   analysis: DishAnalysis | null;
   companyResearch: CompanyResearchResult | null;
-  generatedCoverLetter: string | null;
-  interviewHistory: InterviewMessage[]; // Chat history for mock interview
+  coverLetters: CoverLetterDraft[];
+  activeCoverLetterId: string | null;
+  interviewSessions: InterviewSession[];
+  activeInterviewSessionId: string | null;
+  archived: boolean;
+  stage: PipelineStage;
+  stageHistory: Partial<Record<PipelineStage, string>>; // ISO date the application last entered each stage
+  deadline: string | null; // YYYY-MM-DD application deadline
+  followUpDate: string | null; // YYYY-MM-DD reminder to chase the employer
+  profileId: string | null; // Resume profile fed to the AI; null uses the whole pantry
+  resume: TailoredResume | null;
+  letterRecipient: LetterRecipient | null; // null until edited; the company name fills in meanwhile
+  coverLetterOptions: CoverLetterOptions | null; // null uses the defaults
+  createdAt: string; // ISO date
+  updatedAt: string; // ISO date
+}
+
+export type ResumeTemplate = 'classic' | 'modern' | 'compact';
+
+export interface BulletSuggestion {
+  id: string; // Bullet id from the prompt
+  text: string;
+}
+
+export interface BulletRewrite {
+  ingredientId: string;
+  index: number; // Position in the ingredient's bullets
+  original: string; // Text the rewrite was made from; ignored once the pantry bullet changes
+  rewritten: string;
+  status: 'pending' | 'accepted' | 'rejected';
+}
+
+export interface TailoredResume {
+  itemIds: string[]; // Pantry ingredients on the resume, in order
+  rewrites: BulletRewrite[];
+  template: ResumeTemplate;
+  pageLimit: 1 | 2;
+  header: { name: string; contact: string }; // contact: one line, e.g. "email · phone · city"
+  promptVersion: string | null; // Template that produced the rewrites
+  createdAt: string; // ISO date
+}
+
+export type LetterDateFormat = 'long' | 'day-first' | 'iso' | 'numeric';
+
+/** Sender details printed at the top of every exported cover letter. */
+export interface Letterhead {
+  name: string;
+  email: string;
+  phone: string;
+  website: string;
+  address: string; // One line per address line
+  dateFormat: LetterDateFormat;
+}
+
+export interface LetterRecipient {
+  name: string; // e.g. the hiring manager
+  title: string;
+  company: string;
+  address: string; // One line per address line
+}
+
+export interface ChefState {
+  ingredients: Ingredient[];
+  profiles: ResumeProfile[];
+  letterhead: Letterhead | null;
+  applications: Application[];
+  activeApplicationId: string;
   isCooking: boolean; // Loading state
 }
 
 export type ToastType = 'success' | 'error' | 'info';
 
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
 export interface ToastMessage {
   id: string;
   type: ToastType;
   message: string;
+  action?: ToastAction; // e.g. "Retry" after a transient AI failure
 }
\ No newline at end of file
@@ -9,9 +9,21 @@ export default defineConfig(({ mode }) => {
     build: {
       chunkSizeWarningLimit: 1600,
     },
+    server: {
+      // `npm run server` (or server:fake) alongside `npm run dev`
+      proxy: { '/api': `http://localhost:${env.SERVER_PORT || 8787}` },
+    },
     define: {
-      // Polyfill process.env.API_KEY for the GenAI SDK
-      'process.env.API_KEY': JSON.stringify(env.API_KEY)
+      // Polyfill process.env.API_KEY for the GenAI SDK. Never inlined when the
+      // API server holds the key.
+      'process.env.API_KEY': JSON.stringify(env.AI_PROXY_URL ? undefined : env.API_KEY),
+      // e.g. "/api"; routes every AI call through server/index.ts
+      'process.env.AI_PROXY_URL': JSON.stringify(env.AI_PROXY_URL),
+      // Default AI provider; can be switched at runtime from Kitchen Settings
+      'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+      'process.env.AI_MODEL': JSON.stringify(env.AI_MODEL),
+      'process.env.AI_BASE_URL': JSON.stringify(env.AI_BASE_URL),
+      'process.env.AI_FIXTURE_MODE': JSON.stringify(env.AI_FIXTURE_MODE)
     }
   };
 });
\ No newline at end of file